@@ -0,0 +1,84 @@
+/**
+ * Claude CLI backend
+ *
+ * Runs prompts through the `claude` CLI. Prompts are written to a temp
+ * file and piped in to avoid shell escaping issues with large contexts.
+ *
+ * - Without allowedTools: print mode (`claude -p`)
+ * - With allowedTools: agentic mode, restricted to the given tools
+ */
+
+import { $ } from "bun";
+import { mkdirSync } from "fs";
+import { join } from "path";
+import { homedir } from "os";
+import type { ReviewBackend, ReviewRequest } from "./types";
+
+/** Valid Claude models for review */
+const VALID_MODELS = new Set(["haiku", "sonnet", "opus", "claude-3-haiku-20240307", "claude-3-sonnet-20240229", "claude-3-opus-20240229"]);
+
+/**
+ * Get chats directory path (temp prompts live next to chat exports)
+ */
+function getChatsDir(): string {
+  const xdgDataHome = process.env.XDG_DATA_HOME;
+  if (xdgDataHome) {
+    return join(xdgDataHome, "wdyt", "chats");
+  }
+  return join(homedir(), ".wdyt", "chats");
+}
+
+export class ClaudeCliBackend implements ReviewBackend {
+  readonly name = "claude" as const;
+  readonly supportsTools = true;
+
+  constructor(private readonly defaultModel?: string) {}
+
+  /**
+   * Check if claude CLI is on PATH
+   */
+  async isAvailable(): Promise<boolean> {
+    try {
+      await $`which claude`.quiet();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Run a prompt through the claude CLI
+   */
+  async run(request: ReviewRequest): Promise<string> {
+    const model = request.model || this.defaultModel;
+
+    // Validate model to prevent passing arbitrary flags to the CLI
+    if (model && !VALID_MODELS.has(model)) {
+      throw new Error(`Invalid model: ${model}. Valid models: ${[...VALID_MODELS].join(", ")}`);
+    }
+
+    const args = ["--no-session-persistence"];
+    if (request.allowedTools) {
+      args.push("--allowedTools", request.allowedTools.join(","));
+    } else {
+      args.unshift("-p");
+    }
+    if (model) {
+      args.push("--model", model);
+    }
+
+    const chatsDir = getChatsDir();
+    mkdirSync(chatsDir, { recursive: true });
+    const tempPath = join(chatsDir, `prompt-${Date.now()}-${crypto.randomUUID()}.txt`);
+    await Bun.write(tempPath, request.prompt);
+
+    try {
+      const result = await $`cat ${tempPath} | claude ${args}`
+        .cwd(request.cwd || process.cwd())
+        .text();
+      return result.trim();
+    } finally {
+      await $`rm -f ${tempPath}`.quiet();
+    }
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Fixture backend
+ *
+ * Deterministic, offline backend for tests and dry runs. Returns the
+ * content of a fixture file if configured, otherwise an echo response
+ * describing the prompt it received. Never calls a model.
+ */
+
+import type { ReviewBackend, ReviewRequest } from "./types";
+
+export class FixtureBackend implements ReviewBackend {
+  readonly name = "fixture" as const;
+  /** Stands in for the agentic Claude backend (tools are never run) */
+  readonly supportsTools = true;
+
+  /** Prompts received, in order (useful for assertions) */
+  readonly requests: ReviewRequest[] = [];
+
+  constructor(private readonly fixturePath?: string) {}
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  async run(request: ReviewRequest): Promise<string> {
+    this.requests.push(request);
+
+    if (this.fixturePath) {
+      const file = Bun.file(this.fixturePath);
+      if (!(await file.exists())) {
+        throw new Error(`Fixture not found: ${this.fixturePath}`);
+      }
+      return (await file.text()).trim();
+    }
+
+    const firstLine = request.prompt.split("\n", 1)[0];
+    return `Echo review (${request.prompt.length} chars): ${firstLine}\n\n<verdict>SHIP</verdict>`;
+  }
+}
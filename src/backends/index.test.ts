@@ -0,0 +1,163 @@
+/**
+ * Tests for review backends
+ */
+
+import { describe, test, expect, afterAll } from "bun:test";
+import { join } from "path";
+import { mkdirSync, rmSync } from "fs";
+import {
+  resolveBackendConfig,
+  createBackend,
+  ClaudeCliBackend,
+  OpenAICompatibleBackend,
+  FixtureBackend,
+} from "./index";
+
+const TEST_DIR = join(import.meta.dir, "..", "..", ".test-backends");
+
+afterAll(() => {
+  rmSync(TEST_DIR, { recursive: true, force: true });
+});
+
+describe("resolveBackendConfig", () => {
+  test("defaults to claude", () => {
+    expect(resolveBackendConfig(undefined, {}).type).toBe("claude");
+  });
+
+  test("reads backend settings from env", () => {
+    const config = resolveBackendConfig(undefined, {
+      WDYT_BACKEND: "openai",
+      WDYT_BACKEND_URL: "http://localhost:8080/v1",
+      WDYT_MODEL: "qwen",
+    });
+
+    expect(config).toEqual({
+      type: "openai",
+      baseUrl: "http://localhost:8080/v1",
+      model: "qwen",
+      apiKey: undefined,
+      fixture: undefined,
+    });
+  });
+
+  test("payload overrides env", () => {
+    const config = resolveBackendConfig(
+      { type: "openai", model: "llama" },
+      { WDYT_BACKEND: "claude", WDYT_MODEL: "sonnet", WDYT_BACKEND_URL: "http://x/v1" },
+    );
+
+    expect(config.type).toBe("openai");
+    expect(config.model).toBe("llama");
+    expect(config.baseUrl).toBe("http://x/v1");
+  });
+
+  test("project config sits between the payload and env", () => {
+    const env = { WDYT_BACKEND: "claude", WDYT_MODEL: "sonnet", WDYT_API_KEY: "sk-env" };
+    const fromConfig = { type: "openai" as const, baseUrl: "http://config/v1" };
+
+    expect(resolveBackendConfig(undefined, env, fromConfig)).toMatchObject({
+      type: "openai",
+      baseUrl: "http://config/v1",
+      model: "sonnet",
+      apiKey: "sk-env",
+    });
+    expect(resolveBackendConfig("fixture", env, fromConfig).type).toBe("fixture");
+  });
+
+  test("accepts a backend name string", () => {
+    expect(resolveBackendConfig("fixture", {}).type).toBe("fixture");
+  });
+
+  test("rejects unknown backends", () => {
+    expect(() => resolveBackendConfig("gemini", {})).toThrow("Unknown backend: gemini");
+  });
+
+  test("rejects fixture paths outside the allowed directories", () => {
+    expect(() => resolveBackendConfig({ type: "fixture", fixture: "/etc/passwd" }, {})).toThrow(
+      "Path not allowed: /etc/passwd"
+    );
+    expect(resolveBackendConfig({ type: "fixture", fixture: "/tmp/review.md" }, {}).fixture).toBe("/tmp/review.md");
+  });
+});
+
+describe("createBackend", () => {
+  test("creates each backend type", () => {
+    expect(createBackend({ type: "claude" })).toBeInstanceOf(ClaudeCliBackend);
+    expect(createBackend({ type: "fixture" })).toBeInstanceOf(FixtureBackend);
+    expect(createBackend({ type: "openai", baseUrl: "http://x/v1" })).toBeInstanceOf(OpenAICompatibleBackend);
+  });
+
+  test("openai requires a base URL", () => {
+    expect(() => createBackend({ type: "openai" })).toThrow("requires a baseUrl");
+  });
+});
+
+describe("FixtureBackend", () => {
+  test("echoes deterministically with a verdict", async () => {
+    const backend = new FixtureBackend();
+    const output = await backend.run({ prompt: "Review this\nmore context" });
+
+    expect(output).toBe("Echo review (24 chars): Review this\n\n<verdict>SHIP</verdict>");
+    expect(backend.requests).toHaveLength(1);
+  });
+
+  test("returns fixture file content", async () => {
+    mkdirSync(TEST_DIR, { recursive: true });
+    const fixturePath = join(TEST_DIR, "review.md");
+    await Bun.write(fixturePath, "Looks risky\n<verdict>NEEDS_WORK</verdict>\n");
+
+    const output = await new FixtureBackend(fixturePath).run({ prompt: "x" });
+    expect(output).toBe("Looks risky\n<verdict>NEEDS_WORK</verdict>");
+  });
+
+  test("errors on missing fixture", async () => {
+    const backend = new FixtureBackend(join(TEST_DIR, "missing.md"));
+    await expect(backend.run({ prompt: "x" })).rejects.toThrow("Fixture not found");
+  });
+});
+
+describe("OpenAICompatibleBackend", () => {
+  test("posts a chat completion and returns the message content", async () => {
+    const seen: {
+      body?: { model?: string; messages?: Array<{ content: string }> };
+      auth?: string | null;
+    } = {};
+
+    const server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        seen.body = await req.json();
+        seen.auth = req.headers.get("authorization");
+        return Response.json({ choices: [{ message: { content: " ok <verdict>SHIP</verdict> " } }] });
+      },
+    });
+
+    try {
+      const backend = new OpenAICompatibleBackend(`http://localhost:${server.port}/v1/`, "secret", "local-model");
+      const output = await backend.run({ prompt: "hello" });
+
+      expect(output).toBe("ok <verdict>SHIP</verdict>");
+      expect(seen.body?.model).toBe("local-model");
+      expect(seen.body?.messages?.[0].content).toBe("hello");
+      expect(seen.auth).toBe("Bearer secret");
+    } finally {
+      server.stop(true);
+    }
+  });
+
+  test("surfaces HTTP errors", async () => {
+    const server = Bun.serve({
+      port: 0,
+      fetch() {
+        return Response.json({ error: { message: "model not loaded" } }, { status: 503 });
+      },
+    });
+
+    try {
+      const backend = new OpenAICompatibleBackend(`http://localhost:${server.port}/v1`);
+      await expect(backend.run({ prompt: "hello" })).rejects.toThrow("HTTP 503): model not loaded");
+    } finally {
+      server.stop(true);
+    }
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Review backend module
+ *
+ * Creates the backend a review runs against. Selection order (per field):
+ * 1. `backend` field in the chat_send payload (name or full config)
+ * 2. `backend` in the project config (name, or type/model/baseUrl)
+ * 3. WDYT_BACKEND / WDYT_BACKEND_URL / WDYT_MODEL / WDYT_API_KEY env vars
+ * 4. Claude CLI (default)
+ *
+ * API keys only come from the payload or the environment, so they stay
+ * out of committed config files. A payload fixture path must be within the
+ * home directory, current directory or /tmp, like other payload paths.
+ */
+
+import { ClaudeCliBackend } from "./claude";
+import { OpenAICompatibleBackend } from "./openai";
+import { FixtureBackend } from "./fixture";
+import type { BackendConfig, BackendType, ReviewBackend } from "./types";
+import { isPathSafe } from "../commands/prompt";
+
+export { ClaudeCliBackend } from "./claude";
+export { OpenAICompatibleBackend } from "./openai";
+export { FixtureBackend } from "./fixture";
+export type { BackendConfig, BackendType, ReviewBackend, ReviewRequest } from "./types";
+
+/** Known backend names (for validation) */
+export const BACKEND_TYPES: readonly BackendType[] = ["claude", "openai", "fixture"];
+
+/**
+ * Parse a backend type name
+ * @throws Error if the name is not a known backend
+ */
+function parseBackendType(value: string): BackendType {
+  const type = value.trim().toLowerCase();
+  if (!BACKEND_TYPES.includes(type as BackendType)) {
+    throw new Error(`Unknown backend: ${value}. Valid backends: ${BACKEND_TYPES.join(", ")}`);
+  }
+  return type as BackendType;
+}
+
+/**
+ * Resolve backend config from a payload value, the project config and
+ * the environment
+ *
+ * @param value - Payload `backend` field (name string or config object)
+ * @param env - Environment variables (defaults to process.env)
+ * @param fromConfig - `backend` from the project config
+ * @returns Resolved backend config
+ * @throws Error if the backend name is unknown or the fixture path isn't allowed
+ */
+export function resolveBackendConfig(
+  value?: string | Partial<BackendConfig>,
+  env: Record<string, string | undefined> = process.env,
+  fromConfig: Partial<BackendConfig> = {},
+): BackendConfig {
+  const fromEnv: Partial<BackendConfig> = {
+    type: env.WDYT_BACKEND ? parseBackendType(env.WDYT_BACKEND) : undefined,
+    baseUrl: env.WDYT_BACKEND_URL,
+    model: env.WDYT_MODEL,
+    apiKey: env.WDYT_API_KEY || env.OPENAI_API_KEY,
+  };
+
+  const fromPayload: Partial<BackendConfig> =
+    typeof value === "string" ? { type: parseBackendType(value) } : { ...value };
+  if (fromPayload.type) {
+    fromPayload.type = parseBackendType(fromPayload.type);
+  }
+  // The fixture file is returned as the review, so it can't point anywhere
+  if (fromPayload.fixture && !isPathSafe(fromPayload.fixture)) {
+    throw new Error(
+      `Path not allowed: ${fromPayload.fixture}. Must be within home directory, current directory, or /tmp`
+    );
+  }
+
+  return {
+    type: fromPayload.type ?? fromConfig.type ?? fromEnv.type ?? "claude",
+    model: fromPayload.model ?? fromConfig.model ?? fromEnv.model,
+    baseUrl: fromPayload.baseUrl ?? fromConfig.baseUrl ?? fromEnv.baseUrl,
+    apiKey: fromPayload.apiKey ?? fromEnv.apiKey,
+    fixture: fromPayload.fixture,
+  };
+}
+
+/**
+ * Create a review backend from config
+ * @throws Error if required settings are missing
+ */
+export function createBackend(config: BackendConfig): ReviewBackend {
+  switch (config.type) {
+    case "openai":
+      if (!config.baseUrl) {
+        throw new Error("openai backend requires a baseUrl (or WDYT_BACKEND_URL)");
+      }
+      return new OpenAICompatibleBackend(config.baseUrl, config.apiKey, config.model);
+    case "fixture":
+      return new FixtureBackend(config.fixture);
+    case "claude":
+    default:
+      return new ClaudeCliBackend(config.model);
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * OpenAI-compatible HTTP backend
+ *
+ * Sends prompts to any server implementing the `/chat/completions`
+ * endpoint (OpenAI, vLLM, llama.cpp server, Ollama, LM Studio, ...).
+ * Tool use is not supported: the packed context XML carries everything
+ * the model needs, so allowedTools is ignored and reviews use prompts
+ * that don't ask for tools.
+ */
+
+import type { ReviewBackend, ReviewRequest } from "./types";
+
+/** Default model name sent when none is configured */
+const DEFAULT_MODEL = "gpt-4o-mini";
+
+/** Shape of a chat completions response (fields we use) */
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  error?: { message?: string };
+}
+
+export class OpenAICompatibleBackend implements ReviewBackend {
+  readonly name = "openai" as const;
+  readonly supportsTools = false;
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly apiKey?: string,
+    private readonly defaultModel: string = DEFAULT_MODEL,
+  ) {}
+
+  /**
+   * Available when a base URL is configured (no network probe)
+   */
+  async isAvailable(): Promise<boolean> {
+    return this.baseUrl.length > 0;
+  }
+
+  /**
+   * Run a prompt as a single user message
+   */
+  async run(request: ReviewRequest): Promise<string> {
+    const url = `${this.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: request.model || this.defaultModel,
+        messages: [{ role: "user", content: request.prompt }],
+      }),
+    });
+
+    let data: ChatCompletionResponse;
+    try {
+      data = (await response.json()) as ChatCompletionResponse;
+    } catch {
+      throw new Error(`${url} returned invalid JSON (HTTP ${response.status})`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`${url} failed (HTTP ${response.status}): ${data.error?.message || "unknown error"}`);
+    }
+
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== "string") {
+      throw new Error(`${url} returned no completion content`);
+    }
+
+    return content.trim();
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Types for review backends
+ *
+ * A review backend turns a fully built prompt into model output.
+ * The review handlers (agentic, multi-pass, exploration) only talk to
+ * this interface, so the model provider can be swapped per review.
+ */
+
+/** Known backend implementations */
+export type BackendType = "claude" | "openai" | "fixture";
+
+/** A single prompt to run against a backend */
+export interface ReviewRequest {
+  /** Full prompt text (instructions + context) */
+  prompt: string;
+  /** Working directory for agentic runs (tool access is rooted here) */
+  cwd?: string;
+  /** Model override (backend-specific name) */
+  model?: string;
+  /**
+   * Tools the model may use. Undefined means a plain completion;
+   * backends without tool support (see ReviewBackend.supportsTools)
+   * ignore this.
+   */
+  allowedTools?: string[];
+}
+
+/** Backend selection and connection settings */
+export interface BackendConfig {
+  type: BackendType;
+  /** Default model when a request doesn't specify one */
+  model?: string;
+  /** Base URL for HTTP backends (e.g. http://localhost:8080/v1) */
+  baseUrl?: string;
+  /** API key for HTTP backends */
+  apiKey?: string;
+  /** Path to a fixture file whose content is returned (fixture backend) */
+  fixture?: string;
+}
+
+/** A model provider that can run review prompts */
+export interface ReviewBackend {
+  /** Backend name for logging and responses */
+  readonly name: BackendType;
+  /** Whether the model can use tools (allowedTools), e.g. to load skills via wdyt */
+  readonly supportsTools: boolean;
+  /** Check whether the backend can be used (non-throwing) */
+  isAvailable(): Promise<boolean>;
+  /** Run a prompt and return the raw model output */
+  run(request: ReviewRequest): Promise<string>;
+}
@@ -7,25 +7,46 @@
  *
  * Commands:
  * - windows: list windows
+ * - window create/roots/delete: manage windows and their root folders
  * - builder: create tabs
+ * - tab list/show/delete: manage tabs
  * - prompt get/set/export: manage prompts
- * - select get/add: track file selection
+ * - select get/add/remove/clear/set/diff: track file selection
  * - chat_send: export context for review
+ * - reviews list/show: browse recorded reviews
+ * - findings export: export review findings as SARIF
+ * - config get: show the effective project config
  */
 
 import { defineCommand, runMain } from "citty";
 import type { CLIFlags } from "./types";
 import pkg from "../package.json";
-import { windowsCommand } from "./commands/windows";
+import {
+  windowsCommand,
+  windowCreateCommand,
+  windowRootsCommand,
+  windowDeleteCommand,
+} from "./commands/windows";
+import { tabListCommand, tabShowCommand, tabDeleteCommand } from "./commands/tabs";
 import { builderCommand } from "./commands/builder";
 import {
   promptGetCommand,
   promptSetCommand,
   promptExportCommand,
 } from "./commands/prompt";
-import { selectGetCommand, selectAddCommand } from "./commands/select";
+import {
+  selectGetCommand,
+  selectAddCommand,
+  selectRemoveCommand,
+  selectClearCommand,
+  selectSetCommand,
+  selectDiffCommand,
+} from "./commands/select";
 import { chatSendCommand } from "./commands/chat";
 import { skillGetCommand, skillListCommand } from "./commands/skill";
+import { reviewsListCommand, reviewsShowCommand } from "./commands/reviews";
+import { findingsExportCommand } from "./commands/findings";
+import { configGetCommand } from "./commands/config";
 import { parseExpression } from "./parseExpression";
 import { TldrClient } from "./tldr";
 
@@ -46,6 +67,28 @@ async function executeExpression(
     case "windows":
       return await windowsCommand();
 
+    case "window": {
+      const subcommand = parsed.subcommand;
+
+      if (subcommand === "create") {
+        return await windowCreateCommand(parsed.positional);
+      }
+
+      if (!flags.window) {
+        return { success: false, error: "window roots/delete require -w <window>" };
+      }
+
+      if (subcommand === "roots") {
+        return await windowRootsCommand(flags.window, parsed.positional[0], parsed.positional.slice(1));
+      }
+
+      if (subcommand === "delete") {
+        return await windowDeleteCommand(flags.window);
+      }
+
+      return { success: false, error: `Unknown window subcommand: ${subcommand}` };
+    }
+
     case "builder": {
       if (!flags.window) {
         return { success: false, error: "builder requires -w <window>" };
@@ -55,6 +98,31 @@ async function executeExpression(
       return await builderCommand(flags.window, summary, parsed.flags);
     }
 
+    case "tab": {
+      if (!flags.window) {
+        return { success: false, error: "tab commands require -w <window>" };
+      }
+
+      const subcommand = parsed.subcommand || "list";
+
+      if (subcommand === "list") {
+        return await tabListCommand(flags.window);
+      }
+
+      // The tab comes from -t, or from the first positional
+      const tabId = flags.tab || parsed.positional[0];
+      if (subcommand === "show" || subcommand === "delete") {
+        if (!tabId) {
+          return { success: false, error: `tab ${subcommand} requires -t <tab> or a tab id` };
+        }
+        return subcommand === "show"
+          ? await tabShowCommand(flags.window, tabId)
+          : await tabDeleteCommand(flags.window, tabId);
+      }
+
+      return { success: false, error: `Unknown tab subcommand: ${subcommand}` };
+    }
+
     case "prompt": {
       if (!flags.window || !flags.tab) {
         return {
@@ -103,6 +171,37 @@ async function executeExpression(
         return await selectAddCommand(flags.window, flags.tab, paths);
       }
 
+      if (subcommand === "remove") {
+        const paths = parsed.positional.join(" ");
+        if (!paths) {
+          return { success: false, error: "select remove requires file paths" };
+        }
+        return await selectRemoveCommand(flags.window, flags.tab, paths);
+      }
+
+      if (subcommand === "clear") {
+        return await selectClearCommand(flags.window, flags.tab);
+      }
+
+      if (subcommand === "set") {
+        const paths = parsed.positional.join(" ");
+        if (!paths) {
+          return { success: false, error: "select set requires file paths" };
+        }
+        return await selectSetCommand(flags.window, flags.tab, paths);
+      }
+
+      if (subcommand === "diff") {
+        if (parsed.flags.staged && parsed.flags.worktree) {
+          return { success: false, error: "select diff takes either --staged or --worktree, not both" };
+        }
+        return await selectDiffCommand(flags.window, flags.tab, {
+          base: parsed.positional[0],
+          mode: parsed.flags.staged ? "staged" : parsed.flags.worktree ? "worktree" : "range",
+          callers: Boolean(parsed.flags.callers),
+        });
+      }
+
       return { success: false, error: `Unknown select subcommand: ${subcommand}` };
     }
 
@@ -154,6 +253,53 @@ async function executeExpression(
       return { success: false, error: `Unknown call: ${callTarget}` };
     }
 
+    case "reviews": {
+      const subcommand = parsed.subcommand || "list";
+
+      if (subcommand === "list") {
+        return await reviewsListCommand();
+      }
+
+      if (subcommand === "show") {
+        const chatId = parsed.positional[0];
+        if (!chatId) {
+          return { success: false, error: "reviews show requires a chat id" };
+        }
+        return await reviewsShowCommand(chatId);
+      }
+
+      return { success: false, error: `Unknown reviews subcommand: ${subcommand}` };
+    }
+
+    case "findings": {
+      if (!flags.window) {
+        return { success: false, error: "findings commands require -w <window>" };
+      }
+
+      const subcommand = parsed.subcommand || "export";
+
+      if (subcommand === "export") {
+        const chatId = parsed.flags["chat-id"] as string | undefined;
+        return await findingsExportCommand(flags.window, parsed.positional[0], chatId);
+      }
+
+      return { success: false, error: `Unknown findings subcommand: ${subcommand}` };
+    }
+
+    case "config": {
+      if (!flags.window) {
+        return { success: false, error: "config commands require -w <window>" };
+      }
+
+      const subcommand = parsed.subcommand || "get";
+
+      if (subcommand === "get") {
+        return await configGetCommand(flags.window, parsed.positional[0]);
+      }
+
+      return { success: false, error: `Unknown config subcommand: ${subcommand}` };
+    }
+
     case "tldr": {
       const subcommand = parsed.subcommand || parsed.positional[0];
       const tldr = new TldrClient();
@@ -383,12 +529,26 @@ const main = defineCommand({
         console.log("");
         console.log("Expressions:");
         console.log("  windows                    List all windows");
-        console.log('  builder {"summary":"..."}  Create a new tab');
+        console.log("  window create <paths...>   Create a window with root folders");
+        console.log("  window roots [add|remove]  Show or change the window's root folders");
+        console.log("  window delete              Delete the window and its tabs");
+        console.log('  builder {"summary":"..."}  Create a new tab (suggests files for the summary)');
+        console.log("  tab list                   List the window's tabs");
+        console.log("  tab show [tab-id]          Show a tab's defaults, prompt and selection");
+        console.log("  tab delete [tab-id]        Delete a tab");
         console.log("  prompt get                 Get current prompt");
         console.log("  prompt export <file>       Export prompt to file");
         console.log("  select get                 Get selected files");
-        console.log('  select add "path"          Add file to selection');
+        console.log('  select add "path"          Add files, folders or globs to selection');
+        console.log('  select remove "path"       Remove files, folders or globs');
+        console.log("  select clear               Clear the selection");
+        console.log('  select set "path"          Replace the selection');
+        console.log("  select diff [base]         Select files changed vs base");
         console.log("  call chat_send {...}       Export context for review");
+        console.log("  reviews list               List recorded reviews");
+        console.log("  reviews show <chat-id>     Show a recorded review");
+        console.log("  findings export [file]     Export review findings as SARIF");
+        console.log("  config get [key]           Show the effective project config");
         console.log("  tldr warm                  Index project for llm-tldr");
         console.log("  tldr status                Show llm-tldr status");
         console.log("");
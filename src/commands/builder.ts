@@ -4,15 +4,40 @@
  * Returns: Tab: <uuid>
  * Compatible with flowctl.py parsing at line 255-259:
  *   match = re.search(r"Tab:\s*([A-Za-z0-9-]+)", output)
+ *
+ * The summary is plain text or a JSON object:
+ *   builder "Review auth" --response-type review --base-branch main --task-id fn-1.2
+ *   builder {"summary":"Review auth","response_type":"review","base_branch":"main","task_id":"fn-1.2"}
+ * They're stored on the tab as defaults for chat_send. The summary also
+ * seeds the tab's prompt and, in roots tldr has already indexed, is used
+ * as a semantic search query to suggest files to select:
+ *
+ *   Tab: <uuid>
+ *
+ *   Suggested files:
+ *     /repo/src/auth.ts
+ *
+ * The response type (review, plan or chat) picks the skill chat_send uses.
  */
 
+import { resolve } from "path";
 import { createTab, getWindow } from "../state";
+import type { TabMetadata } from "../types";
+import { loadConfig } from "../config";
+import { loadIgnoreMatcher } from "../context/ignore";
+import { TldrClient } from "../tldr";
+import { RESPONSE_TYPES, parseReviewType, type ResponseType } from "../context/strategy";
+
+/** Most files suggested from the summary */
+const MAX_SUGGESTED_FILES = 10;
 
 /**
  * Builder command response
  */
 export interface BuilderResponse {
   tabId: string;
+  /** Files matching the summary (absolute paths, best match first) */
+  suggestedFiles?: string[];
 }
 
 /**
@@ -20,22 +45,116 @@ export interface BuilderResponse {
  */
 export interface BuilderFlags {
   "response-type"?: string;
+  "base-branch"?: string;
+  "task-id"?: string;
   [key: string]: string | boolean | undefined;
 }
 
+/**
+ * Check a response type before it's stored on the tab
+ *
+ * Review types (security, audit, …) are accepted as well: they're
+ * answered as reviews and become chat_send's default review_type.
+ *
+ * @throws Error listing the valid values
+ */
+function validateResponseType(value?: string): string | undefined {
+  if (
+    value === undefined ||
+    RESPONSE_TYPES.includes(value.toLowerCase() as ResponseType) ||
+    parseReviewType(value)
+  ) {
+    return value;
+  }
+  throw new Error(
+    `Unknown response type: ${value}. Valid response types: ${RESPONSE_TYPES.join(", ")} ` +
+      `(or a review type: implementation, security, audit)`
+  );
+}
+
+/**
+ * Read tab metadata from the builder summary and flags
+ *
+ * A JSON summary's fields are used as given; flags win over them.
+ * Summaries that aren't valid JSON objects are taken as plain text.
+ *
+ * @throws Error if the response type isn't one chat_send knows
+ */
+function parseBuilderMetadata(summary?: string, flags: BuilderFlags = {}): TabMetadata {
+  let fields: Record<string, unknown> = {};
+  if (summary?.trim().startsWith("{")) {
+    try {
+      fields = JSON.parse(summary) as Record<string, unknown>;
+    } catch {
+      fields = { summary };
+    }
+  } else if (summary) {
+    fields = { summary };
+  }
+
+  const text = (value: unknown): string | undefined =>
+    typeof value === "string" && value ? value : undefined;
+
+  return {
+    summary: text(fields.summary),
+    responseType: validateResponseType(text(flags["response-type"]) ?? text(fields.response_type)),
+    baseBranch: text(flags["base-branch"]) ?? text(fields.base_branch),
+    taskId: text(flags["task-id"]) ?? text(fields.task_id),
+  };
+}
+
+/**
+ * Suggest files for a summary with tldr semantic search
+ *
+ * Only roots that are already indexed are searched (indexing can take
+ * minutes), and ignored files are left out. Search failures are skipped,
+ * so this returns [] when tldr isn't available.
+ *
+ * @param query - Search query (the builder summary)
+ * @param rootPaths - Window roots
+ * @param tldr - TldrClient instance
+ * @returns Absolute paths of the best matching files
+ */
+async function suggestFiles(query: string, rootPaths: string[], tldr: TldrClient): Promise<string[]> {
+  const scores = new Map<string, number>();
+
+  for (const rootPath of rootPaths) {
+    try {
+      if (!(await tldr.isWarmed(rootPath))) continue;
+
+      const config = await loadConfig(rootPath);
+      const ignore = await loadIgnoreMatcher(rootPath, config.ignore);
+      for (const result of await tldr.semantic(query, rootPath)) {
+        const path = resolve(rootPath, result.file);
+        if (ignore.ignores(path)) continue;
+        scores.set(path, Math.max(scores.get(path) ?? -Infinity, result.score));
+      }
+    } catch {
+      // No suggestions from this root
+    }
+  }
+
+  return [...scores.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_SUGGESTED_FILES)
+    .map(([path]) => path);
+}
+
 /**
  * Execute the builder command
  * Creates a new tab in the specified window
  *
  * @param windowId - The window ID to create the tab in
- * @param summary - Optional summary/description for the tab
- * @param flags - Optional flags (e.g., --response-type)
- * @returns Tab: <uuid> on success
+ * @param summary - Optional summary/description for the tab (text or JSON)
+ * @param flags - Optional flags (--response-type, --base-branch, --task-id)
+ * @param injectedTldr - TldrClient for file suggestions (for testing)
+ * @returns Tab: <uuid> on success, followed by any suggested files
  */
 export async function builderCommand(
   windowId: number,
   summary?: string,
-  flags?: BuilderFlags
+  flags?: BuilderFlags,
+  injectedTldr?: TldrClient
 ): Promise<{
   success: boolean;
   data?: BuilderResponse;
@@ -44,20 +163,31 @@ export async function builderCommand(
 }> {
   try {
     // Verify window exists
-    await getWindow(windowId);
+    const window = await getWindow(windowId);
 
-    // Create the tab
-    const tab = await createTab(windowId);
+    // Create the tab, keeping the summary and flags as chat_send defaults.
+    // The summary is the prompt until `prompt set` replaces it.
+    const metadata = parseBuilderMetadata(summary, flags);
+    const tab = await createTab(windowId, { ...metadata, prompt: metadata.summary });
 
-    // Note: summary and flags like --response-type are accepted but
-    // not used in this minimal implementation. The real RepoPrompt
-    // uses them for its GUI features.
+    const suggestedFiles = metadata.summary
+      ? await suggestFiles(
+          metadata.summary,
+          window.rootFolderPaths.length > 0 ? window.rootFolderPaths : [process.cwd()],
+          injectedTldr || new TldrClient(),
+        )
+      : [];
 
     // Return in the format flowctl.py expects: Tab: <uuid>
+    const lines = [`Tab: ${tab.id}`];
+    if (suggestedFiles.length > 0) {
+      lines.push("", "Suggested files:", ...suggestedFiles.map((f) => `  ${f}`));
+    }
+
     return {
       success: true,
-      data: { tabId: tab.id },
-      output: `Tab: ${tab.id}`,
+      data: { tabId: tab.id, suggestedFiles },
+      output: lines.join("\n"),
     };
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
@@ -10,25 +10,81 @@
  *
  * Payload structure:
  * {
- *   "message": string,      // The prompt/message
+ *   "message": string,      // The prompt/message (default: the tab's prompt, then its builder summary)
  *   "mode": string,         // Mode (e.g., "review")
- *   "new_chat"?: boolean,   // Start new chat
+ *   "new_chat"?: boolean,   // Start new chat (false: continue the tab's last chat)
  *   "chat_name"?: string,   // Optional name
- *   "selected_paths"?: string[] // Files to include
+ *   "selected_paths"?: string[], // Files, folders or globs to include
+ *   "sarif"?: boolean | string, // Include findings as SARIF (or write to file)
+ *   "max_tokens"?: number,      // Context token budget (overrides profile)
+ *   "profile"?: string,         // Context profile from .wdyt.json
+ *   "diff"?: "range" | "staged" | "worktree", // Changes to review
+ *   "base"?: string,            // Base ref for diff (default: base_branch or the default branch; HEAD for staged/worktree)
+ *   "head"?: string,            // Head ref for range diffs (default: HEAD)
+ *   "diff_format"?: "unified" | "hunks", // One diff block, or per-file hunks with enclosing symbols
+ *   "task_id"?: string,         // Flow-Next task/epic whose spec is included (default: the tab's, else inferred from branch/commits)
+ *   "expand"?: boolean          // Add unselected callers/callees of the change (default: config expand.enabled)
  * }
+ *
+ * base_branch, task_id and review_type default to what `builder` stored
+ * on the tab. The tab's response type picks the prompt: "review" (the
+ * default) uses the router skill, "plan" the review-plan skill and "chat"
+ * the chat skill; plans and chats are single-pass, and chats get no
+ * verdict or spec compliance pass.
  */
 
 import { mkdirSync } from "fs";
-import { join } from "path";
+import { join, resolve } from "path";
 import { homedir } from "os";
-import { $ } from "bun";
-import { getTab, getWindow } from "../state";
+import { getTab, getWindow, updateTab } from "../state";
+import type { Tab } from "../types";
 import { processReReview, recordReview } from "../context/rereview";
 import {
   buildOptimizedContext,
   formatContextPlanSummary,
+  selectStrategy,
+  getGitDiffStats,
+  getAverageComplexity,
+  parseReviewType,
+  parseResponseType,
+  parseFindings,
+  formatStrategy,
+  runMultiPassReview,
+  runExplorationReview,
+  DEFAULT_MULTIPASS_CONFIG,
+  findingsToSarif,
+  loadIgnoreMatcher,
+  FINDING_FORMAT_INSTRUCTIONS,
+  ContextRoots,
+  DIFF_FORMATS,
+  type DiffFormat,
+  type MultiPassConfig,
+  type ReviewStrategy,
+  type ResponseType,
+  type Finding,
+  type SarifLog,
 } from "../context";
+import { isPathSafe } from "./prompt";
+import { getEmbeddedSkill } from "./skill";
+import { loadConfig, resolveContextProfile, DEFAULT_ROUTER_SKILL } from "../config";
 import { TldrClient } from "../tldr";
+import { GitService, DIFF_MODES, type DiffMode, type DiffSource } from "../git";
+import { expandSelection } from "../selection";
+import {
+  extractTaskIdFromPayload,
+  findTaskIds,
+  loadReviewSpecs,
+  parseSpecChecklist,
+  runComplianceReview,
+  formatCompliance,
+  type ComplianceResult,
+} from "../flow";
+import {
+  createBackend,
+  resolveBackendConfig,
+  type BackendConfig,
+  type ReviewBackend,
+} from "../backends";
 
 /**
  * Chat send payload structure (from flowctl.py build_chat_payload)
@@ -41,7 +97,17 @@ export interface ChatSendPayload {
   chat_id?: string; // Continue specific chat by ID (for re-reviews)
   selected_paths?: string[];
   base_branch?: string; // Base branch for changed files detection
-  review_type?: string; // Type of review for preamble (e.g., "implementation", "plan")
+  review_type?: string; // Type of review for preamble and strategy (e.g., "implementation", "security", "audit")
+  backend?: string | Partial<BackendConfig>; // Review backend ("claude", "openai", "fixture" or full config)
+  sarif?: boolean | string; // true: include SARIF log in response; string: also write it to this file
+  max_tokens?: number; // Context token budget (overrides the profile's maxTokens)
+  profile?: string; // Context profile name (built-in: default, small, large; more in project config)
+  diff?: DiffMode; // Changes to review: committed range, staged changes or the working tree
+  base?: string; // Base ref for diff (overrides base_branch)
+  head?: string; // Head ref for range diffs
+  diff_format?: DiffFormat; // "unified" diff block or per-file "hunks" with enclosing symbols (default: config diffFormat, else unified)
+  task_id?: string; // Flow-Next task or epic ID (default: inferred from the branch name or commit messages)
+  expand?: boolean; // Add unselected callers/callees as code maps or snippets (default: config expand.enabled)
 }
 
 /**
@@ -59,6 +125,22 @@ export interface ChatSendResponse {
   verdict?: Verdict;
   isReReview?: boolean;
   changedFiles?: string[];
+  /** Structured findings from the review (empty for context-only exports) */
+  findings: Finding[];
+  /** Findings as a SARIF 2.1.0 log (when requested via payload.sarif) */
+  sarif?: SarifLog;
+  /** File the SARIF log was written to (when payload.sarif is a path) */
+  sarifPath?: string;
+  /** Commit of the previous review that this re-review was diffed against */
+  baseCommit?: string;
+  /** Changes the review was diffed against */
+  diff?: DiffSource;
+  /** Flow-Next task (or epic) whose spec was included */
+  taskId?: string;
+  /** Spec checklist status from the compliance pass (when the spec has one) */
+  compliance?: ComplianceResult[];
+  /** What the response is (from the tab's response type) */
+  responseType?: ResponseType;
   /** Selected review strategy */
   strategy?: {
     type: string;
@@ -68,8 +150,17 @@ export interface ChatSendResponse {
   contextPlan?: {
     fullFiles: number;
     codeMappedFiles: number;
+    /** Per-file diffs included (hunk diff format only) */
+    fileDiffs?: number;
+    /** Context hints included */
+    hints?: number;
+    /** Unselected files added by impact expansion (when enabled) */
+    expandedFiles?: number;
     excludedFiles: number;
+    ignoredFiles: number;
     totalTokens: number;
+    maxTokens: number;
+    profile: string;
   };
 }
 
@@ -91,18 +182,6 @@ function generateUUID(): string {
   return crypto.randomUUID();
 }
 
-/**
- * Check if claude CLI is available
- */
-async function claudeCliAvailable(): Promise<boolean> {
-  try {
-    await $`which claude`.quiet();
-    return true;
-  } catch {
-    return false;
-  }
-}
-
 /**
  * Embedded quality-auditor skill (fallback when file not found)
  * This is used when running as a compiled binary
@@ -188,51 +267,11 @@ const EMBEDDED_QUALITY_AUDITOR = `You are a pragmatic code auditor. Your job is
 - Acknowledge what's done well
 - If no issues found, say so clearly`;
 
-/**
- * Embedded router prompt - teaches Claude to load skills via wdyt CLI
- */
-const EMBEDDED_ROUTER = `You are an expert code reviewer. First, analyze the context to decide the best review approach.
-
-## Step 1: Analyze What You've Been Given
-
-Look at the context provided:
-- How many files?
-- How many lines changed?
-- What kind of change? (bug fix, feature, refactor, security-related)
-- Is there a clear spec or requirements?
-
-## Step 2: Choose and Load Your Skill
-
-Based on your analysis, choose ONE approach and load its instructions:
-
-### Quick Review
-**When:** 1-3 files, <500 lines, clear purpose, bug fix or small feature
-**Load:** Run \`wdyt -e 'skill get review-quick'\`
-
-### Thorough Review
-**When:** 4-10 files, significant changes, needs careful analysis
-**Load:** Run \`wdyt -e 'skill get review-thorough'\`
-
-### Security Review
-**When:** Code touches auth, crypto, user input, sensitive data, or APIs
-**Load:** Run \`wdyt -e 'skill get review-security'\`
-
-### Exploration Review
-**When:** No specific files given, asked to "audit" or "explore"
-**Load:** Run \`wdyt -e 'skill get review-exploration'\`
-
-## Step 3: Execute
-
-1. State which approach you're using and why (1 sentence)
-2. Run the wdyt command to load the skill instructions
-3. Follow those instructions exactly
-
-## Output
-
-Always end with:
-\`\`\`
-<verdict>SHIP|NEEDS_WORK|MAJOR_RETHINK</verdict>
-\`\`\``;
+/** Skill used instead of the router for plan and chat responses */
+const RESPONSE_TYPE_SKILLS: Record<Exclude<ResponseType, "review">, string> = {
+  plan: "review-plan",
+  chat: "chat",
+};
 
 /**
  * Get the skills directory path (bundled with the package)
@@ -246,10 +285,15 @@ function getSkillsDir(): string {
 /**
  * Load a skill prompt from a .md file
  * Falls back to embedded prompt when running as compiled binary
+ *
+ * A skill name ending in .md is a project-local skill file, resolved
+ * against rootPath.
  */
-async function loadSkillPrompt(skillName: string): Promise<string> {
+async function loadSkillPrompt(skillName: string, rootPath?: string): Promise<string> {
   // Try to load from file first
-  const skillPath = join(getSkillsDir(), `${skillName}.md`);
+  const skillPath = skillName.endsWith(".md")
+    ? resolve(rootPath || process.cwd(), skillName)
+    : join(getSkillsDir(), `${skillName}.md`);
   const file = Bun.file(skillPath);
 
   if (await file.exists()) {
@@ -266,8 +310,9 @@ async function loadSkillPrompt(skillName: string): Promise<string> {
   if (skillName === "quality-auditor") {
     return EMBEDDED_QUALITY_AUDITOR;
   }
-  if (skillName === "review-router") {
-    return EMBEDDED_ROUTER;
+  const embedded = getEmbeddedSkill(skillName);
+  if (embedded) {
+    return embedded;
   }
 
   throw new Error(`Skill not found: ${skillName}`);
@@ -289,19 +334,26 @@ function parseVerdict(response: string): Verdict | undefined {
   return undefined;
 }
 
+/** Tools the agentic reviewer may use (Read/Bash let it load skills via wdyt) */
+const AGENTIC_TOOLS = ["Read", "Glob", "Grep", "Bash"];
+
 /**
- * Run an agentic review using Claude CLI
- * Uses the router prompt to let Claude decide the review strategy
- * Claude loads skills via `wdyt -e 'skill get <name>'` command
+ * Run an agentic review on the selected backend
+ * Uses the router prompt to let the model decide the review strategy
+ * The model loads skills via `wdyt -e 'skill get <name>'` command
  *
+ * @param backend - Review backend to run on
  * @param contextXml - The packed context XML
  * @param userPrompt - User's review request
  * @param rootPath - Root path of the project (for tool access)
  */
-async function runAgenticReview(contextXml: string, userPrompt: string, rootPath: string): Promise<string> {
-  // Load the router prompt (teaches Claude to load skills via wdyt CLI)
-  const routerPrompt = await loadSkillPrompt("review-router");
-
+async function runAgenticReview(
+  backend: ReviewBackend,
+  contextXml: string,
+  userPrompt: string,
+  rootPath: string,
+  routerPrompt: string,
+): Promise<string> {
   // Build the full prompt with router + user request + context
   const fullPrompt = `${routerPrompt}
 
@@ -313,29 +365,106 @@ ${userPrompt}
 
 ${contextXml}`;
 
-  // Write prompt to temp file to avoid shell escaping issues
-  const tempPromptPath = join(getChatsDir(), `prompt-${Date.now()}.txt`);
-  await Bun.write(tempPromptPath, fullPrompt);
-
   try {
-    // Run claude CLI in AGENTIC mode (no -p flag) with tool access
-    // Allow Read tool so Claude can load skill files
-    const allowedTools = "Read,Glob,Grep,Bash";
-    const result = await $`cd ${rootPath} && cat ${tempPromptPath} | claude --no-session-persistence --allowedTools ${allowedTools}`.text();
+    return await backend.run({
+      prompt: fullPrompt,
+      cwd: rootPath,
+      allowedTools: AGENTIC_TOOLS,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`${backend.name} review failed: ${message}`);
+  }
+}
 
-    // Clean up temp file
-    await $`rm ${tempPromptPath}`.quiet();
+/**
+ * Load a review skill as a self-contained prompt, for backends that
+ * can't run `wdyt -e 'skill get …'` themselves
+ *
+ * @param skillName - Review skill the router would have loaded
+ */
+async function loadToollessReviewPrompt(skillName: string): Promise<string> {
+  const skill = await loadSkillPrompt(skillName);
+  return `${skill}
 
-    return result.trim();
-  } catch (error) {
-    // Clean up temp file on error too
-    await $`rm ${tempPromptPath}`.quiet();
+## Findings
 
-    const message = error instanceof Error ? error.message : String(error);
-    throw new Error(`Claude CLI review failed: ${message}`);
+After your review, also list every issue as a structured finding.
+${FINDING_FORMAT_INSTRUCTIONS}`;
+}
+
+/**
+ * Replace strategies that need tools (exploration) with a single pass
+ * over the packed context when the backend can't use tools
+ */
+function fitStrategyToBackend(strategy: ReviewStrategy, backend: ReviewBackend): ReviewStrategy {
+  if (!strategy.config.useTools || backend.supportsTools) {
+    return strategy;
   }
+  return {
+    type: "single-pass",
+    reason: `${strategy.reason}, but the ${backend.name} backend can't use tools`,
+    config: { ...strategy.config, useTools: false },
+  };
 }
 
+/**
+ * Run the review handler for the selected strategy
+ *
+ * - single-pass: agentic router review (Claude picks a skill), or the
+ *   response type's skill for plans and chats
+ * - multi-pass: parallel focused agents with confidence scoring
+ * - exploration: agentic codebase exploration from the root path
+ */
+async function runStrategyReview(
+  backend: ReviewBackend,
+  strategy: ReviewStrategy,
+  contextXml: string,
+  userPrompt: string,
+  options: {
+    rootPath: string;
+    baseBranch?: string;
+    /** Router (or response type skill) prompt for single-pass reviews */
+    routerPrompt: string;
+    /** Project overrides applied over the strategy's multi-pass settings */
+    multipass?: Partial<MultiPassConfig>;
+  },
+): Promise<{ review: string; verdict?: Verdict; findings: Finding[] }> {
+  const { rootPath, baseBranch } = options;
+
+  switch (strategy.type) {
+    case "multi-pass": {
+      const result = await runMultiPassReview(contextXml, {
+        ...DEFAULT_MULTIPASS_CONFIG,
+        parallelAgents: strategy.config.parallelAgents ?? DEFAULT_MULTIPASS_CONFIG.parallelAgents,
+        focuses: strategy.config.focuses ?? DEFAULT_MULTIPASS_CONFIG.focuses,
+        confidenceThreshold: strategy.config.confidenceThreshold ?? DEFAULT_MULTIPASS_CONFIG.confidenceThreshold,
+        ...options.multipass,
+      }, backend);
+      return { review: result.rawOutput, verdict: result.verdict, findings: result.findings };
+    }
+
+    case "exploration": {
+      const result = await runExplorationReview({
+        rootPath,
+        baseBranch,
+        maxIterations: strategy.config.maxIterations ?? 50,
+        focus: strategy.config.focuses?.includes("security") ? "security" : "general",
+      }, backend);
+      return { review: result.review, verdict: result.verdict, findings: result.findings };
+    }
+
+    case "single-pass":
+    default: {
+      const response = await runAgenticReview(backend, contextXml, userPrompt, rootPath, options.routerPrompt);
+      return {
+        review: response,
+        verdict: parseVerdict(response),
+        findings: parseFindings(response, "general"),
+      };
+    }
+  }
+}
 
 /**
  * Read file content safely using Bun's file API
@@ -354,6 +483,125 @@ async function readFileSafe(path: string): Promise<{ success: boolean; content?:
   }
 }
 
+/**
+ * Build the SARIF log requested by a chat_send payload
+ *
+ * @param option - payload.sarif (true, a file path, or unset)
+ * @param findings - Findings from the review
+ * @param roots - Window roots that SARIF locations are relative to
+ * @returns Response fields to merge (empty when SARIF wasn't requested)
+ */
+async function exportSarif(
+  option: boolean | string | undefined,
+  findings: Finding[],
+  roots: ContextRoots
+): Promise<{ sarif?: SarifLog; sarifPath?: string }> {
+  if (!option) {
+    return {};
+  }
+
+  const sarif = findingsToSarif(findings, roots);
+  if (typeof option !== "string") {
+    return { sarif };
+  }
+
+  const sarifPath = resolve(option);
+  await Bun.write(sarifPath, JSON.stringify(sarif, null, 2) + "\n");
+  return { sarif, sarifPath };
+}
+
+/**
+ * List the Flow-Next task IDs a review may be for, most likely first
+ *
+ * An explicit task_id wins. Otherwise IDs are taken from the branch name,
+ * then from the commit messages of the diff (or, for staged/worktree
+ * diffs, of the branch since the default base).
+ */
+async function findTaskIdCandidates(
+  payload: ChatSendPayload,
+  git: GitService,
+  diffSource: DiffSource
+): Promise<string[]> {
+  const explicit = extractTaskIdFromPayload(payload);
+  if (explicit) {
+    return [explicit];
+  }
+
+  const range = diffSource.mode === "range" ? diffSource : await git.resolveSource({ mode: "range" });
+  const [branch, commits] = await Promise.all([git.branchName(), git.commits(range)]);
+  return [...new Set([branch, ...commits].flatMap(findTaskIds))];
+}
+
+/**
+ * Fill in payload fields the request leaves out from the tab's metadata
+ *
+ * Set by `builder`: base_branch, task_id, and review_type (from the
+ * response type, when it names a review type). new_chat: false without
+ * a chat_id continues the tab's last chat.
+ */
+function applyTabDefaults(payload: ChatSendPayload, tab: Tab): ChatSendPayload {
+  return {
+    ...payload,
+    base_branch: payload.base_branch ?? tab.baseBranch,
+    task_id: extractTaskIdFromPayload(payload) ?? tab.taskId,
+    review_type: payload.review_type ?? (parseReviewType(tab.responseType) ? tab.responseType : undefined),
+    chat_id: payload.chat_id ?? (payload.new_chat === false ? tab.lastChatId : undefined),
+  };
+}
+
+/**
+ * Diff stats and average complexity of the changes in every root
+ *
+ * Other roots review their own diff source if they have one, else the
+ * primary root's where their refs allow it (see GitService.adaptSource).
+ * Changed paths are display paths
+ * (label-prefixed with several roots).
+ */
+async function getRootsDiffStats(
+  roots: ContextRoots,
+  diffSource: DiffSource,
+  tldr: TldrClient
+): Promise<{ files: string[]; additions: number; deletions: number; avgComplexity?: number }> {
+  const files: string[] = [];
+  const complexities: number[] = [];
+  let additions = 0;
+  let deletions = 0;
+
+  for (const root of roots.roots) {
+    const source = root === roots.primary
+      ? diffSource
+      : root.diff ?? (await new GitService(root.path).adaptSource(diffSource));
+    const stats = await getGitDiffStats(source, root.path, root.ignore);
+    files.push(...stats.files.map((f) => roots.displayPathIn(root, f)));
+    additions += stats.additions;
+    deletions += stats.deletions;
+
+    const complexity = await getAverageComplexity(stats.files, tldr, root.path);
+    if (complexity !== undefined) complexities.push(complexity);
+  }
+
+  const avgComplexity = complexities.length > 0
+    ? complexities.reduce((sum, c) => sum + c, 0) / complexities.length
+    : undefined;
+  return { files, additions, deletions, avgComplexity };
+}
+
+/**
+ * HEAD commits of the roots after the primary one, for re-reviews
+ *
+ * @returns Commits by root path (undefined for single-root windows)
+ */
+async function getRootCommits(roots: ContextRoots): Promise<Record<string, string> | undefined> {
+  if (!roots.isMulti) return undefined;
+
+  const commits: Record<string, string> = {};
+  for (const root of roots.roots.slice(1)) {
+    const commit = await new GitService(root.path).headCommit();
+    if (commit) commits[root.path] = commit;
+  }
+  return commits;
+}
+
 /**
  * Chat send command
  *
@@ -377,11 +625,66 @@ export async function chatSendCommand(
 }> {
   try {
     // Parse the JSON payload
-    const payload = JSON.parse(payloadJson) as ChatSendPayload;
+    let payload = JSON.parse(payloadJson) as ChatSendPayload;
+
+    // Validate the SARIF destination before doing any work
+    if (typeof payload.sarif === "string" && !isPathSafe(payload.sarif)) {
+      return {
+        success: false,
+        error: `Path not allowed: ${payload.sarif}. Must be within home directory, current directory, or /tmp`,
+      };
+    }
 
-    // Get tab state for prompt and selected files
+    if (payload.diff !== undefined && !DIFF_MODES.includes(payload.diff)) {
+      return {
+        success: false,
+        error: `Invalid diff mode: ${payload.diff}. Expected one of: ${DIFF_MODES.join(", ")}`,
+      };
+    }
+
+    if (payload.diff_format !== undefined && !DIFF_FORMATS.includes(payload.diff_format)) {
+      return {
+        success: false,
+        error: `Invalid diff format: ${payload.diff_format}. Expected one of: ${DIFF_FORMATS.join(", ")}`,
+      };
+    }
+
+    // Get tab state for prompt, selected files and payload defaults
     const tab = await getTab(windowId, tabId);
     const window = await getWindow(windowId);
+    payload = applyTabDefaults(payload, tab);
+
+    // Resolve root paths first for git operations. Every root is reviewed;
+    // the first one is primary (config, specs and re-review state).
+    const rootPaths = window.rootFolderPaths.length > 0 ? window.rootFolderPaths : [process.cwd()];
+    const rootPath = rootPaths[0];
+
+    // Load project config (wdyt.config.ts / .wdyt.json) and resolve the
+    // context budget from max_tokens / profile
+    const config = await loadConfig(rootPath);
+    const profile = resolveContextProfile(config, payload.profile, payload.max_tokens);
+    const baseBranch = payload.base_branch || config.baseBranch;
+
+    // Explicit diff source: range defaults to the base branch, staged and
+    // worktree to HEAD (pending changes only). Without one, the working
+    // tree is reviewed against the base branch.
+    const git = new GitService(rootPath);
+    const requestedDiff = await git.resolveSource(
+      payload.diff
+        ? {
+            mode: payload.diff,
+            base: payload.base || (payload.diff === "range" ? baseBranch : undefined),
+            head: payload.head,
+          }
+        : baseBranch
+    );
+    const ignore = await loadIgnoreMatcher(rootPath, config.ignore);
+    const rootSpecs = [
+      { path: rootPath, ignore },
+      ...(await Promise.all(
+        rootPaths.slice(1).map(async (path) => ({ path, ignore: await loadIgnoreMatcher(path, config.ignore) }))
+      )),
+    ];
 
     // Check for re-review scenario
     // Re-review is detected when:
@@ -391,39 +694,49 @@ export async function chatSendCommand(
     const reReviewResult = await processReReview({
       chatId: payload.chat_id,
       isReReview: isReReviewExplicit,
-      baseBranch: payload.base_branch,
+      baseBranch,
+      diff: requestedDiff,
       reviewType: payload.review_type,
+      roots: new ContextRoots(rootSpecs),
     });
 
+    // Other roots of a re-review diff against their own previous commits
+    const roots = new ContextRoots(
+      rootSpecs.map((spec) => ({ ...spec, diff: reReviewResult.rootDiffSources?.[resolve(spec.path)] }))
+    );
+
+    // Re-reviews diff against the previous review's commit (incremental),
+    // everything else against the requested diff source. The same source
+    // drives the context diff, strategy stats and re-review.
+    const diffSource = reReviewResult.diffSource ?? requestedDiff;
+
     // Use message from payload as the prompt, or fall back to tab's prompt
     // Prepend re-review preamble if this is a re-review
-    let prompt = payload.message || tab.prompt;
+    let prompt = payload.message || tab.prompt || tab.summary || "";
     if (reReviewResult.isReReview && reReviewResult.preamble) {
       prompt = reReviewResult.preamble + prompt;
     }
 
-    // Resolve root path first for git operations
-    const rootPath = window.rootFolderPaths[0] || process.cwd();
-
-    // Create TldrClient and auto-warm (use injected for testing)
+    // Create TldrClient and auto-warm every root (use injected for testing)
     const tldr = injectedTldr || new TldrClient();
     if (!injectedTldr) {
-      try {
-        await tldr.ensureWarmed(rootPath);
-      } catch (e) {
-        console.error(`tldr warm: ${e instanceof Error ? e.message : String(e)}`);
+      for (const root of roots.roots) {
+        try {
+          await tldr.ensureWarmed(root.path);
+        } catch (e) {
+          console.error(`tldr warm (${root.label}): ${e instanceof Error ? e.message : String(e)}`);
+        }
       }
     }
 
     // Determine which files to include
-    // Use selected_paths from payload if provided, otherwise use tab's selectedFiles
-    let filePaths = payload.selected_paths || tab.selectedFiles;
-
-    // Resolve relative paths against window root (rootPath already defined above)
-    filePaths = filePaths.map((p) => {
-      if (p.startsWith("/")) return p;
-      return join(rootPath, p);
-    });
+    // Use selected_paths from payload if provided, otherwise use the tab's
+    // selection. Folders (and globs in selected_paths) are expanded now so
+    // files added since `select add` are picked up; relative paths resolve
+    // against the window root.
+    const filePaths = payload.selected_paths
+      ? await expandSelection(payload.selected_paths, [], rootPath, ignore)
+      : await expandSelection(tab.selectedFiles, tab.selectedFolders ?? [], rootPath, ignore);
 
     // Read file contents
     const files: Array<{ path: string; content: string }> = [];
@@ -436,8 +749,55 @@ export async function chatSendCommand(
       // Missing files are silently ignored to avoid polluting stderr
     }
 
-    // Load router prompt for token budget calculation (it's small)
-    const routerPrompt = await loadSkillPrompt("review-router");
+    // Task spec (plus its epic) from .flow/, for the task under review
+    const specs = await loadReviewSpecs(
+      await findTaskIdCandidates(payload, git, diffSource),
+      { cwd: rootPath }
+    );
+    const taskId = specs[0]?.taskId;
+
+    // The backend the review runs on (payload > config > env > Claude CLI)
+    const backend = createBackend(resolveBackendConfig(payload.backend, process.env, config.backend));
+
+    // Select review strategy from diff size, complexity, review type and
+    // response type.
+    // Fall back to the selection when the diff is empty (e.g. reviewing committed code).
+    const responseType = parseResponseType(tab.responseType);
+    const reviewedFiles = files
+      .map((f) => f.path)
+      .filter((p) => !roots.ignores(p));
+    const diffStats = await getRootsDiffStats(roots, diffSource, tldr);
+    const changedPaths = diffStats.files.length > 0
+      ? diffStats.files
+      : reviewedFiles.map((p) => roots.displayPath(p));
+    const avgComplexity = diffStats.files.length > 0
+      ? diffStats.avgComplexity
+      : await getAverageComplexity(reviewedFiles, tldr, rootPath);
+    const strategy = fitStrategyToBackend(selectStrategy({
+      filesChanged: changedPaths,
+      linesAdded: diffStats.additions,
+      linesRemoved: diffStats.deletions,
+      hasTaskSpec: specs.length > 0,
+      reviewType: parseReviewType(payload.review_type),
+      responseType,
+      avgComplexity,
+    }, config.strategy), backend);
+    console.error(formatStrategy(strategy));
+
+    // Load the prompt for the tab's response type: the router for reviews,
+    // a dedicated skill for plans and chats. It's counted in the token
+    // budget (it's small). The default router has the model load a skill
+    // through wdyt, so backends without tools get that skill directly.
+    let routerPrompt: string;
+    if (responseType !== "review") {
+      routerPrompt = await loadSkillPrompt(RESPONSE_TYPE_SKILLS[responseType], rootPath);
+    } else if (backend.supportsTools || config.skills.router !== DEFAULT_ROUTER_SKILL) {
+      routerPrompt = await loadSkillPrompt(config.skills.router, rootPath);
+    } else {
+      const isSmall = changedPaths.length <= config.strategy.smallChangeFiles &&
+        diffStats.additions + diffStats.deletions < config.strategy.smallChangeLines;
+      routerPrompt = await loadToollessReviewPrompt(isSmall ? "review-quick" : "review-thorough");
+    }
 
     // Build optimized context with code maps for large files
     const { xml: xmlContent, plan: contextPlan } = await buildOptimizedContext(
@@ -445,19 +805,32 @@ export async function chatSendCommand(
       prompt,
       routerPrompt,
       {
-        maxTokens: 50_000, // Safe limit (RepoPrompt uses 60k)
-        baseBranch: payload.base_branch,
+        maxTokens: profile.maxTokens,
+        budgetSplit: profile.budgetSplit,
+        rankingWeights: config.ranking,
+        diff: diffSource,
         rootPath,
+        roots,
         includeGitDiff: true,
+        diffFormat: payload.diff_format || config.diffFormat,
         tldr,
+        ignore,
+        specs,
+        hints: config.hints,
+        expand: (payload.expand ?? config.expand.enabled) ? config.expand : undefined,
       }
     );
 
     // Log context plan summary if any files were excluded or converted to code maps
-    if (contextPlan.codeMappedFiles.length > 0 || contextPlan.excludedFiles.length > 0) {
+    if (
+      contextPlan.codeMappedFiles.length > 0 ||
+      contextPlan.excludedFiles.length > 0 ||
+      contextPlan.ignoredFiles.length > 0
+    ) {
       console.error(formatContextPlanSummary(contextPlan));
     }
 
+
     // Generate chat ID
     const chatId = generateUUID();
 
@@ -469,57 +842,116 @@ export async function chatSendCommand(
     const chatPath = join(chatsDir, `${chatId}.xml`);
     await Bun.write(chatPath, xmlContent);
 
-    // Record this review for future re-review detection
-    recordReview(chatId, files.map((f) => f.path));
+    // The tab's next chat_send can continue this chat
+    await updateTab(windowId, tabId, { lastChatId: chatId });
+
+    // HEAD at review time, recorded so re-reviews can be matched to it
+    const commit = (await git.headCommit()) || undefined;
+    const rootCommits = await getRootCommits(roots);
 
     // Build context plan summary for response
     const contextPlanSummary = {
       fullFiles: contextPlan.fullFiles.length,
       codeMappedFiles: contextPlan.codeMappedFiles.length,
+      fileDiffs: contextPlan.fileDiffs?.length,
+      hints: contextPlan.contextHints?.length,
+      expandedFiles: contextPlan.expandedFiles?.length,
       excludedFiles: contextPlan.excludedFiles.length,
+      ignoredFiles: contextPlan.ignoredFiles.length,
       totalTokens: contextPlan.totalTokens,
+      maxTokens: profile.maxTokens,
+      profile: profile.name,
     };
 
-    // Run agentic review - Claude decides the strategy
-    if (await claudeCliAvailable()) {
-      console.error("Running agentic review (Claude decides strategy)...");
-      const response = await runAgenticReview(xmlContent, prompt, rootPath);
-      const verdict = parseVerdict(response);
+    // Run the review with the selected strategy on the configured backend
+    if (await backend.isAvailable()) {
+      console.error(`Running ${strategy.type} review (${backend.name})...`);
+      const { review: strategyReview, verdict: strategyVerdict, findings } = await runStrategyReview(
+        backend,
+        strategy,
+        xmlContent,
+        prompt,
+        {
+          rootPath,
+          baseBranch: diffSource.base,
+          routerPrompt,
+          multipass: config.multipass,
+        },
+      );
+
+      // Check the spec's requirements and acceptance criteria in a
+      // dedicated pass; an unmet item keeps the change from shipping.
+      // Chats answer the prompt, so they get neither.
+      const isChat = responseType === "chat";
+      const checklist = !isChat && specs[0]?.content ? parseSpecChecklist(specs[0].content) : [];
+      let compliance: ComplianceResult[] | undefined;
+      let review = strategyReview;
+      let verdict = isChat ? undefined : strategyVerdict;
+      if (checklist.length > 0) {
+        console.error(`Checking ${checklist.length} spec items (${backend.name})...`);
+        compliance = await runComplianceReview(checklist, xmlContent, backend);
+        review = `${review}\n\n${formatCompliance(compliance)}`;
+        if (verdict === "SHIP" && compliance.some((c) => c.status === "unmet")) {
+          verdict = "NEEDS_WORK";
+        }
+      }
+
+      // Record this review for future re-review detection
+      await recordReview(chatId, reviewedFiles, { commit, rootCommits, windowId, rootPaths, verdict, findings });
+
+      const sarifExport = await exportSarif(payload.sarif, findings, roots);
 
       return {
         success: true,
         data: {
           id: chatId,
           path: chatPath,
-          review: response,
+          review,
           verdict,
+          findings,
+          ...sarifExport,
           isReReview: reReviewResult.isReReview,
           changedFiles: reReviewResult.changedFiles,
+          baseCommit: reReviewResult.baseCommit,
+          diff: diffSource,
+          taskId,
+          compliance,
+          responseType,
           strategy: {
-            type: "agentic",
-            reason: "Claude decides based on context",
+            type: strategy.type,
+            reason: strategy.reason,
           },
           contextPlan: contextPlanSummary,
         },
-        output: `Chat: \`${chatId}\`\n\n${response}`,
+        output: `Chat: \`${chatId}\`\n\n${review}`,
       };
     }
 
-    // Fallback: just return the chat ID if Claude CLI isn't available
+    // Fallback: just return the chat ID if the backend isn't available
+    await recordReview(chatId, reviewedFiles, { commit, rootCommits, windowId, rootPaths });
+
+    const sarifExport = await exportSarif(payload.sarif, [], roots);
+
     return {
       success: true,
       data: {
         id: chatId,
         path: chatPath,
+        findings: [],
+        ...sarifExport,
         isReReview: reReviewResult.isReReview,
         changedFiles: reReviewResult.changedFiles,
+        baseCommit: reReviewResult.baseCommit,
+        diff: diffSource,
+        taskId,
+        responseType,
         strategy: {
-          type: "context-only",
-          reason: "Claude CLI not available",
+          type: strategy.type,
+          reason: `${strategy.reason} (context only: ${backend.name} backend not available)`,
         },
         contextPlan: contextPlanSummary,
       },
-      output: `Chat: \`${chatId}\`\n\nContext exported to: ${chatPath}\n(Install Claude CLI for automatic LLM processing)`,
+      output: `Chat: \`${chatId}\`\n\nContext exported to: ${chatPath}\n(Install Claude CLI or configure a review backend for automatic LLM processing)`,
     };
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
@@ -0,0 +1,62 @@
+/**
+ * Config commands - get
+ *
+ * Commands:
+ * - config get [key]: print the effective project config (defaults merged
+ *   with wdyt.config.ts / .wdyt.json), or one dotted key of it
+ */
+
+import { getWindow } from "../state";
+import { loadConfig } from "../config";
+
+/**
+ * Get the effective config for a window's root
+ *
+ * @param windowId - Window ID (its first root folder is the project root)
+ * @param key - Optional dotted key (e.g. "strategy.multiPassFiles")
+ * @returns The merged config, or the value at key
+ */
+export async function configGetCommand(
+  windowId: number,
+  key?: string
+): Promise<{
+  success: boolean;
+  data?: unknown;
+  output?: string;
+  error?: string;
+}> {
+  try {
+    const window = await getWindow(windowId);
+    const rootPath = window.rootFolderPaths[0] || process.cwd();
+    const config = await loadConfig(rootPath);
+
+    if (!key) {
+      const header = config.source ? `# ${config.source}` : "# (no config file, defaults)";
+      return {
+        success: true,
+        data: config,
+        output: `${header}\n${JSON.stringify(config, null, 2)}`,
+      };
+    }
+
+    let value: unknown = config;
+    for (const part of key.split(".")) {
+      if (value === null || typeof value !== "object" || !(part in value)) {
+        return { success: false, error: `Unknown config key: ${key}` };
+      }
+      value = (value as Record<string, unknown>)[part];
+    }
+
+    return {
+      success: true,
+      data: value,
+      output: typeof value === "string" ? value : JSON.stringify(value, null, 2),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      error: `Failed to get config: ${message}`,
+    };
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Findings commands - export
+ *
+ * Commands:
+ * - findings export [file] [--chat-id <id>]: export a recorded review's
+ *   findings as a SARIF 2.1.0 log (the window's latest review by default)
+ */
+
+import { resolve } from "path";
+import { getWindow } from "../state";
+import { listReviews, loadReview } from "../history";
+import { ContextRoots, findingsToSarif, type SarifLog } from "../context";
+import { isPathSafe } from "./prompt";
+
+/**
+ * Findings export response
+ */
+export interface FindingsExportResponse {
+  chatId: string;
+  sarif: SarifLog;
+  path?: string;
+}
+
+/**
+ * Export a review's findings as SARIF
+ *
+ * Locations are made relative to the root folders the review was sent with
+ * (label-prefixed paths from multi-root reviews resolve into their root).
+ * Reviews recorded without roots use the window's current roots.
+ *
+ * @param windowId - Window ID (picks the default review)
+ * @param filePath - Optional file to write; prints the log when omitted
+ * @param chatId - Review to export (defaults to the window's most recent review)
+ * @returns The SARIF log and, if written, the resolved file path
+ */
+export async function findingsExportCommand(
+  windowId: number,
+  filePath?: string,
+  chatId?: string
+): Promise<{
+  success: boolean;
+  data?: FindingsExportResponse;
+  output?: string;
+  error?: string;
+}> {
+  try {
+    if (filePath && !isPathSafe(filePath)) {
+      return {
+        success: false,
+        error: `Path not allowed: ${filePath}. Must be within home directory, current directory, or /tmp`,
+      };
+    }
+
+    const window = await getWindow(windowId);
+    const record = chatId
+      ? await loadReview(chatId)
+      : (await listReviews()).find((r) => r.windowId === windowId);
+    if (!record) {
+      return {
+        success: false,
+        error: chatId ? `Review ${chatId} not found` : `No reviews recorded for window ${windowId}`,
+      };
+    }
+
+    const rootPaths = record.rootPaths?.length ? record.rootPaths : window.rootFolderPaths;
+    const roots = new ContextRoots(rootPaths.length > 0 ? rootPaths : [process.cwd()]);
+    const sarif = findingsToSarif(record.findings, roots);
+    const json = JSON.stringify(sarif, null, 2);
+
+    if (!filePath) {
+      return {
+        success: true,
+        data: { chatId: record.chatId, sarif },
+        output: json,
+      };
+    }
+
+    const resolvedPath = resolve(filePath);
+    await Bun.write(resolvedPath, json + "\n");
+
+    return {
+      success: true,
+      data: { chatId: record.chatId, sarif, path: resolvedPath },
+      output: `Exported ${record.findings.length} finding(s) to ${resolvedPath}`,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      error: `Failed to export findings: ${message}`,
+    };
+  }
+}
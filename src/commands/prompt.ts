@@ -20,7 +20,7 @@ import { getTab, updateTab } from "../state";
  * Validate that a file path is safe for writing
  * Prevents path traversal attacks by ensuring path is within allowed directories
  */
-function isPathSafe(filePath: string): boolean {
+export function isPathSafe(filePath: string): boolean {
   const resolved = resolve(filePath);
   const home = homedir();
   const cwd = process.cwd();
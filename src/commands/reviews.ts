@@ -0,0 +1,110 @@
+/**
+ * Reviews commands - list, show
+ *
+ * Commands:
+ * - reviews list: list recorded reviews, newest first
+ * - reviews show <chat-id>: show a recorded review with its findings
+ */
+
+import { listReviews, loadReview, type ReviewRecord } from "../history";
+
+/**
+ * Reviews list response
+ */
+export interface ReviewsListResponse {
+  reviews: Array<Omit<ReviewRecord, "findings"> & { findingCount: number }>;
+}
+
+/**
+ * Format a single-line summary of a review
+ */
+function formatReviewLine(record: ReviewRecord): string {
+  const when = new Date(record.timestamp).toISOString();
+  const commit = record.commit ? record.commit.slice(0, 7) : "-------";
+  const verdict = record.verdict || "-";
+  return `${record.chatId}  ${when}  ${commit}  ${verdict}  ${record.files.length} file(s)  ${record.findings.length} finding(s)`;
+}
+
+/**
+ * List recorded reviews
+ *
+ * @returns One line per review (chat id, time, commit, verdict, counts)
+ */
+export async function reviewsListCommand(): Promise<{
+  success: boolean;
+  data?: ReviewsListResponse;
+  output?: string;
+  error?: string;
+}> {
+  try {
+    const records = await listReviews();
+
+    return {
+      success: true,
+      data: {
+        reviews: records.map(({ findings, ...rest }) => ({
+          ...rest,
+          findingCount: findings.length,
+        })),
+      },
+      output: records.length > 0
+        ? records.map(formatReviewLine).join("\n")
+        : "No reviews recorded.",
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      error: `Failed to list reviews: ${message}`,
+    };
+  }
+}
+
+/**
+ * Show a recorded review
+ *
+ * @param chatId - Chat ID of the review
+ * @returns The full review record
+ */
+export async function reviewsShowCommand(chatId: string): Promise<{
+  success: boolean;
+  data?: ReviewRecord;
+  output?: string;
+  error?: string;
+}> {
+  try {
+    const record = await loadReview(chatId);
+    if (!record) {
+      return { success: false, error: `Review ${chatId} not found` };
+    }
+
+    const lines = [
+      `Chat: ${record.chatId}`,
+      `Reviewed: ${new Date(record.timestamp).toISOString()}`,
+      `Commit: ${record.commit || "(unknown)"}`,
+      `Verdict: ${record.verdict || "(none)"}`,
+      "",
+      "Files:",
+      ...record.files.map((f) => `  ${f}`),
+    ];
+
+    if (record.findings.length > 0) {
+      lines.push("", "Findings:");
+      for (const f of record.findings) {
+        lines.push(`  [${f.severity}] ${f.file}:${f.line || "?"} - ${f.issue}`);
+      }
+    }
+
+    return {
+      success: true,
+      data: record,
+      output: lines.join("\n"),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      error: `Failed to show review: ${message}`,
+    };
+  }
+}
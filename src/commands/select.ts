@@ -1,24 +1,126 @@
 /**
- * Select commands - get, add
+ * Select commands - get, add, remove, clear, set
  *
  * Commands:
- * - select get: returns selected file paths (newline-separated)
- * - select add <paths>: adds files to selection
+ * - select get: returns selected file paths (newline-separated), with
+ *   selected folders expanded to their current files
+ * - select add <paths>: adds files, folders and globs to the selection
+ *   (skipping ignored files)
+ * - select remove <paths>: removes files, folders and globs
+ * - select clear: empties the selection
+ * - select set <paths>: replaces the selection
+ * - select diff [base] [--staged|--worktree] [--callers]: replaces the
+ *   selection with the files changed against base (plus their callers)
+ *
+ * Folders are stored as folders and re-expanded whenever the selection is
+ * read; globs are expanded to matching files when added. Paths are
+ * resolved first, then merged into the tab's selection in one state
+ * transaction, so parallel calls on a tab don't lose each other's paths.
  *
  * Compatible with flowctl.py:
  * - cmd_rp_select_get (line 3946): select get
  * - cmd_rp_select_add (line 3955): select add <paths>
  */
 
-import { existsSync } from "fs";
-import { resolve } from "path";
-import { getTab, updateTab, getWindow } from "../state";
+import { resolve, sep } from "path";
+import { getTab, getWindow, updateSelection } from "../state";
+import { loadConfig } from "../config";
+import { getImpactedFiles, loadIgnoreMatcher, type IgnoreMatcher } from "../context";
+import { GitService, type DiffMode } from "../git";
+import { TldrClient } from "../tldr";
+import {
+  expandGlob,
+  expandSelection,
+  matchesGlob,
+  resolveSpec,
+  type SelectionSpec,
+} from "../selection";
+import type { SelectionState } from "../types";
 
 /**
  * Select get response
  */
 export interface SelectGetResponse {
+  /** Files the selection currently covers (folders expanded) */
   files: string[];
+  /** Selected folders */
+  folders: string[];
+}
+
+/**
+ * Select add/set response
+ */
+export interface SelectAddResponse {
+  added: number;
+  total: number;
+  ignored: number;
+}
+
+/**
+ * Select remove/clear response
+ */
+export interface SelectRemoveResponse {
+  removed: number;
+  total: number;
+}
+
+/**
+ * Select diff response
+ */
+export interface SelectDiffResponse {
+  /** Ref the changes were compared against */
+  base: string;
+  mode: DiffMode;
+  /** Changed files selected */
+  changed: number;
+  /** Caller files selected in addition (--callers) */
+  callers: number;
+  /** Changed files skipped by ignore rules */
+  ignored: number;
+  total: number;
+}
+
+/**
+ * Select diff options
+ */
+export interface SelectDiffOptions {
+  /** Ref to compare against (default: config baseBranch, else the default branch; "HEAD" for staged/worktree) */
+  base?: string;
+  /** Changes to select (default: "range") */
+  mode?: DiffMode;
+  /** Also select files that call symbols in the changed files */
+  callers?: boolean;
+}
+
+/**
+ * Window root and ignore rules for a tab's selection
+ */
+interface SelectionContext {
+  rootPath: string;
+  ignore: IgnoreMatcher;
+  /** Base branch from the project config */
+  baseBranch?: string;
+}
+
+/**
+ * Load what every select command needs
+ */
+async function loadSelectionContext(windowId: number): Promise<SelectionContext> {
+  // Get window to determine root paths for resolving relative paths
+  const window = await getWindow(windowId);
+  const rootPath = window.rootFolderPaths[0] || process.cwd();
+  const config = await loadConfig(rootPath);
+  const ignore = await loadIgnoreMatcher(rootPath, config.ignore);
+
+  return { rootPath, ignore, baseBranch: config.baseBranch };
+}
+
+/**
+ * Count the files a selection currently covers
+ */
+async function countSelection(ctx: SelectionContext, selection: SelectionState): Promise<number> {
+  const files = await expandSelection(selection.files, selection.folders, ctx.rootPath, ctx.ignore);
+  return files.length;
 }
 
 /**
@@ -38,14 +140,17 @@ export async function selectGetCommand(
   error?: string;
 }> {
   try {
+    const ctx = await loadSelectionContext(windowId);
     const tab = await getTab(windowId, tabId);
+    const folders = tab.selectedFolders ?? [];
+    const files = await expandSelection(tab.selectedFiles, folders, ctx.rootPath, ctx.ignore);
 
     // Return newline-separated paths for non-JSON output
-    const output = tab.selectedFiles.join("\n");
+    const output = files.join("\n");
 
     return {
       success: true,
-      data: { files: tab.selectedFiles },
+      data: { files, folders },
       output,
     };
   } catch (error) {
@@ -104,13 +209,98 @@ function parsePaths(argsString: string): string[] {
   return paths.filter((p) => p.length > 0);
 }
 
+/**
+ * Files and folders to add to a selection
+ */
+interface SelectionAddition extends SelectionState {
+  /** Explicit files skipped by ignore rules */
+  ignored: number;
+}
+
+/**
+ * Resolve path specs to the files and folders they add
+ */
+async function resolveAddition(ctx: SelectionContext, specs: string[]): Promise<SelectionAddition> {
+  const files = new Set<string>();
+  const folders = new Set<string>();
+  let ignoredCount = 0;
+
+  for (const path of specs) {
+    const spec = resolveSpec(path, ctx.rootPath);
+
+    if (spec.kind === "glob") {
+      for (const file of await expandGlob(spec.pattern, ctx.rootPath, ctx.ignore)) {
+        files.add(file);
+      }
+    } else if (spec.kind === "folder") {
+      folders.add(spec.path);
+    } else if (spec.kind === "file") {
+      // Skip lockfiles, generated code, etc.
+      if (ctx.ignore.ignores(spec.path)) {
+        ignoredCount++;
+        continue;
+      }
+      files.add(spec.path);
+    }
+    // Missing files are silently skipped
+  }
+
+  return { files: Array.from(files), folders: Array.from(folders), ignored: ignoredCount };
+}
+
+/**
+ * Add resolved files and folders to a selection, keeping its order
+ */
+function addToSelection(selection: SelectionState, addition: SelectionAddition): SelectionState {
+  return {
+    files: Array.from(new Set([...selection.files, ...addition.files])),
+    folders: Array.from(new Set([...selection.folders, ...addition.folders])),
+  };
+}
+
+/**
+ * Remove resolved path specs from a selection (see selectRemoveCommand)
+ */
+function removeFromSelection(
+  selection: SelectionState,
+  specs: SelectionSpec[],
+  rootPath: string
+): SelectionState {
+  let { files, folders } = selection;
+
+  for (const spec of specs) {
+    if (spec.kind === "glob") {
+      files = files.filter((f) => !matchesGlob(spec.pattern, f, rootPath));
+      folders = folders.filter((f) => !matchesGlob(spec.pattern, f, rootPath));
+    } else if (spec.kind === "folder") {
+      files = files.filter((f) => !f.startsWith(spec.path + sep));
+      folders = folders.filter((f) => f !== spec.path && !f.startsWith(spec.path + sep));
+    } else {
+      files = files.filter((f) => f !== spec.path);
+    }
+  }
+
+  return { files, folders };
+}
+
+/**
+ * Format the add/set summary line
+ */
+function formatAddOutput(verb: string, data: SelectAddResponse): string {
+  const line = `${verb} ${data.added} file(s), total: ${data.total}`;
+  return data.ignored > 0 ? `${line} (${data.ignored} ignored)` : line;
+}
+
 /**
  * Add files to selection for a tab
  *
  * @param windowId - Window ID
  * @param tabId - Tab ID
- * @param argsString - Space-separated file paths (may be shell-quoted)
+ * @param argsString - Space-separated files, folders or globs (may be shell-quoted)
  * @returns Success status with count of added files
+ *
+ * Files matched by .gitignore / .wdytignore / config ignore patterns are
+ * skipped; explicitly named ones are counted as ignored.
  */
 export async function selectAddCommand(
   windowId: number,
@@ -118,7 +308,7 @@ export async function selectAddCommand(
   argsString: string
 ): Promise<{
   success: boolean;
-  data?: { added: number; total: number };
+  data?: SelectAddResponse;
   output?: string;
   error?: string;
 }> {
@@ -133,48 +323,260 @@ export async function selectAddCommand(
       };
     }
 
-    // Get window to determine root paths for resolving relative paths
-    const window = await getWindow(windowId);
-    const rootPath = window.rootFolderPaths[0] || process.cwd();
+    const ctx = await loadSelectionContext(windowId);
+    const addition = await resolveAddition(ctx, pathsToAdd);
+    const { before, after } = await updateSelection(windowId, tabId, (selection) =>
+      addToSelection(selection, addition)
+    );
 
-    // Get current selection
-    const tab = await getTab(windowId, tabId);
-    const existingFiles = new Set(tab.selectedFiles);
+    const total = await countSelection(ctx, after);
+    const data = { added: total - (await countSelection(ctx, before)), total, ignored: addition.ignored };
 
-    // Process each path
-    let addedCount = 0;
-    for (const path of pathsToAdd) {
-      // Resolve to absolute path if relative
-      const absolutePath = resolve(rootPath, path);
+    return {
+      success: true,
+      data,
+      output: formatAddOutput("Added", data),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      error: `Failed to add to selection: ${message}`,
+    };
+  }
+}
 
-      // Skip if already selected (deduplicate)
-      if (existingFiles.has(absolutePath)) {
-        continue;
-      }
+/**
+ * Remove files, folders or globs from the selection for a tab
+ *
+ * A folder removes the folder and any explicit files under it. A glob
+ * removes the files and folders it matches. Files that are only covered by
+ * a still-selected folder stay selected; remove the folder instead.
+ *
+ * @param windowId - Window ID
+ * @param tabId - Tab ID
+ * @param argsString - Space-separated files, folders or globs (may be shell-quoted)
+ * @returns Success status with count of removed files
+ */
+export async function selectRemoveCommand(
+  windowId: number,
+  tabId: string,
+  argsString: string
+): Promise<{
+  success: boolean;
+  data?: SelectRemoveResponse;
+  output?: string;
+  error?: string;
+}> {
+  try {
+    const pathsToRemove = parsePaths(argsString);
 
-      // Check if file exists - silently skip non-existent files
-      if (!existsSync(absolutePath)) {
-        continue;
-      }
+    if (pathsToRemove.length === 0) {
+      return {
+        success: false,
+        error: "select remove requires at least one path",
+      };
+    }
+
+    const ctx = await loadSelectionContext(windowId);
+    const specs = pathsToRemove.map((path) => resolveSpec(path, ctx.rootPath));
+    const { before, after } = await updateSelection(windowId, tabId, (selection) =>
+      removeFromSelection(selection, specs, ctx.rootPath)
+    );
+
+    const total = await countSelection(ctx, after);
+    const removed = (await countSelection(ctx, before)) - total;
+
+    return {
+      success: true,
+      data: { removed, total },
+      output: `Removed ${removed} file(s), total: ${total}`,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      error: `Failed to remove from selection: ${message}`,
+    };
+  }
+}
+
+/**
+ * Clear the selection for a tab
+ *
+ * @param windowId - Window ID
+ * @param tabId - Tab ID
+ * @returns Success status with count of removed files
+ */
+export async function selectClearCommand(
+  windowId: number,
+  tabId: string
+): Promise<{
+  success: boolean;
+  data?: SelectRemoveResponse;
+  output?: string;
+  error?: string;
+}> {
+  try {
+    const ctx = await loadSelectionContext(windowId);
+    const { before } = await updateSelection(windowId, tabId, () => ({ files: [], folders: [] }));
+    const removed = await countSelection(ctx, before);
+
+    return {
+      success: true,
+      data: { removed, total: 0 },
+      output: `Cleared ${removed} file(s)`,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      error: `Failed to clear selection: ${message}`,
+    };
+  }
+}
 
-      existingFiles.add(absolutePath);
-      addedCount++;
+/**
+ * Replace the selection for a tab
+ *
+ * Same path handling as select add, starting from an empty selection.
+ *
+ * @param windowId - Window ID
+ * @param tabId - Tab ID
+ * @param argsString - Space-separated files, folders or globs (may be shell-quoted)
+ * @returns Success status with count of selected files
+ */
+export async function selectSetCommand(
+  windowId: number,
+  tabId: string,
+  argsString: string
+): Promise<{
+  success: boolean;
+  data?: SelectAddResponse;
+  output?: string;
+  error?: string;
+}> {
+  try {
+    const paths = parsePaths(argsString);
+
+    if (paths.length === 0) {
+      return {
+        success: false,
+        error: "select set requires at least one path",
+      };
     }
 
-    // Update the tab with new selection
-    const newSelection = Array.from(existingFiles);
-    await updateTab(windowId, tabId, { selectedFiles: newSelection });
+    const ctx = await loadSelectionContext(windowId);
+    const addition = await resolveAddition(ctx, paths);
+    const { after } = await updateSelection(windowId, tabId, () =>
+      addToSelection({ files: [], folders: [] }, addition)
+    );
+
+    const total = await countSelection(ctx, after);
+    const data = { added: total, total, ignored: addition.ignored };
 
     return {
       success: true,
-      data: { added: addedCount, total: newSelection.length },
-      output: `Added ${addedCount} file(s), total: ${newSelection.length}`,
+      data,
+      output: formatAddOutput("Selected", data),
     };
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     return {
       success: false,
-      error: `Failed to add to selection: ${message}`,
+      error: `Failed to set selection: ${message}`,
+    };
+  }
+}
+
+/**
+ * Replace the selection with the files changed against a base
+ *
+ * Deleted and ignored files are skipped. With `callers`, files that call
+ * symbols defined in the changed files (via tldr impact) are selected too.
+ * The selection is left as it was when the base or head is unknown.
+ *
+ * @param windowId - Window ID
+ * @param tabId - Tab ID
+ * @param options - Base ref, diff mode and caller expansion
+ * @param injectedTldr - Optional TldrClient (for testing)
+ * @returns Success status with counts of selected files
+ */
+export async function selectDiffCommand(
+  windowId: number,
+  tabId: string,
+  options: SelectDiffOptions = {},
+  injectedTldr?: TldrClient
+): Promise<{
+  success: boolean;
+  data?: SelectDiffResponse;
+  output?: string;
+  error?: string;
+}> {
+  try {
+    const ctx = await loadSelectionContext(windowId);
+    await getTab(windowId, tabId); // fail before running git if the tab is gone
+    const mode = options.mode || "range";
+    const git = new GitService(ctx.rootPath);
+    const source = await git.resolveSource({
+      mode,
+      base: options.base || (mode === "range" ? ctx.baseBranch : undefined),
+    });
+    // An unknown ref would diff as "no changes" and empty the selection
+    for (const ref of [source.base, source.head]) {
+      if (ref) await git.verifyRef(ref);
+    }
+
+    const changedPaths = await git.changedFiles(source);
+    const existing = changedPaths
+      .map((path) => resolve(ctx.rootPath, path))
+      .filter((path) => resolveSpec(path, ctx.rootPath).kind === "file");
+    const { kept: changed, ignored } = ctx.ignore.partition(existing);
+
+    let callers: string[] = [];
+    if (options.callers && changed.length > 0) {
+      const tldr = injectedTldr || new TldrClient();
+      if (!injectedTldr) {
+        try {
+          await tldr.ensureWarmed(ctx.rootPath);
+        } catch (e) {
+          console.error(`tldr warm: ${e instanceof Error ? e.message : String(e)}`);
+        }
+      }
+      const impacted = await getImpactedFiles(changed, ctx.rootPath, tldr, ctx.ignore);
+      const callerPaths = new Set([...impacted].map((path) => resolve(ctx.rootPath, path)));
+      callers = [...callerPaths].filter(
+        (path) => !changed.includes(path) && resolveSpec(path, ctx.rootPath).kind === "file"
+      );
+    }
+
+    const { after } = await updateSelection(windowId, tabId, () => ({
+      files: [...changed, ...callers],
+      folders: [],
+    }));
+
+    const total = after.files.length;
+    const data: SelectDiffResponse = {
+      base: source.base!,
+      mode,
+      changed: changed.length,
+      callers: callers.length,
+      ignored: ignored.length,
+      total,
+    };
+
+    let output = `Selected ${changed.length} changed file(s) vs ${source.base}`;
+    if (mode !== "range") output += ` (${mode})`;
+    if (options.callers) output += `, ${callers.length} caller file(s)`;
+    output += `, total: ${total}`;
+    if (ignored.length > 0) output += ` (${ignored.length} ignored)`;
+
+    return { success: true, data, output };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      error: `Failed to select diff: ${message}`,
     };
   }
 }
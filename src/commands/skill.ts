@@ -171,6 +171,18 @@ Based on your analysis, choose ONE approach and load its instructions:
 
 ## Output
 
+After your review, also list every issue as a structured finding:
+\`\`\`
+<finding>
+  <severity>critical|major|minor</severity>
+  <file>path/to/file.ts</file>
+  <line>42</line>
+  <issue>Brief description of the problem</issue>
+  <evidence>Why this is a problem, what could go wrong</evidence>
+  <fix>Concrete suggestion to fix</fix>
+</finding>
+\`\`\`
+
 Always end with:
 \`\`\`
 <verdict>SHIP|NEEDS_WORK|MAJOR_RETHINK</verdict>
@@ -360,14 +372,14 @@ Then:
 <verdict>SHIP|NEEDS_WORK|MAJOR_RETHINK</verdict>
 \`\`\``,
 
-  "review-exploration": `# Exploration Review
+  "review-exploration": `# Exploration Review Mode
 
 No specific files were provided. Use tools to discover what needs reviewing.
 
 ## Available Tools
 
 - **Read** - Examine file contents
-- **Glob** - Find files by pattern
+- **Glob** - Find files by pattern (\`**/*.ts\`, \`src/**/*.js\`)
 - **Grep** - Search for patterns in code
 - **Bash** - Run git commands (git diff, git log, git status)
 
@@ -407,7 +419,7 @@ For each finding, ask:
 
 **Only report 80%+ confidence issues.**
 
-## Output
+## Output Format
 
 \`\`\`markdown
 ## Exploration Review
@@ -447,6 +459,73 @@ Then:
 2. **80% confidence threshold** - no uncertain findings
 3. **Follow the data** - trace user input paths
 4. **Document coverage** - be clear what you did/didn't review`,
+
+  "review-plan": `# Plan Review
+
+You are reviewing a plan, not finished code. The request describes what will be built; the context shows the code it will change.
+
+## Process (Chain of Thought)
+
+1. **Understand the Goal** - What problem does the plan solve? Is the scope clear?
+2. **Check Against the Code** - Do the files, functions and interfaces it names exist and work the way the plan assumes?
+3. **Find Gaps** - Missing steps, edge cases, migrations, error handling, tests?
+4. **Check Risks** - What could break for existing callers? Is there a simpler approach that reuses existing code?
+5. **Check Order** - Can the steps be built and verified one at a time?
+
+## Confidence Rule
+
+For each issue, ask: Am I **80%+ confident** this would cause a problem when the plan is built?
+Don't redesign a sound plan to match your own preferences.
+
+## Output
+
+\`\`\`markdown
+## Plan Review
+
+**Goal:** [1-sentence summary]
+**Risk:** Low / Medium / High
+
+### Issues (80%+ confidence)
+- **file:line** (or plan step) - [issue] → [suggested change to the plan]
+
+### Open Questions
+- [what the plan needs to decide before building]
+
+### Looks Good
+- [positive observation]
+\`\`\`
+
+List every issue as a structured finding too:
+\`\`\`
+<finding>
+  <severity>critical|major|minor</severity>
+  <file>path/to/file.ts</file>
+  <line>42</line>
+  <issue>Brief description of the problem</issue>
+  <evidence>Why the plan gets this wrong</evidence>
+  <fix>Concrete change to the plan</fix>
+</finding>
+\`\`\`
+
+Then:
+\`\`\`
+<verdict>SHIP|NEEDS_WORK|MAJOR_RETHINK</verdict>
+\`\`\`
+
+SHIP means the plan is ready to build.`,
+
+  "chat": `# Chat
+
+Answer the request using the code in the context. This is a conversation, not a review: don't grade the change or hunt for issues you weren't asked about.
+
+## Guidelines
+
+- Answer the question directly, then explain as much as it needs
+- Point to the code you're relying on as **file:line**
+- Quote only the lines that matter
+- Say so when the context doesn't contain the answer, and what would
+
+Don't end with a verdict.`,
 };
 
 /**
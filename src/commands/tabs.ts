@@ -0,0 +1,165 @@
+/**
+ * Tab commands - list, show, delete
+ *
+ * Commands:
+ * - tab list: list a window's tabs
+ * - tab show: show a tab's metadata, prompt and selection
+ * - tab delete: delete a tab
+ *
+ * Tabs are created with `builder`.
+ */
+
+import { deleteTab, getTab, getWindow } from "../state";
+import type { Tab } from "../types";
+
+/**
+ * Tab list response
+ */
+export interface TabListResponse {
+  tabs: Array<{
+    id: string;
+    createdAt: string;
+    prompt: string;
+    fileCount: number;
+    folderCount: number;
+  }>;
+}
+
+/**
+ * Format a single-line summary of a tab
+ */
+function formatTabLine(tab: Tab): string {
+  const prompt = tab.prompt.split("\n")[0];
+  const summary = prompt.length > 60 ? `${prompt.slice(0, 57)}...` : prompt;
+  const folders = tab.selectedFolders?.length ?? 0;
+  return `${tab.id}  ${tab.createdAt}  ${tab.selectedFiles.length} file(s)  ${folders} folder(s)  ${summary || "(no prompt)"}`;
+}
+
+/**
+ * List a window's tabs
+ *
+ * @param windowId - Window ID
+ * @returns One line per tab (id, creation time, selection counts, prompt)
+ */
+export async function tabListCommand(windowId: number): Promise<{
+  success: boolean;
+  data?: TabListResponse;
+  output?: string;
+  error?: string;
+}> {
+  try {
+    const window = await getWindow(windowId);
+
+    return {
+      success: true,
+      data: {
+        tabs: window.tabs.map((tab) => ({
+          id: tab.id,
+          createdAt: tab.createdAt,
+          prompt: tab.prompt,
+          fileCount: tab.selectedFiles.length,
+          folderCount: tab.selectedFolders?.length ?? 0,
+        })),
+      },
+      output: window.tabs.length > 0
+        ? window.tabs.map(formatTabLine).join("\n")
+        : `No tabs in window ${windowId}.`,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      error: `Failed to list tabs: ${message}`,
+    };
+  }
+}
+
+/**
+ * Show a tab
+ *
+ * @param windowId - Window ID
+ * @param tabId - Tab ID
+ * @returns The tab with its metadata, prompt and selection
+ */
+export async function tabShowCommand(windowId: number, tabId: string): Promise<{
+  success: boolean;
+  data?: Tab;
+  output?: string;
+  error?: string;
+}> {
+  try {
+    const tab = await getTab(windowId, tabId);
+
+    const lines = [
+      `Tab: ${tab.id}`,
+      `Created: ${tab.createdAt}`,
+      `Updated: ${tab.updatedAt}`,
+    ];
+
+    // Defaults for chat_send, as set by builder
+    const metadata: Array<[string, string | undefined]> = [
+      ["Summary", tab.summary],
+      ["Response type", tab.responseType],
+      ["Base branch", tab.baseBranch],
+      ["Task", tab.taskId],
+      ["Last chat", tab.lastChatId],
+    ];
+    for (const [label, value] of metadata) {
+      if (value) lines.push(`${label}: ${value}`);
+    }
+
+    lines.push(
+      "",
+      "Prompt:",
+      tab.prompt ? tab.prompt.replace(/^/gm, "  ") : "  (none)",
+      "",
+      "Files:",
+      ...(tab.selectedFiles.length > 0 ? tab.selectedFiles.map((f) => `  ${f}`) : ["  (none)"]),
+    );
+
+    if (tab.selectedFolders && tab.selectedFolders.length > 0) {
+      lines.push("", "Folders:", ...tab.selectedFolders.map((f) => `  ${f}`));
+    }
+
+    return {
+      success: true,
+      data: tab,
+      output: lines.join("\n"),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      error: `Failed to show tab: ${message}`,
+    };
+  }
+}
+
+/**
+ * Delete a tab
+ *
+ * @param windowId - Window ID
+ * @param tabId - Tab ID
+ */
+export async function tabDeleteCommand(windowId: number, tabId: string): Promise<{
+  success: boolean;
+  data?: { tabId: string };
+  output?: string;
+  error?: string;
+}> {
+  try {
+    await deleteTab(windowId, tabId);
+
+    return {
+      success: true,
+      data: { tabId },
+      output: `Deleted tab ${tabId}`,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      error: `Failed to delete tab: ${message}`,
+    };
+  }
+}
@@ -1,11 +1,21 @@
 /**
- * Windows command - list all windows
+ * Window commands - list, create, set roots, delete
  *
- * Returns JSON: {windows: [{windowID, rootFolderPaths}]}
- * Compatible with flowctl.py parsing at line 215-231
+ * Commands:
+ * - windows: list all windows
+ *   Returns JSON: {windows: [{windowID, rootFolderPaths}]}
+ *   Compatible with flowctl.py parsing at line 215-231
+ * - window create <paths...>: create a window with root folders
+ * - window roots [add|remove <paths...>]: show or change a window's root folders
+ * - window delete: delete a window and its tabs
+ *
+ * Root folder paths resolve against the current directory and must be
+ * existing directories.
  */
 
-import { getWindows } from "../state";
+import { statSync } from "fs";
+import { resolve } from "path";
+import { createWindow, deleteWindow, getWindow, getWindows, updateWindowRoots } from "../state";
 
 /**
  * Window data formatted for flowctl.py compatibility
@@ -52,3 +62,164 @@ export async function windowsCommand(): Promise<{
     };
   }
 }
+
+/**
+ * Window command response (create, roots)
+ */
+export interface WindowResponse {
+  window: WindowOutput;
+}
+
+/**
+ * Resolve root folder paths, checking that each is a directory
+ *
+ * @returns Absolute paths without duplicates
+ * @throws Error naming the first path that isn't a directory
+ */
+function resolveRootPaths(paths: string[]): string[] {
+  const resolved = [...new Set(paths.map((p) => resolve(p)))];
+  for (const path of resolved) {
+    let isDirectory = false;
+    try {
+      isDirectory = statSync(path).isDirectory();
+    } catch {
+      // Missing: reported below
+    }
+    if (!isDirectory) {
+      throw new Error(`Not a directory: ${path}`);
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Format a window's root folders, one per line
+ */
+function formatRoots(rootFolderPaths: string[]): string {
+  return rootFolderPaths.length > 0
+    ? rootFolderPaths.map((p) => `  ${p}`).join("\n")
+    : "  (none, reviews use the current directory)";
+}
+
+/**
+ * Create a window
+ *
+ * @param paths - Root folder paths (the first one is the primary root)
+ * @returns Window: <id> on success
+ */
+export async function windowCreateCommand(paths: string[]): Promise<{
+  success: boolean;
+  data?: WindowResponse;
+  output?: string;
+  error?: string;
+}> {
+  try {
+    const window = await createWindow(resolveRootPaths(paths));
+
+    return {
+      success: true,
+      data: { window: { windowID: window.id, rootFolderPaths: window.rootFolderPaths } },
+      output: `Window: ${window.id}`,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      error: `Failed to create window: ${message}`,
+    };
+  }
+}
+
+/**
+ * Show, add or remove a window's root folders
+ *
+ * Added roots go after the existing ones, so the primary root stays
+ * first. Removing a path that isn't a root is an error. Roots change in
+ * a state transaction, so concurrent adds and removes keep each other's
+ * changes.
+ *
+ * @param windowId - Window ID
+ * @param action - "add" or "remove" (show the roots when undefined)
+ * @param paths - Root folder paths to add or remove
+ * @returns The window's root folders after the change
+ */
+export async function windowRootsCommand(
+  windowId: number,
+  action?: string,
+  paths: string[] = []
+): Promise<{
+  success: boolean;
+  data?: WindowResponse;
+  output?: string;
+  error?: string;
+}> {
+  try {
+    if (action !== undefined && action !== "add" && action !== "remove") {
+      return { success: false, error: `Unknown window roots action: ${action}. Use 'add' or 'remove'.` };
+    }
+    if (action && paths.length === 0) {
+      return { success: false, error: `window roots ${action} requires folder paths` };
+    }
+
+    let window;
+    if (action === "add") {
+      const added = resolveRootPaths(paths);
+      window = await updateWindowRoots(windowId, (roots) => [
+        ...roots,
+        ...added.filter((p) => !roots.includes(p)),
+      ]);
+    } else if (action === "remove") {
+      const removed = paths.map((p) => resolve(p));
+      window = await updateWindowRoots(windowId, (roots) => {
+        const unknown = removed.find((p) => !roots.includes(p));
+        if (unknown) {
+          throw new Error(`Not a root of window ${windowId}: ${unknown}`);
+        }
+        return roots.filter((p) => !removed.includes(p));
+      });
+    } else {
+      window = await getWindow(windowId);
+    }
+
+    return {
+      success: true,
+      data: { window: { windowID: window.id, rootFolderPaths: window.rootFolderPaths } },
+      output: `Window ${window.id} roots:\n${formatRoots(window.rootFolderPaths)}`,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      error: `Failed to update window roots: ${message}`,
+    };
+  }
+}
+
+/**
+ * Delete a window and its tabs
+ *
+ * @param windowId - Window ID
+ */
+export async function windowDeleteCommand(windowId: number): Promise<{
+  success: boolean;
+  data?: { windowID: number; deletedTabs: number };
+  output?: string;
+  error?: string;
+}> {
+  try {
+    const window = await getWindow(windowId);
+    await deleteWindow(windowId);
+
+    return {
+      success: true,
+      data: { windowID: windowId, deletedTabs: window.tabs.length },
+      output: `Deleted window ${windowId} (${window.tabs.length} tab(s))`,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      error: `Failed to delete window: ${message}`,
+    };
+  }
+}
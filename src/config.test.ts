@@ -0,0 +1,143 @@
+/**
+ * Tests for project config loading and context profiles
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { join } from "path";
+import { mkdir, rm } from "fs/promises";
+import {
+  loadProjectConfig,
+  parseProjectConfig,
+  loadConfig,
+  resolveConfig,
+  resolveContextProfile,
+  DEFAULT_MAX_TOKENS,
+} from "./config";
+import { DEFAULT_CONTEXT_HINTS, DEFAULT_RANKING_WEIGHTS, DEFAULT_STRATEGY_THRESHOLDS } from "./context";
+
+const TEST_DIR = join(import.meta.dir, "..", ".test-config");
+
+beforeEach(async () => {
+  await rm(TEST_DIR, { recursive: true, force: true });
+  await mkdir(TEST_DIR, { recursive: true });
+});
+
+afterEach(async () => {
+  await rm(TEST_DIR, { recursive: true, force: true });
+});
+
+describe("loadProjectConfig", () => {
+  test("returns an empty config when no file exists", async () => {
+    expect(await loadProjectConfig(TEST_DIR)).toEqual({ config: {} });
+  });
+
+  test("loads .wdyt.json", async () => {
+    await Bun.write(
+      join(TEST_DIR, ".wdyt.json"),
+      JSON.stringify({ defaultProfile: "huge", profiles: { huge: { maxTokens: 400_000 } } })
+    );
+
+    const { config, source } = await loadProjectConfig(TEST_DIR);
+    expect(source).toBe(join(TEST_DIR, ".wdyt.json"));
+    expect(config.defaultProfile).toBe("huge");
+    expect(config.profiles?.huge.maxTokens).toBe(400_000);
+  });
+
+  test("prefers wdyt.config.ts over .wdyt.json", async () => {
+    await Bun.write(join(TEST_DIR, ".wdyt.json"), JSON.stringify({ baseBranch: "json" }));
+    await Bun.write(
+      join(TEST_DIR, "wdyt.config.ts"),
+      `export default { baseBranch: "develop", strategy: { multiPassFiles: 25 } };\n`
+    );
+
+    const { config, source } = await loadProjectConfig(TEST_DIR);
+    expect(source).toBe(join(TEST_DIR, "wdyt.config.ts"));
+    expect(config.baseBranch).toBe("develop");
+    expect(config.strategy?.multiPassFiles).toBe(25);
+  });
+
+  test("throws on invalid JSON", async () => {
+    await Bun.write(join(TEST_DIR, ".wdyt.json"), "{ not json");
+    await expect(loadProjectConfig(TEST_DIR)).rejects.toThrow("Invalid .wdyt.json");
+  });
+
+  test("reports every invalid field", async () => {
+    await Bun.write(
+      join(TEST_DIR, ".wdyt.json"),
+      JSON.stringify({ profiles: { big: { maxTokens: -1 } }, strategy: { multiPassFile: 3 }, diffFormat: "split" })
+    );
+
+    const error = await loadProjectConfig(TEST_DIR).catch((e: Error) => e);
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toContain("profiles.big.maxTokens");
+    expect((error as Error).message).toContain("strategy");
+    expect((error as Error).message).toContain("diffFormat");
+  });
+});
+
+describe("resolveConfig", () => {
+  test("fills in defaults", () => {
+    const config = resolveConfig({});
+    expect(config.defaultProfile).toBe("default");
+    expect(config.ignore).toEqual([]);
+    expect(config.ranking).toEqual(DEFAULT_RANKING_WEIGHTS);
+    expect(config.strategy).toEqual(DEFAULT_STRATEGY_THRESHOLDS);
+    expect(config.hints).toEqual(DEFAULT_CONTEXT_HINTS);
+    expect(config.skills.router).toBe("review-router");
+  });
+
+  test("merges partial overrides over the defaults", () => {
+    const config = resolveConfig({ ranking: { test: -40 }, strategy: { highComplexity: 25 } });
+    expect(config.ranking.test).toBe(-40);
+    expect(config.ranking.changed).toBe(DEFAULT_RANKING_WEIGHTS.changed);
+    expect(config.strategy.highComplexity).toBe(25);
+    expect(config.strategy.multiPassFiles).toBe(DEFAULT_STRATEGY_THRESHOLDS.multiPassFiles);
+  });
+
+  test("takes the backend as a name or settings, without an API key", () => {
+    expect(resolveConfig({}).backend).toEqual({});
+    expect(resolveConfig({ backend: "openai" }).backend).toEqual({ type: "openai" });
+    expect(resolveConfig({ backend: { model: "qwen" } }).backend).toEqual({ model: "qwen" });
+    expect(() => parseProjectConfig({ backend: "gemini" }, ".wdyt.json")).toThrow("backend");
+    expect(() => parseProjectConfig({ backend: { apiKey: "sk-1" } }, ".wdyt.json")).toThrow("backend");
+  });
+});
+
+describe("resolveContextProfile", () => {
+  test("uses the default profile when nothing is configured", async () => {
+    const profile = resolveContextProfile(await loadConfig(TEST_DIR));
+    expect(profile.name).toBe("default");
+    expect(profile.maxTokens).toBe(DEFAULT_MAX_TOKENS);
+  });
+
+  test("selects built-in and configured profiles by name", () => {
+    const config = resolveConfig({
+      profiles: {
+        mono: { maxTokens: 300_000, budgetSplit: { diff: 1, fullFiles: 3, codeMaps: 1 } },
+      },
+    });
+
+    expect(resolveContextProfile(config, "large").maxTokens).toBe(180_000);
+    expect(resolveContextProfile(config, "mono")).toEqual({
+      name: "mono",
+      maxTokens: 300_000,
+      budgetSplit: { diff: 1, fullFiles: 3, codeMaps: 1 },
+    });
+  });
+
+  test("falls back to the configured defaultProfile", () => {
+    expect(resolveContextProfile(resolveConfig({ defaultProfile: "small" })).name).toBe("small");
+  });
+
+  test("max_tokens overrides the profile budget", () => {
+    const profile = resolveContextProfile(resolveConfig({}), "small", 90_000);
+    expect(profile.name).toBe("small");
+    expect(profile.maxTokens).toBe(90_000);
+  });
+
+  test("rejects unknown profiles and invalid max_tokens", () => {
+    const config = resolveConfig({});
+    expect(() => resolveContextProfile(config, "nope")).toThrow("Unknown profile: nope");
+    expect(() => resolveContextProfile(config, undefined, 0)).toThrow("max_tokens must be a positive number");
+  });
+});
@@ -0,0 +1,312 @@
+/**
+ * Project configuration for wdyt
+ *
+ * Discovered in the window's root folder, first match wins:
+ * - wdyt.config.ts (default export)
+ * - .wdyt.json
+ *
+ * Every field is optional; missing values fall back to the built-in
+ * defaults. Example `.wdyt.json`:
+ *
+ * {
+ *   "baseBranch": "develop",
+ *   "ignore": ["dist/**", "fixtures/**"],
+ *   "diffFormat": "hunks",
+ *   "hints": { "maxHints": 10, "codeMaps": true },
+ *   "expand": { "enabled": true, "depth": 2, "format": "snippets" },
+ *   "defaultProfile": "large",
+ *   "profiles": {
+ *     "large": {
+ *       "maxTokens": 180000,
+ *       "budgetSplit": { "diff": 0.2, "fullFiles": 0.7, "codeMaps": 0.1 }
+ *     }
+ *   },
+ *   "ranking": { "test": -30 },
+ *   "strategy": { "multiPassFiles": 20 },
+ *   "multipass": { "focuses": ["correctness", "performance"] },
+ *   "skills": { "router": "review-router" },
+ *   "backend": { "type": "openai", "model": "gpt-4o" }
+ * }
+ */
+
+import { basename, join } from "path";
+import { pathToFileURL } from "url";
+import { z } from "zod";
+import {
+  DEFAULT_RANKING_WEIGHTS,
+  DEFAULT_STRATEGY_THRESHOLDS,
+  DEFAULT_CONTEXT_HINTS,
+  DEFAULT_EXPANSION,
+  EXPANSION_FORMATS,
+  DIFF_FORMATS,
+  type BudgetSplit,
+  type ContextHintsConfig,
+  type ExpansionConfig,
+  type DiffFormat,
+  type RankingWeights,
+  type StrategyThresholds,
+  type MultiPassConfig,
+} from "./context";
+import { BACKEND_TYPES, type BackendConfig } from "./backends";
+
+/** Config file names (in the project root), in discovery order */
+export const CONFIG_FILES = ["wdyt.config.ts", ".wdyt.json"] as const;
+
+/** Default context budget when no profile or max_tokens is given */
+export const DEFAULT_MAX_TOKENS = 50_000;
+
+/** Skill used as the review router prompt by default */
+export const DEFAULT_ROUTER_SKILL = "review-router";
+
+const budgetSplitSchema = z.object({
+  diff: z.number().nonnegative(),
+  fullFiles: z.number().nonnegative(),
+  codeMaps: z.number().nonnegative(),
+}).strict();
+
+const contextProfileSchema = z.object({
+  maxTokens: z.number().int().positive(),
+  budgetSplit: budgetSplitSchema.optional(),
+}).strict();
+
+/** Schema for the project config file */
+export const projectConfigSchema = z.object({
+  /** Profile used when chat_send doesn't name one */
+  defaultProfile: z.string().optional(),
+  /** Context profiles by name (merged over the built-in ones) */
+  profiles: z.record(z.string(), contextProfileSchema).optional(),
+  /** Base branch for diffs when chat_send doesn't give one */
+  baseBranch: z.string().optional(),
+  /** gitignore-style patterns kept out of review context (applied after .wdytignore) */
+  ignore: z.array(z.string()).optional(),
+  /** How the git diff is included when chat_send doesn't say */
+  diffFormat: z.enum(DIFF_FORMATS).optional(),
+  /** Context hints: how many to include, and whether hinted files become code maps */
+  hints: z.object({
+    maxHints: z.number().int().nonnegative(),
+    codeMaps: z.boolean(),
+  }).partial().strict().optional(),
+  /** Impact expansion: add unselected callers/callees (off unless enabled) */
+  expand: z.object({
+    enabled: z.boolean(),
+    depth: z.number().int().positive(),
+    maxFiles: z.number().int().nonnegative(),
+    callees: z.boolean(),
+    format: z.enum(EXPANSION_FORMATS),
+  }).partial().strict().optional(),
+  /** Overrides for rankFiles priority weights */
+  ranking: z.object({
+    changed: z.number(),
+    impacted: z.number(),
+    entryPoint: z.number(),
+    config: z.number(),
+    test: z.number(),
+    smallFile: z.number(),
+    largeFile: z.number(),
+  }).partial().strict().optional(),
+  /** Overrides for selectStrategy thresholds */
+  strategy: z.object({
+    multiPassFiles: z.number().int().nonnegative(),
+    highComplexity: z.number().nonnegative(),
+    smallChangeFiles: z.number().int().nonnegative(),
+    smallChangeLines: z.number().int().nonnegative(),
+    explorationIterations: z.number().int().positive(),
+  }).partial().strict().optional(),
+  /** Overrides for multi-pass reviews (applied over the strategy's choices) */
+  multipass: z.object({
+    parallelAgents: z.number().int().positive(),
+    focuses: z.array(z.string()).min(1),
+    confidenceThreshold: z.number().min(0).max(100),
+    discoveryModel: z.string(),
+    reviewModel: z.string(),
+    scoringModel: z.string(),
+  }).partial().strict().optional(),
+  /** Skill choices (skill name, or a .md path relative to the root) */
+  skills: z.object({
+    router: z.string(),
+  }).partial().strict().optional(),
+  /** Review backend when chat_send doesn't name one (API keys stay in the environment) */
+  backend: z.union([
+    z.enum(BACKEND_TYPES),
+    z.object({
+      type: z.enum(BACKEND_TYPES),
+      model: z.string(),
+      baseUrl: z.string(),
+    }).partial().strict(),
+  ]).optional(),
+}).strict();
+
+/** Project configuration as written in the config file */
+export type ProjectConfig = z.infer<typeof projectConfigSchema>;
+
+/**
+ * Named context profile
+ */
+export interface ContextProfile {
+  /** Total token budget for the review context */
+  maxTokens: number;
+  /** Share of the context budget per section (ratios, normalized) */
+  budgetSplit?: BudgetSplit;
+}
+
+/**
+ * Effective configuration: the project config merged over the defaults
+ */
+export interface ResolvedConfig {
+  /** Config file the values came from (undefined if none) */
+  source?: string;
+  defaultProfile: string;
+  profiles: Record<string, ContextProfile>;
+  baseBranch?: string;
+  ignore: string[];
+  diffFormat?: DiffFormat;
+  hints: ContextHintsConfig;
+  expand: ExpansionConfig & { enabled: boolean };
+  ranking: RankingWeights;
+  strategy: StrategyThresholds;
+  multipass: Partial<MultiPassConfig>;
+  skills: { router: string };
+  backend: Partial<BackendConfig>;
+}
+
+/**
+ * Built-in profiles, available without a config file
+ */
+export const BUILTIN_PROFILES: Record<string, ContextProfile> = {
+  default: { maxTokens: DEFAULT_MAX_TOKENS },
+  small: { maxTokens: 32_000 },
+  large: { maxTokens: 180_000 },
+};
+
+/**
+ * Validate a raw config value
+ *
+ * @param value - Parsed config file contents
+ * @param source - File name for error messages
+ * @throws Error listing every invalid field
+ */
+export function parseProjectConfig(value: unknown, source: string): ProjectConfig {
+  const result = projectConfigSchema.safeParse(value);
+  if (!result.success) {
+    const problems = result.error.issues.map(
+      (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`
+    );
+    throw new Error(`Invalid ${source}: ${problems.join("; ")}`);
+  }
+  return result.data;
+}
+
+/**
+ * Find the config file in a root folder
+ *
+ * @returns Absolute path of the first config file found, or undefined
+ */
+export async function findConfigFile(rootPath: string): Promise<string | undefined> {
+  for (const name of CONFIG_FILES) {
+    const path = join(rootPath, name);
+    if (await Bun.file(path).exists()) {
+      return path;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Load and validate the project config from a root folder
+ *
+ * @param rootPath - Project root
+ * @returns Validated config and its source file ({} if there is none)
+ * @throws Error if the file can't be parsed or fails validation
+ */
+export async function loadProjectConfig(
+  rootPath: string
+): Promise<{ config: ProjectConfig; source?: string }> {
+  const source = await findConfigFile(rootPath);
+  if (!source) {
+    return { config: {} };
+  }
+
+  const name = basename(source);
+  let raw: unknown;
+  try {
+    if (source.endsWith(".ts")) {
+      const mod = await import(pathToFileURL(source).href);
+      raw = mod.default ?? mod.config;
+    } else {
+      raw = JSON.parse(await Bun.file(source).text());
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid ${name}: ${message}`);
+  }
+
+  return { config: parseProjectConfig(raw, name), source };
+}
+
+/**
+ * Merge a project config over the defaults
+ */
+export function resolveConfig(config: ProjectConfig, source?: string): ResolvedConfig {
+  return {
+    source,
+    defaultProfile: config.defaultProfile || "default",
+    profiles: { ...BUILTIN_PROFILES, ...config.profiles },
+    baseBranch: config.baseBranch,
+    ignore: config.ignore ?? [],
+    diffFormat: config.diffFormat,
+    hints: { ...DEFAULT_CONTEXT_HINTS, ...config.hints },
+    expand: { enabled: false, ...DEFAULT_EXPANSION, ...config.expand },
+    ranking: { ...DEFAULT_RANKING_WEIGHTS, ...config.ranking },
+    strategy: { ...DEFAULT_STRATEGY_THRESHOLDS, ...config.strategy },
+    multipass: { ...config.multipass },
+    skills: { router: config.skills?.router || DEFAULT_ROUTER_SKILL },
+    backend: typeof config.backend === "string" ? { type: config.backend } : { ...config.backend },
+  };
+}
+
+/**
+ * Load the effective config for a root folder
+ *
+ * @param rootPath - Project root
+ * @returns Project config merged over the defaults
+ */
+export async function loadConfig(rootPath: string): Promise<ResolvedConfig> {
+  const { config, source } = await loadProjectConfig(rootPath);
+  return resolveConfig(config, source);
+}
+
+/**
+ * Resolve the context profile for a review
+ *
+ * Precedence for the token budget: max_tokens > profile > default.
+ *
+ * @param config - Effective config
+ * @param name - Profile requested in the payload (falls back to defaultProfile)
+ * @param maxTokens - Explicit max_tokens from the payload
+ * @returns The profile to build context with
+ * @throws Error if the named profile doesn't exist or max_tokens is invalid
+ */
+export function resolveContextProfile(
+  config: ResolvedConfig,
+  name?: string,
+  maxTokens?: number
+): ContextProfile & { name: string } {
+  if (maxTokens !== undefined && !(Number.isFinite(maxTokens) && maxTokens > 0)) {
+    throw new Error(`max_tokens must be a positive number, got ${maxTokens}`);
+  }
+
+  const profileName = name || config.defaultProfile;
+  const profile = config.profiles[profileName];
+
+  if (!profile) {
+    throw new Error(
+      `Unknown profile: ${profileName}. Available profiles: ${Object.keys(config.profiles).join(", ")}`
+    );
+  }
+
+  return {
+    name: profileName,
+    maxTokens: maxTokens ?? profile.maxTokens,
+    budgetSplit: profile.budgetSplit,
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * Bundled BPE vocabulary
+ *
+ * A compact, offline vocabulary for the BPE token counter. It covers
+ * frequent English words, programming keywords and identifier pieces,
+ * common letter pairs/triples and operator runs - enough to approximate
+ * how modern BPE tokenizers split source code and prose.
+ *
+ * Words are expanded with leading-space and capitalized variants when the
+ * vocabulary is built (see tokens.ts), so only the base form is listed.
+ */
+
+/** Frequent English words */
+export const COMMON_WORDS = [
+  "the", "be", "to", "of", "and", "a", "in", "that", "have", "it", "for", "not",
+  "on", "with", "he", "as", "you", "do", "at", "this", "but", "his", "by", "from",
+  "they", "we", "say", "her", "she", "or", "an", "will", "my", "one", "all",
+  "would", "there", "their", "what", "so", "up", "out", "if", "about", "who",
+  "get", "which", "go", "me", "when", "make", "can", "like", "time", "no", "just",
+  "him", "know", "take", "people", "into", "year", "your", "good", "some",
+  "could", "them", "see", "other", "than", "then", "now", "look", "only", "come",
+  "its", "over", "think", "also", "back", "after", "use", "two", "how", "our",
+  "work", "first", "well", "way", "even", "new", "want", "because", "any",
+  "these", "give", "day", "most", "us", "is", "are", "was", "were", "been",
+  "has", "had", "does", "did", "should", "must", "may", "might", "each", "such",
+  "here", "where", "why", "very", "more", "less", "many", "much", "before",
+  "between", "through", "during", "without", "within", "under", "again",
+  "same", "different", "change", "changes", "changed", "file", "files", "line",
+  "lines", "code", "review", "issue", "issues", "problem", "fix", "test", "tests",
+  "check", "need", "needs", "used", "using", "value", "values", "name", "names",
+  "list", "path", "paths", "data", "error", "errors", "result", "results",
+  "case", "point", "number", "part", "found", "call", "called", "calls",
+  "instead", "always", "never", "still", "already", "whether", "while",
+  "until", "since", "against", "missing", "current", "previous", "next",
+  "default", "example", "note", "add", "added", "remove",
+  "removed", "update", "updated", "support", "handle", "handled", "ensure",
+  "sure", "based", "given", "return", "returns", "read", "write",
+  "create", "created", "delete", "set", "run", "runs", "load", "save", "find",
+  "show", "start", "end", "stop", "open", "close", "send", "receive", "parse",
+  "format", "build", "type", "types", "option", "options", "config", "state",
+  "user", "users", "request", "response", "server", "client", "model", "view",
+  "context", "content", "message", "prompt", "token", "tokens", "budget",
+  "branch", "commit", "diff", "base", "head", "root", "window", "tab", "chat",
+  "finding", "findings", "severity", "verdict", "strategy", "plan", "summary",
+];
+
+/** Programming keywords and common identifier pieces */
+export const CODE_WORDS = [
+  "function", "return", "const", "let", "var", "if", "else", "for", "while",
+  "switch", "case", "break", "continue", "default", "try", "catch", "finally",
+  "throw", "new", "class", "extends", "implements", "interface", "type", "enum",
+  "import", "export", "from", "async", "await", "yield", "static", "public",
+  "private", "protected", "readonly", "abstract", "void", "null", "undefined",
+  "true", "false", "this", "super", "typeof", "instanceof", "keyof", "in", "of",
+  "as", "is", "string", "number", "boolean", "object", "any", "unknown",
+  "never", "Promise", "Array", "Map", "Set", "Record", "Partial", "Error",
+  "def", "self", "None", "True", "False", "lambda", "elif", "pass", "raise",
+  "with", "fn", "pub", "mut", "impl", "struct", "trait", "match", "use", "mod",
+  "func", "package", "go", "defer", "chan", "select", "range", "nil", "int",
+  "float", "double", "char", "long", "short", "bool", "byte", "uint",
+  "console", "log", "length", "push", "pop", "slice", "splice", "map", "filter",
+  "reduce", "forEach", "join", "split", "trim", "replace", "includes", "keys",
+  "entries", "values", "JSON", "stringify", "parse", "Math", "floor", "ceil",
+  "round", "max", "min", "Object", "assign", "freeze", "Date", "now", "Number",
+  "String", "Boolean", "Symbol", "require", "module", "exports", "process",
+  "env", "args", "argv", "options", "opts", "params", "props", "state",
+  "config", "index", "item", "items", "key", "id", "ids", "obj", "arr", "str",
+  "num", "len", "idx", "err", "res", "req", "ctx", "cb", "val", "tmp",
+  "src", "dst", "dir", "path", "url", "uri", "api", "http", "https", "json",
+  "xml", "html", "css", "sql", "db", "query", "sync", "init", "get",
+  "set", "has", "to", "on", "handle", "handler", "listener", "event",
+  "emit", "resolve", "reject", "then", "expect", "describe", "it", "mock",
+  "test", "spec", "assert", "equal", "toBe", "toEqual", "toContain", "beforeEach",
+  "afterEach", "Each", "All", "By", "Id", "At", "Of", "Or", "And", "Not",
+  "File", "Files", "Path", "Name", "Type", "Data", "List", "Info",
+  "Config", "Options", "Result", "Response", "Request", "Handler",
+  "Manager", "Service", "Client", "Server", "Factory", "Builder", "Provider",
+  "Context", "State", "Value", "Count", "Size", "Length", "Index", "Key",
+  "Tokens", "Token", "Budget", "Plan", "Review", "Finding", "Strategy",
+];
+
+/** Common subword units (affixes) */
+export const SUBWORDS = [
+  "ing", "tion", "tions", "sion", "ed", "er", "ers", "es", "ly", "ment",
+  "ments", "ness", "able", "ible", "ation", "ations", "al", "ally", "ic",
+  "ical", "ive", "ous", "ful", "less", "ity", "ize", "ise", "ized", "izer",
+  "pre", "re", "un", "dis", "con", "com", "pro", "ex", "im", "de", "sub",
+  "inter", "trans", "over", "under", "out", "up", "est", "ant", "ent", "ence",
+  "ance", "ship", "ward", "wise", "like", "age", "ure", "ory", "ary", "ery",
+  "ify", "fy", "ism", "ist", "ists", "ial", "ian", "ual", "ular", "uable",
+];
+
+/** Frequent letter pairs and triples (fallback for unknown words) */
+export const NGRAMS = [
+  "th", "he", "in", "er", "an", "re", "on", "at", "en", "nd", "ti", "es",
+  "or", "te", "of", "ed", "is", "it", "al", "ar", "st", "to", "nt", "ng",
+  "se", "ha", "as", "ou", "io", "le", "ve", "co", "me", "de", "hi", "ri",
+  "ro", "ic", "ne", "ea", "ra", "ce", "li", "ch", "ll", "be", "ma", "si",
+  "om", "ur", "ca", "el", "ta", "la", "ns", "di", "fo", "ho", "pe", "ec",
+  "pr", "no", "ct", "us", "ac", "ot", "il", "tr", "ly", "nc", "et", "ut",
+  "ss", "so", "rs", "un", "lo", "wa", "ge", "ie", "wh", "ee", "wi", "em",
+  "ad", "ol", "rt", "po", "we", "na", "ul", "ni", "ts", "mo", "ow", "pa",
+  "im", "mi", "ai", "sh", "ir", "su", "id", "os", "iv", "ia", "am", "fi",
+  "ci", "vi", "pl", "ig", "tu", "ev", "ld", "ry", "mp", "fe", "bl", "ab",
+  "gh", "ty", "op", "wo", "sa", "ay", "ex", "ke", "fr", "oo", "av", "ag",
+  "if", "ap", "gr", "od", "bo", "sp", "rd", "do", "uc", "bu", "ei", "ov",
+  "by", "rm", "ep", "tt", "oc", "fa", "ef", "cu", "rn", "sc", "gi", "da",
+  "yo", "cr", "cl", "du", "ga", "qu", "ue", "ff", "ba", "ey", "ls", "va",
+  "um", "pp", "ua", "up", "lu", "go", "ht", "ru", "ug", "ds", "lt", "pi",
+  "rc", "rr", "eg", "au", "ck", "ew", "mu", "br", "bi", "pt", "ak", "pu",
+  "ui", "rg", "ib", "tl", "ny", "ki", "rk", "ys", "ob", "mm", "fu", "ph",
+  "og", "ms", "ye", "ud", "mb", "ip", "ub", "oi", "rl", "gu", "dr", "hr",
+  "cc", "tw", "ft", "wn", "nu", "af", "hu", "nn", "eo", "vo", "rv", "nf",
+  "xp", "gn", "sm", "fl", "iz", "ok", "nl", "my", "gl", "aw", "sy", "oa",
+  "ks", "nk", "the", "ing", "and", "ion", "tio", "ent", "ati", "for", "her",
+  "ter", "hat", "tha", "ere", "ate", "his", "res", "ver", "all", "ons", "nce",
+  "men", "ith", "ted", "ess", "not", "ect", "rea", "eve", "per", "int", "sta",
+  "cti", "ica", "ear", "ain", "one", "our", "iti", "rat", "ell", "ant", "str",
+  "ght", "ill", "ine", "ble", "lin", "igh", "und", "tur", "oun", "man", "nte",
+  "ort", "ust", "ran", "tra", "ide", "lly", "por", "ard", "art", "ces", "ass",
+  "der", "lat", "ali", "ack", "ace", "ade", "ame", "ase", "eat", "ime", "ile",
+  "ose", "ote", "ove", "use", "ele", "orm", "ock",
+];
+
+/** Operator and punctuation runs */
+export const SYMBOLS = [
+  ",", ";", ".", ":", "(", ")", "{", "}", "[", "]", "<", ">", "\"", "'", "`",
+  "//", "/*", "*/", "/**", " */", " *", "=>", "==", "===", "!=", "!==", "&&",
+  "||", "??", "?.", "...", "::", "->", "<=", ">=", "++", "--", "+=", "-=",
+  "();", "()", "{}", "[]", ");", "),", "};", "});", "))", "({", "})",
+  "\",", "',", "\";", "';", "`,", "${", "/>", "</", "\":", ":\"", "=\"",
+  "\">", "'>", "=>{", "){", ") {", " {", " }", " (", " =", " ==", " ===",
+  " !==", " !=", " =>", " &&", " ||", " ??", " +", " -", " /", " <",
+  " >", " <=", " >=", " ?", " :", " |", " &", " //", " /*", " \"", " '",
+  " `", " [", " ]", " {}", " []", " ()", " });", " },", " };", "\");", "\"]",
+  "\"],", "\"]);", "\"),", "[];", " [];", "(\"", "([\"", " [\"", "));", ").",
+  ")).", "().", "\")).", "):", "?:", "((", "(`", "(!", " (!", "].", "`.", " ${",
+  " `${", " @", " .", " ...", " \"./", " \"../", " \".", "#", "##", "###",
+  "**", " **", "```", "\n", "\n\n", "\r\n", "\t", "\t\t", "\t\t\t", "\t\t\t\t",
+];
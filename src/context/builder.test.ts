@@ -0,0 +1,247 @@
+/**
+ * Tests for context plan budgeting
+ */
+
+import { describe, it, expect, mock, afterAll } from "bun:test";
+import { join } from "path";
+import { mkdir, rm, writeFile } from "fs/promises";
+import { $ } from "bun";
+import {
+  buildContextPlan,
+  buildContextXml,
+  buildOptimizedContext,
+  formatContextPlanSummary,
+  type RankedFile,
+  type TokenBudget,
+} from "./builder";
+import type { FileDiffContext } from "./hunks";
+import { IgnoreMatcher } from "./ignore";
+import { heuristicTokenCounter } from "./tokens";
+import { TldrClient } from "../tldr";
+
+function createMockTldr(): TldrClient {
+  const client = new TldrClient();
+  client.structure = mock(() => Promise.resolve([]));
+  return client;
+}
+
+function rankedFile(path: string, tokens: number, priority = 50): RankedFile {
+  return {
+    path,
+    content: "x".repeat(tokens * 4),
+    priority,
+    fullTokens: tokens,
+    isChanged: false,
+  };
+}
+
+function budget(availableTokens: number, split?: TokenBudget["split"]): TokenBudget {
+  return { maxTokens: availableTokens, skillTokens: 0, userPromptTokens: 0, availableTokens, split };
+}
+
+describe("buildContextPlan", () => {
+  it("fills the budget greedily without a split", async () => {
+    const plan = await buildContextPlan(
+      [rankedFile("/p/a.ts", 600, 60), rankedFile("/p/b.ts", 400, 50)],
+      budget(1000),
+      createMockTldr(),
+      "/p",
+      undefined,
+      heuristicTokenCounter,
+    );
+
+    expect(plan.fullFiles.map((f) => f.path)).toEqual(["/p/a.ts", "/p/b.ts"]);
+    expect(plan.tokenizer).toBe("heuristic");
+  });
+
+  it("only code-maps files pulled in by hints", async () => {
+    const plan = await buildContextPlan(
+      [rankedFile("/p/a.ts", 100), { ...rankedFile("/p/caller.ts", 100), codeMapOnly: true }],
+      budget(1000),
+      createMockTldr(),
+      "/p",
+      undefined,
+      heuristicTokenCounter,
+    );
+    plan.contextHints = [{ file: "caller.ts", line: 3, symbol: "login<T>", refCount: 2 }];
+
+    expect(plan.fullFiles.map((f) => f.path)).toEqual(["/p/a.ts"]);
+    expect(plan.codeMappedFiles.map((f) => f.file.path)).toEqual(["/p/caller.ts"]);
+    expect(buildContextXml(plan, "Review", "/p")).toContain(
+      "<context_hints>\n    Consider these related files:\n    - caller.ts:3 - references login&lt;T&gt;\n  </context_hints>"
+    );
+  });
+
+  it("keeps the code map share free of full files", async () => {
+    const plan = await buildContextPlan(
+      [rankedFile("/p/a.ts", 600, 60), rankedFile("/p/b.ts", 400, 50)],
+      budget(1000, { diff: 0, fullFiles: 0.7, codeMaps: 0.3 }),
+      createMockTldr(),
+      "/p",
+      undefined,
+      heuristicTokenCounter,
+    );
+
+    expect(plan.fullFiles.map((f) => f.path)).toEqual(["/p/a.ts"]);
+    expect(plan.codeMappedFiles.map((f) => f.file.path)).toEqual(["/p/b.ts"]);
+  });
+
+  it("truncates the git diff to its share", async () => {
+    const diff = Array.from({ length: 200 }, (_, i) => `+line ${i} of the change`).join("\n");
+    const plan = await buildContextPlan(
+      [],
+      budget(1000, { diff: 1, fullFiles: 1, codeMaps: 0 }),
+      createMockTldr(),
+      "/p",
+      diff,
+      heuristicTokenCounter,
+    );
+
+    expect(plan.gitDiff).toContain("truncated to fit token budget");
+    expect(plan.totalTokens).toBeLessThanOrEqual(500);
+  });
+
+  it("names the tokenizer in the summary", async () => {
+    const plan = await buildContextPlan([], budget(1000), createMockTldr(), "/p", undefined, heuristicTokenCounter);
+    expect(formatContextPlanSummary(plan)).toContain("(heuristic tokenizer)");
+  });
+
+  it("leaves large changed files to their file diff", async () => {
+    const fileDiff: FileDiffContext = {
+      path: "big.ts",
+      status: "modified",
+      hunks: [{ header: "@@ -1 +1 @@", oldStart: 1, oldLines: 1, newStart: 1, newLines: 1, lines: ["-a", "+b"] }],
+      symbols: [{ name: "run", type: "function", start: 1, end: 3, code: "function run() {\n  b;\n}" }],
+    };
+    const big = { ...rankedFile("/p/big.ts", 3000, 60), isChanged: true };
+    const small = { ...rankedFile("/p/small.ts", 100, 50), isChanged: true };
+
+    const plan = await buildContextPlan(
+      [big, small],
+      budget(10_000),
+      createMockTldr(),
+      "/p",
+      [fileDiff],
+      heuristicTokenCounter,
+    );
+
+    expect(plan.fullFiles.map((f) => f.path)).toEqual(["/p/small.ts"]);
+    expect(plan.fileDiffs).toHaveLength(1);
+
+    const xml = buildContextXml(plan, "Review", "/p");
+    expect(xml).toContain('<file_diff path="big.ts" status="modified">');
+    expect(xml).toContain('<symbol name="run" type="function" lines="1-3">');
+    expect(xml).toMatch(/<file_tree>[\s\S]*big\.ts[\s\S]*<\/file_tree>/);
+    expect(formatContextPlanSummary(plan)).toContain("File diffs: 1");
+  });
+
+  it("drops enclosing symbols from file diffs over the diff share", async () => {
+    const fileDiff: FileDiffContext = {
+      path: "a.ts",
+      status: "modified",
+      hunks: [{ header: "@@ -1 +1 @@", oldStart: 1, oldLines: 1, newStart: 1, newLines: 1, lines: ["-a", "+b"] }],
+      symbols: [{ name: "run", type: "function", start: 1, end: 200, code: "x".repeat(4000) }],
+    };
+
+    const plan = await buildContextPlan(
+      [],
+      budget(1000, { diff: 0.5, fullFiles: 0.5, codeMaps: 0 }),
+      createMockTldr(),
+      "/p",
+      [fileDiff],
+      heuristicTokenCounter,
+    );
+
+    expect(plan.fileDiffs?.[0].hunks).toHaveLength(1);
+    expect(plan.fileDiffs?.[0].symbols).toEqual([]);
+  });
+
+  it("embeds the diff context, trimmed to the diff share", async () => {
+    const diffContext = {
+      diffStat: " src/a.ts | 2 +-\n 1 file changed",
+      commits: ["abc1234 fix: handle <empty> input", ...Array.from({ length: 300 }, (_, i) => `c${i} older commit`)],
+      changedFiles: ["src/a.ts"],
+      branch: "feature",
+    };
+
+    const plan = await buildContextPlan(
+      [],
+      budget(1000, { diff: 0.5, fullFiles: 0.5, codeMaps: 0 }),
+      createMockTldr(),
+      "/p",
+      undefined,
+      heuristicTokenCounter,
+      diffContext,
+    );
+
+    expect(plan.diffContext?.commits[0]).toBe("abc1234 fix: handle <empty> input");
+    expect(plan.diffContext?.commits.length).toBeLessThan(300);
+    expect(plan.diffContext?.changedFiles).toEqual([]);
+    expect(plan.totalTokens).toBeLessThanOrEqual(500);
+
+    const xml = buildContextXml(plan, "Review", "/p");
+    expect(xml).toContain("<diff_summary>");
+    expect(xml).toContain("abc1234 fix: handle &lt;empty&gt; input");
+  });
+});
+
+describe("buildOptimizedContext", () => {
+  it("reserves up to a quarter of the budget for specs, task first", async () => {
+    const { xml, plan } = await buildOptimizedContext([], "Review", "", {
+      maxTokens: 1000,
+      tldr: createMockTldr(),
+      tokenCounter: heuristicTokenCounter,
+      specs: [
+        { found: true, taskId: "fn-1.2", content: "# fn-1.2 Add <login>\n\n- [ ] Works" },
+        { found: true, taskId: "fn-1", content: Array.from({ length: 200 }, (_, i) => `epic line ${i}`).join("\n") },
+      ],
+    });
+
+    expect(plan.budget.specTokens).toBeLessThanOrEqual(250);
+    expect(plan.budget.availableTokens).toBe(1000 - heuristicTokenCounter.count("Review") - plan.budget.specTokens!);
+    expect(xml).toContain("<context>\n  <task_spec>\n  # fn-1.2 Add &lt;login&gt;");
+    expect(xml).toContain("(truncated to fit token budget)\n  </epic_spec>");
+  });
+
+  describe("with ignore rules", () => {
+    const REPO_DIR = join(import.meta.dir, "..", "..", ".test-builder-ignore");
+
+    afterAll(async () => {
+      await rm(REPO_DIR, { recursive: true, force: true });
+    });
+
+    it("reports ignored selected and changed files", async () => {
+      await rm(REPO_DIR, { recursive: true, force: true });
+      await mkdir(join(REPO_DIR, "src"), { recursive: true });
+      await mkdir(join(REPO_DIR, "dist"), { recursive: true });
+      await $`git init -q -b main && git config user.email test@test.com && git config user.name Test`.cwd(REPO_DIR).quiet();
+      await writeFile(join(REPO_DIR, "src/a.ts"), "export const a = 1;\n");
+      await writeFile(join(REPO_DIR, "dist/a.js"), "exports.a = 1;\n");
+      await $`git add . && git commit -q -m base`.cwd(REPO_DIR).quiet();
+      await writeFile(join(REPO_DIR, "src/a.ts"), "export const a = 2;\n");
+      await writeFile(join(REPO_DIR, "dist/a.js"), "exports.a = 2;\n");
+      await writeFile(join(REPO_DIR, "dist/b.js"), "exports.b = 1;\n");
+
+      const { plan } = await buildOptimizedContext(
+        [
+          { path: join(REPO_DIR, "src/a.ts"), content: "export const a = 2;\n" },
+          { path: join(REPO_DIR, "dist/b.js"), content: "exports.b = 1;\n" },
+        ],
+        "Review",
+        "",
+        {
+          rootPath: REPO_DIR,
+          diff: { mode: "worktree", base: "HEAD" },
+          includeGitDiff: true,
+          tldr: createMockTldr(),
+          tokenCounter: heuristicTokenCounter,
+          ignore: new IgnoreMatcher(["dist/"], REPO_DIR),
+        },
+      );
+
+      expect(plan.fullFiles.map((f) => f.path)).toEqual([join(REPO_DIR, "src/a.ts")]);
+      expect(plan.ignoredFiles).toEqual(["dist/b.js", "dist/a.js"]);
+      expect(formatContextPlanSummary(plan)).toContain("Ignored: 2");
+    });
+  });
+});
@@ -3,19 +3,58 @@
  *
  * Orchestrates building optimized context for Claude CLI.
  * Implements RepoPrompt-compatible format with:
+ * - Task spec (and parent epic spec) from Flow-Next
  * - File tree
  * - Code maps (signatures only for large/low-priority files)
  * - Full file contents (for high-priority files)
- * - Git diff
- * - Token budgeting
+ * - Git diff (one blob, or per-file hunks with their enclosing symbols)
+ * - Git history (diff stat, commit messages, changed files)
+ * - Context hints (callers and related code the change may affect)
+ * - Impact expansion (unselected callers/callees as code maps or snippets)
+ * - Token budgeting (bundled BPE token counter, see tokens.ts)
+ * - Ignore rules (.gitignore / .wdytignore, see ignore.ts)
  *
  * Uses llm-tldr for AST-based code maps and impact-aware file ranking.
  */
 
-import { dirname, basename, relative } from "path";
-import { $ } from "bun";
-import { extractCodeMap, formatCodeMap, type CodeMap } from "./codemap";
+import { dirname, basename, join, relative, resolve } from "path";
+import { extractCodeMap, formatCodeMap, estimateCodeMapTokens, type CodeMap } from "./codemap";
+import { countTokens, getDefaultTokenCounter, type TokenCounter } from "./tokens";
+import type { IgnoreMatcher } from "./ignore";
+import { ContextRoots, type ContextRoot } from "./roots";
+import {
+  expandImpact,
+  extractSnippets,
+  DEFAULT_EXPANSION,
+  type ExpandedFile,
+  type ExpansionConfig,
+  type RelatedSnippet,
+} from "./expansion";
+import { buildFileDiffs, type FileDiffContext } from "./hunks";
+import {
+  generateContextHints,
+  formatHints,
+  DEFAULT_CONTEXT_HINTS,
+  type ContextHint,
+  type ContextHintsConfig,
+} from "./hints";
+import { formatSpecXml, isTaskId, type TaskSpecResult } from "../flow";
 import type { TldrClient } from "../tldr";
+import { GitService, formatDiffContextXml, type DiffSource, type GitDiffContext } from "../git";
+
+/**
+ * How the context budget is shared between sections (ratios, normalized
+ * to sum to 1). Unused diff budget rolls over to full files, and unused
+ * full-file budget rolls over to code maps.
+ */
+export interface BudgetSplit {
+  /** Share for the git diff (truncated if larger) */
+  diff: number;
+  /** Share for full file contents */
+  fullFiles: number;
+  /** Share kept for code maps */
+  codeMaps: number;
+}
 
 /** Token budget configuration */
 export interface TokenBudget {
@@ -25,10 +64,59 @@ export interface TokenBudget {
   skillTokens: number;
   /** Tokens reserved for user prompt */
   userPromptTokens: number;
+  /** Tokens reserved for task/epic specs */
+  specTokens?: number;
+  /** Tokens reserved for context hints */
+  hintTokens?: number;
+  /** Tokens reserved for impact expansion snippets */
+  snippetTokens?: number;
   /** Available tokens for context (files + git diff) */
   availableTokens: number;
+  /** Section split of availableTokens (default: greedy, no split) */
+  split?: BudgetSplit;
 }
 
+/** Priority weights used by rankFiles */
+export interface RankingWeights {
+  /** Files in the git diff (default: +100) */
+  changed: number;
+  /** Files calling changed symbols (default: +50) */
+  impacted: number;
+  /** Entry points like index.ts (default: +30) */
+  entryPoint: number;
+  /** Config files like package.json (default: +20) */
+  config: number;
+  /** Test/spec files (default: -10) */
+  test: number;
+  /** Files under 500 tokens (default: +10) */
+  smallFile: number;
+  /** Files over 2000 tokens (default: -10) */
+  largeFile: number;
+}
+
+/** Default ranking weights */
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  changed: 100,
+  impacted: 50,
+  entryPoint: 30,
+  config: 20,
+  test: -10,
+  smallFile: 10,
+  largeFile: -10,
+};
+
+/**
+ * How the git diff is included in the context
+ *
+ * - unified: the whole diff as one <git_diff> block
+ * - hunks: a <file_diff> per file, with the code of every function, method
+ *   or class its hunks touch
+ */
+export type DiffFormat = "unified" | "hunks";
+
+/** Valid diff formats (for payload validation) */
+export const DIFF_FORMATS: readonly DiffFormat[] = ["unified", "hunks"];
+
 /** File with content and priority */
 export interface RankedFile {
   path: string;
@@ -39,6 +127,10 @@ export interface RankedFile {
   fullTokens: number;
   /** Whether file is in git diff */
   isChanged: boolean;
+  /** Pulled in by a context hint rather than selected (code map only) */
+  codeMapOnly?: boolean;
+  /** Pulled in by impact expansion as a caller or callee (code map only) */
+  expanded?: ExpandedFile["relation"];
 }
 
 /** Context plan showing what's included */
@@ -49,12 +141,28 @@ export interface ContextPlan {
   codeMappedFiles: Array<{ file: RankedFile; codeMap: CodeMap }>;
   /** Files excluded due to budget */
   excludedFiles: RankedFile[];
+  /** Selected and changed files left out by ignore rules (display paths) */
+  ignoredFiles: string[];
   /** Total tokens used */
   totalTokens: number;
   /** Budget info */
   budget: TokenBudget;
   /** Git diff content (if any) */
   gitDiff?: string;
+  /** Per-file diffs with enclosing symbols (hunk diff format) */
+  fileDiffs?: FileDiffContext[];
+  /** Diff stat, commits and changed files (if any) */
+  diffContext?: GitDiffContext;
+  /** Task and epic spec sections, already formatted (if any) */
+  specXml?: string;
+  /** Callers and related code outside the change (if any) */
+  contextHints?: ContextHint[];
+  /** Unselected files added by impact expansion (if enabled) */
+  expandedFiles?: ExpandedFile[];
+  /** Symbol code from expanded files (snippet expansion format) */
+  snippets?: RelatedSnippet[];
+  /** Name of the token counter used for the estimates */
+  tokenizer: string;
 }
 
 /**
@@ -69,48 +177,18 @@ function escapeXml(str: string): string {
     .replace(/'/g, "&apos;");
 }
 
-/**
- * Estimate tokens for a string (~4 chars per token)
- */
-function estimateTokens(str: string): number {
-  return Math.ceil(str.length / 4);
-}
-
-/**
- * Get list of changed files from git
- */
-async function getChangedFiles(baseBranch?: string): Promise<Set<string>> {
-  try {
-    const branch = baseBranch || "HEAD~1";
-    const result = await $`git diff --name-only ${branch}`.text();
-    return new Set(result.trim().split("\n").filter(Boolean));
-  } catch {
-    return new Set();
-  }
-}
-
-/**
- * Get git diff for changed files
- */
-async function getGitDiff(baseBranch?: string): Promise<string> {
-  try {
-    const branch = baseBranch || "HEAD~1";
-    const result = await $`git diff ${branch}`.text();
-    return result.trim();
-  } catch {
-    return "";
-  }
-}
-
 /**
  * Rank files by relevance.
- * Supports impact-aware ranking: files in `impactedFiles` get +50 priority.
+ * Supports impact-aware ranking: files in `impactedFiles` get a priority boost.
+ * Weights default to DEFAULT_RANKING_WEIGHTS.
  */
 export function rankFiles(
   files: Array<{ path: string; content: string }>,
   changedFiles: Set<string>,
   rootPath: string,
   impactedFiles?: Set<string>,
+  counter: TokenCounter = getDefaultTokenCounter(),
+  weights: RankingWeights = DEFAULT_RANKING_WEIGHTS,
 ): RankedFile[] {
   return files.map((file) => {
     const relPath = relative(rootPath, file.path);
@@ -118,12 +196,12 @@ export function rankFiles(
 
     // Changed files get highest priority
     if (changedFiles.has(relPath) || changedFiles.has(file.path)) {
-      priority += 100;
+      priority += weights.changed;
     }
 
-    // Impact-aware: files identified by tldr call graph get +50
+    // Impact-aware: files identified by tldr call graph get a boost
     if (impactedFiles && (impactedFiles.has(relPath) || impactedFiles.has(file.path))) {
-      priority += 50;
+      priority += weights.impacted;
     }
 
     // Entry points get high priority
@@ -138,7 +216,7 @@ export function rankFiles(
       name === "+page.server.ts" ||
       name === "+server.ts"
     ) {
-      priority += 30;
+      priority += weights.entryPoint;
     }
 
     // Config files get medium priority
@@ -149,18 +227,18 @@ export function rankFiles(
       name.endsWith(".config.ts") ||
       name.endsWith(".config.js")
     ) {
-      priority += 20;
+      priority += weights.config;
     }
 
     // Test files get lower priority (unless changed)
     if (file.path.includes("test") || file.path.includes("spec")) {
-      priority -= 10;
+      priority += weights.test;
     }
 
     // Smaller files are easier to include
-    const tokens = estimateTokens(file.content);
-    if (tokens < 500) priority += 10;
-    if (tokens > 2000) priority -= 10;
+    const tokens = countTokens(file.content, counter);
+    if (tokens < 500) priority += weights.smallFile;
+    if (tokens > 2000) priority += weights.largeFile;
 
     return {
       path: file.path,
@@ -172,17 +250,235 @@ export function rankFiles(
   });
 }
 
+/**
+ * Normalize a budget split so its shares sum to 1
+ */
+function normalizeSplit(split: BudgetSplit): BudgetSplit {
+  const diff = Math.max(0, split.diff || 0);
+  const fullFiles = Math.max(0, split.fullFiles || 0);
+  const codeMaps = Math.max(0, split.codeMaps || 0);
+  const total = diff + fullFiles + codeMaps;
+
+  if (total === 0) {
+    return { diff: 0, fullFiles: 1, codeMaps: 0 };
+  }
+  return { diff: diff / total, fullFiles: fullFiles / total, codeMaps: codeMaps / total };
+}
+
+/**
+ * Truncate text to a token budget, cutting at line boundaries
+ */
+function truncateToTokens(text: string, maxTokens: number, counter: TokenCounter): string {
+  const marker = "... (truncated to fit token budget)";
+  const limit = maxTokens - countTokens(marker, counter);
+  const kept: string[] = [];
+  let used = 0;
+
+  for (const line of text.split("\n")) {
+    const tokens = countTokens(line + "\n", counter);
+    if (used + tokens > limit) break;
+    kept.push(line);
+    used += tokens;
+  }
+
+  if (kept.length === 0) {
+    return limit >= 0 ? marker : "";
+  }
+  return [...kept, marker].join("\n");
+}
+
+/**
+ * Changed files above this size are left to their file diff in the hunk
+ * diff format (when it covers their changed symbols)
+ */
+const DIFF_ONLY_FILE_TOKENS = 2000;
+
+/**
+ * Fit file diffs into a token budget, in order
+ *
+ * A file diff that doesn't fit is retried without its enclosing symbols,
+ * and left out if it still doesn't fit.
+ */
+function fitFileDiffs(
+  fileDiffs: FileDiffContext[],
+  maxTokens: number,
+  counter: TokenCounter,
+): { fileDiffs: FileDiffContext[]; tokens: number } {
+  const kept: FileDiffContext[] = [];
+  let tokens = 0;
+
+  for (const fileDiff of fileDiffs) {
+    for (const candidate of [fileDiff, { ...fileDiff, symbols: [] }]) {
+      const candidateTokens = countTokens(formatFileDiff(candidate), counter);
+      if (tokens + candidateTokens <= maxTokens) {
+        kept.push(candidate);
+        tokens += candidateTokens;
+        break;
+      }
+    }
+  }
+
+  return { fileDiffs: kept, tokens };
+}
+
+/** Largest share of the total budget that task/epic specs may take */
+const MAX_SPEC_SHARE = 0.25;
+
+/**
+ * Format task/epic specs as XML sections, truncating spec content to fit
+ *
+ * Specs are taken in order (task first), so an epic spec is truncated
+ * before its task's spec.
+ */
+function fitSpecs(specs: TaskSpecResult[], maxTokens: number, counter: TokenCounter): string {
+  const sections: string[] = [];
+  let remaining = maxTokens;
+
+  for (const spec of specs) {
+    if (!spec.found || !spec.content) continue;
+    const tag = isTaskId(spec.taskId) ? "task_spec" : "epic_spec";
+    let content = escapeXml(spec.content.trim());
+
+    const overhead = countTokens(`<${tag}>\n\n</${tag}>\n`, counter);
+    if (overhead + countTokens(content, counter) > remaining) {
+      content = truncateToTokens(content, remaining - overhead, counter);
+    }
+    if (!content) break;
+
+    const xml = formatSpecXml({ ...spec, content }, tag);
+    sections.push(xml);
+    remaining -= countTokens(`${xml}\n`, counter);
+  }
+
+  return sections.join("\n");
+}
+
+/**
+ * Format context hints as a <context_hints> section
+ */
+function formatContextHints(hints: ContextHint[]): string {
+  return `<context_hints>\n  ${escapeXml(formatHints(hints)).replace(/\n/g, "\n  ")}\n</context_hints>`;
+}
+
+/** Largest share of the available budget that expansion snippets may take */
+const MAX_SNIPPET_SHARE = 0.2;
+
+/**
+ * Format an expansion snippet as a <snippet> element
+ *
+ * Code is left unindented, like full files.
+ */
+function formatSnippet(snippet: RelatedSnippet): string {
+  return [
+    `    <snippet path="${escapeXml(snippet.path)}" symbol="${escapeXml(snippet.name)}" ` +
+      `lines="${snippet.start}-${snippet.end}" relation="${snippet.relation}" via="${escapeXml(snippet.via.join(", "))}">`,
+    escapeXml(snippet.code),
+    "    </snippet>",
+  ].join("\n");
+}
+
+/**
+ * Fit expansion snippets into a token budget, in order
+ */
+function fitSnippets(
+  snippets: RelatedSnippet[],
+  maxTokens: number,
+  counter: TokenCounter,
+): { snippets: RelatedSnippet[]; tokens: number } {
+  const kept: RelatedSnippet[] = [];
+  let tokens = 0;
+
+  for (const snippet of snippets) {
+    const snippetTokens = countTokens(formatSnippet(snippet), counter);
+    if (tokens + snippetTokens <= maxTokens) {
+      kept.push(snippet);
+      tokens += snippetTokens;
+    }
+  }
+
+  return { snippets: kept, tokens };
+}
+
+/**
+ * Format the diff stat, commits and changed files as XML sections
+ */
+function formatDiffContext(context: GitDiffContext): string {
+  return formatDiffContextXml({
+    ...context,
+    diffStat: escapeXml(context.diffStat),
+    commits: context.commits.map(escapeXml),
+    changedFiles: context.changedFiles.map(escapeXml),
+  });
+}
+
+/**
+ * Fit the diff context into a token budget
+ *
+ * Changed files go first (the diff lists them too), then the oldest
+ * commits, then the diff stat.
+ *
+ * @returns The fitted context, or undefined if nothing fits
+ */
+function fitDiffContext(
+  context: GitDiffContext,
+  maxTokens: number,
+  counter: TokenCounter,
+): GitDiffContext | undefined {
+  const fitted = { ...context, commits: [...context.commits], changedFiles: [...context.changedFiles] };
+  const lists = [fitted.changedFiles, fitted.commits];
+
+  // Estimate from per-line counts first, then drop lines until the
+  // formatted sections really fit
+  let tokens = countTokens(formatDiffContext(fitted), counter);
+  for (const list of lists) {
+    while (tokens > maxTokens && list.length > 0) {
+      tokens -= countTokens(`${escapeXml(list.pop()!)}\n`, counter);
+    }
+  }
+
+  let text = formatDiffContext(fitted);
+  while (text && countTokens(text, counter) > maxTokens) {
+    const list = lists.find((l) => l.length > 0);
+    if (list) {
+      list.pop();
+    } else {
+      fitted.diffStat = "";
+    }
+    text = formatDiffContext(fitted);
+  }
+
+  return text ? fitted : undefined;
+}
+
+/**
+ * Roots for a project path (a single root) or the given roots
+ */
+function asRoots(projectPath: string | ContextRoots): ContextRoots {
+  return typeof projectPath === "string" ? new ContextRoots([projectPath]) : projectPath;
+}
+
 /**
  * Build a context plan that fits within the token budget.
  * Now async because extractCodeMap uses tldr.
+ *
+ * `gitDiff` is either the unified diff text or, in the hunk diff format,
+ * per-file diffs. Large changed files whose file diff covers their
+ * changed symbols are then left to the file diff. The diff context
+ * (stat, commits, changed files) is fitted first and shares the diff's
+ * budget. `projectPath` is the project root, or the roots of a multi-root
+ * window.
  */
 export async function buildContextPlan(
   rankedFiles: RankedFile[],
   budget: TokenBudget,
   tldr: TldrClient,
-  projectPath: string,
-  gitDiff?: string,
+  projectPath: string | ContextRoots,
+  gitDiff?: string | FileDiffContext[],
+  counter: TokenCounter = getDefaultTokenCounter(),
+  diffContext?: GitDiffContext,
 ): Promise<ContextPlan> {
+  const roots = asRoots(projectPath);
+
   // Sort by priority (highest first)
   const sorted = [...rankedFiles].sort((a, b) => b.priority - a.priority);
 
@@ -190,31 +486,74 @@ export async function buildContextPlan(
   const codeMappedFiles: Array<{ file: RankedFile; codeMap: CodeMap }> = [];
   const excludedFiles: RankedFile[] = [];
 
-  // Reserve tokens for git diff if present
-  const gitDiffTokens = gitDiff ? estimateTokens(gitDiff) : 0;
+  const split = budget.split ? normalizeSplit(budget.split) : undefined;
+
+  // Reserve tokens for the diff context first (it's small and carries intent)
+  const diffShare = split ? Math.floor(budget.availableTokens * split.diff) : budget.availableTokens;
+  const fittedContext = diffContext ? fitDiffContext(diffContext, diffShare, counter) : undefined;
+  const contextTokens = fittedContext ? countTokens(formatDiffContext(fittedContext), counter) : 0;
+  const diffBudget = diffShare - contextTokens;
+
+  // Reserve tokens for git diff if present (truncated to its share when split)
+  let diff = typeof gitDiff === "string" ? gitDiff : undefined;
+  let gitDiffTokens = diff ? countTokens(diff, counter) : 0;
+  if (diff && split) {
+    if (gitDiffTokens > diffBudget) {
+      diff = truncateToTokens(diff, diffBudget, counter);
+      gitDiffTokens = countTokens(diff, counter);
+    }
+  }
+
+  // File diffs are kept whole, dropping the ones that don't fit
+  let fileDiffs: FileDiffContext[] | undefined;
+  if (Array.isArray(gitDiff)) {
+    const fitted = fitFileDiffs(gitDiff, diffBudget, counter);
+    fileDiffs = fitted.fileDiffs;
+    gitDiffTokens = fitted.tokens;
+  }
+  gitDiffTokens += contextTokens;
+  const diffOnlyPaths = new Set(
+    (fileDiffs ?? []).filter((f) => f.symbols.length > 0).map((f) => f.path)
+  );
+
   let availableTokens = budget.availableTokens - gitDiffTokens;
   let usedTokens = gitDiffTokens;
 
+  // Full files may use everything except the code map share
+  const codeMapReserve = split ? Math.floor(budget.availableTokens * split.codeMaps) : 0;
+  let fullFileTokens = availableTokens - codeMapReserve;
+
   for (const file of sorted) {
+    // Large changed files are reviewed through their changed symbols
+    if (
+      file.isChanged &&
+      file.fullTokens > DIFF_ONLY_FILE_TOKENS &&
+      diffOnlyPaths.has(roots.displayPath(file.path))
+    ) {
+      continue;
+    }
+
     // Changed files should always be included with full content if possible
-    if (file.isChanged && file.fullTokens <= availableTokens) {
+    if (file.isChanged && !file.codeMapOnly && file.fullTokens <= fullFileTokens) {
       fullFiles.push(file);
       usedTokens += file.fullTokens;
       availableTokens -= file.fullTokens;
+      fullFileTokens -= file.fullTokens;
       continue;
     }
 
     // Try to include full content
-    if (file.fullTokens <= availableTokens) {
+    if (!file.codeMapOnly && file.fullTokens <= fullFileTokens) {
       fullFiles.push(file);
       usedTokens += file.fullTokens;
       availableTokens -= file.fullTokens;
+      fullFileTokens -= file.fullTokens;
       continue;
     }
 
     // Try code map (async with tldr)
-    const codeMap = await extractCodeMap(file.path, file.content, tldr, projectPath);
-    const codeMapTokens = estimateTokens(formatCodeMap(codeMap));
+    const codeMap = await extractCodeMap(file.path, file.content, tldr, roots.rootOf(file.path).path);
+    const codeMapTokens = estimateCodeMapTokens(codeMap, counter);
 
     if (codeMapTokens <= availableTokens) {
       codeMappedFiles.push({ file, codeMap });
@@ -231,21 +570,31 @@ export async function buildContextPlan(
     fullFiles,
     codeMappedFiles,
     excludedFiles,
-    totalTokens: usedTokens + budget.skillTokens + budget.userPromptTokens,
+    ignoredFiles: [],
+    totalTokens:
+      usedTokens +
+      budget.skillTokens +
+      budget.userPromptTokens +
+      (budget.specTokens ?? 0) +
+      (budget.hintTokens ?? 0) +
+      (budget.snippetTokens ?? 0),
     budget,
-    gitDiff,
+    gitDiff: diff,
+    fileDiffs,
+    diffContext: fittedContext,
+    tokenizer: counter.name,
   };
 }
 
 /**
  * Build file tree string from file paths
  */
-function buildFileTree(paths: string[], rootPath: string): string {
+function buildFileTree(paths: string[], roots: ContextRoots): string {
   // Group files by directory
   const dirs = new Map<string, string[]>();
 
   for (const path of paths) {
-    const relPath = relative(rootPath, path);
+    const relPath = roots.displayPath(path);
     const dir = dirname(relPath);
     const file = basename(relPath);
 
@@ -272,11 +621,41 @@ function buildFileTree(paths: string[], rootPath: string): string {
   return lines.join("\n");
 }
 
+/**
+ * Format a file diff as a <file_diff> element
+ *
+ * Hunks and symbol code are left unindented, like full files.
+ */
+function formatFileDiff(fileDiff: FileDiffContext): string {
+  const lines: string[] = [];
+  const oldPath = fileDiff.oldPath ? ` old_path="${escapeXml(fileDiff.oldPath)}"` : "";
+  lines.push(`    <file_diff path="${escapeXml(fileDiff.path)}" status="${fileDiff.status}"${oldPath}>`);
+
+  for (const hunk of fileDiff.hunks) {
+    lines.push("      <hunk>");
+    lines.push(escapeXml([hunk.header, ...hunk.lines].join("\n")));
+    lines.push("      </hunk>");
+  }
+
+  for (const symbol of fileDiff.symbols) {
+    lines.push(
+      `      <symbol name="${escapeXml(symbol.name)}" type="${symbol.type}" lines="${symbol.start}-${symbol.end}">`
+    );
+    lines.push(escapeXml(symbol.code));
+    lines.push("      </symbol>");
+  }
+
+  lines.push("    </file_diff>");
+  return lines.join("\n");
+}
+
 /**
  * Build XML context from a context plan
  *
  * Format (RepoPrompt-compatible):
  * <context>
+ *   <task_spec>...</task_spec>
+ *   <epic_spec>...</epic_spec>
  *   <file_tree>...</file_tree>
  *   <codemaps>
  *     <codemap path="...">...</codemap>
@@ -284,22 +663,47 @@ function buildFileTree(paths: string[], rootPath: string): string {
  *   <files>
  *     <file path="...">...</file>
  *   </files>
+ *   <related_code>  (impact expansion, snippet format)
+ *     <snippet path="..." symbol="..." lines="..." relation="..." via="...">...</snippet>
+ *   </related_code>
+ *   <diff_summary>...</diff_summary>
+ *   <commits>...</commits>
+ *   <changed_files>...</changed_files>
+ *   <context_hints>...</context_hints>
  *   <git_diff>...</git_diff>
+ *   <file_diffs>  (hunk diff format, instead of git_diff)
+ *     <file_diff path="..." status="...">
+ *       <hunk>...</hunk>
+ *       <symbol name="..." type="..." lines="...">...</symbol>
+ *     </file_diff>
+ *   </file_diffs>
  *   <prompt>...</prompt>
  * </context>
  */
-export function buildContextXml(plan: ContextPlan, prompt: string, rootPath: string): string {
+export function buildContextXml(plan: ContextPlan, prompt: string, rootPath: string | ContextRoots): string {
+  const roots = asRoots(rootPath);
   const lines: string[] = [];
   lines.push('<?xml version="1.0" encoding="UTF-8"?>');
   lines.push("<context>");
 
-  // File tree (all files, including code-mapped and full)
+  // Task and epic specs first: they say what the change should do
+  if (plan.specXml) {
+    lines.push(`  ${plan.specXml.replace(/\n/g, "\n  ")}`);
+  }
+
+  // File tree (all files, including code-mapped, full and diff-only)
   const allPaths = [
     ...plan.fullFiles.map((f) => f.path),
     ...plan.codeMappedFiles.map((f) => f.file.path),
   ];
+  for (const fileDiff of plan.fileDiffs ?? []) {
+    const path = roots.absolutePath(fileDiff.path);
+    if (fileDiff.status !== "deleted" && !allPaths.includes(path)) {
+      allPaths.push(path);
+    }
+  }
   if (allPaths.length > 0) {
-    const fileTree = buildFileTree(allPaths, rootPath);
+    const fileTree = buildFileTree(allPaths, roots);
     lines.push("  <file_tree>");
     lines.push(`    ${escapeXml(fileTree).replace(/\n/g, "\n    ")}`);
     lines.push("  </file_tree>");
@@ -309,8 +713,9 @@ export function buildContextXml(plan: ContextPlan, prompt: string, rootPath: str
   if (plan.codeMappedFiles.length > 0) {
     lines.push("  <codemaps>");
     for (const { file, codeMap } of plan.codeMappedFiles) {
-      const relPath = relative(rootPath, file.path);
-      lines.push(`    <codemap path="${escapeXml(relPath)}">`);
+      const relPath = roots.displayPath(file.path);
+      const expanded = file.expanded ? ` expanded="${file.expanded}"` : "";
+      lines.push(`    <codemap path="${escapeXml(relPath)}"${expanded}>`);
       lines.push(`      ${escapeXml(formatCodeMap(codeMap)).replace(/\n/g, "\n      ")}`);
       lines.push("    </codemap>");
     }
@@ -321,7 +726,7 @@ export function buildContextXml(plan: ContextPlan, prompt: string, rootPath: str
   if (plan.fullFiles.length > 0) {
     lines.push("  <files>");
     for (const file of plan.fullFiles) {
-      const relPath = relative(rootPath, file.path);
+      const relPath = roots.displayPath(file.path);
       const changed = file.isChanged ? ' changed="true"' : "";
       lines.push(`    <file path="${escapeXml(relPath)}"${changed}>`);
       lines.push(escapeXml(file.content));
@@ -330,6 +735,25 @@ export function buildContextXml(plan: ContextPlan, prompt: string, rootPath: str
     lines.push("  </files>");
   }
 
+  // Symbol code from unselected callers and callees
+  if (plan.snippets && plan.snippets.length > 0) {
+    lines.push("  <related_code>");
+    for (const snippet of plan.snippets) {
+      lines.push(formatSnippet(snippet));
+    }
+    lines.push("  </related_code>");
+  }
+
+  // Git history: diff stat, commit messages and changed files
+  if (plan.diffContext) {
+    lines.push(`  ${formatDiffContext(plan.diffContext).replace(/\n/g, "\n  ")}`);
+  }
+
+  // Context hints: untouched code that depends on (or resembles) the change
+  if (plan.contextHints && plan.contextHints.length > 0) {
+    lines.push(`  ${formatContextHints(plan.contextHints).replace(/\n/g, "\n  ")}`);
+  }
+
   // Git diff
   if (plan.gitDiff) {
     lines.push("  <git_diff>");
@@ -337,6 +761,15 @@ export function buildContextXml(plan: ContextPlan, prompt: string, rootPath: str
     lines.push("  </git_diff>");
   }
 
+  // Per-file diffs (hunk diff format)
+  if (plan.fileDiffs && plan.fileDiffs.length > 0) {
+    lines.push("  <file_diffs>");
+    for (const fileDiff of plan.fileDiffs) {
+      lines.push(formatFileDiff(fileDiff));
+    }
+    lines.push("  </file_diffs>");
+  }
+
   // Prompt
   lines.push("  <prompt>");
   lines.push(`    ${escapeXml(prompt)}`);
@@ -346,6 +779,163 @@ export function buildContextXml(plan: ContextPlan, prompt: string, rootPath: str
   return lines.join("\n");
 }
 
+/**
+ * Find files that call symbols defined in the given files
+ *
+ * Looks up the first 10 symbols of each file with tldr structure, then
+ * their direct callers with tldr impact. Failures are skipped, so this
+ * returns an empty set when tldr isn't available.
+ *
+ * @param files - Files to find callers of (relative to rootPath or absolute)
+ * @param rootPath - Project root
+ * @param tldr - TldrClient instance
+ * @param ignore - Ignore rules (ignored callers are left out)
+ * @returns Caller file paths as reported by tldr
+ */
+export async function getImpactedFiles(
+  files: Iterable<string>,
+  rootPath: string,
+  tldr: TldrClient,
+  ignore?: IgnoreMatcher,
+): Promise<Set<string>> {
+  const impacted = new Set<string>();
+  try {
+    for (const file of files) {
+      const entries = await tldr.structure(file, rootPath);
+      for (const entry of entries.slice(0, 10)) {
+        // Limit to 10 symbols per file
+        try {
+          const impact = await tldr.impact(entry.name, rootPath);
+          for (const caller of impact.callers) {
+            if (!ignore?.ignores(caller.file)) {
+              impacted.add(caller.file);
+            }
+          }
+        } catch {
+          // Skip symbols without impact data
+        }
+      }
+    }
+  } catch {
+    // If impact analysis fails, proceed without it
+  }
+  return impacted;
+}
+
+/**
+ * Generate context hints for the changed files
+ *
+ * Changed files that aren't selected are read from disk. Hints for
+ * ignored files are dropped.
+ *
+ * @param changedFiles - Changed paths (relative to rootPath)
+ * @param files - Selected files with their content
+ * @param rootPath - Project root
+ * @param tldr - TldrClient instance
+ * @param ignore - Ignore rules
+ * @param config - Hint settings (no hints when undefined)
+ */
+async function getContextHints(
+  changedFiles: Set<string>,
+  files: Array<{ path: string; content: string }>,
+  rootPath: string,
+  tldr: TldrClient,
+  ignore: IgnoreMatcher | undefined,
+  config: Partial<ContextHintsConfig> | undefined,
+): Promise<ContextHint[]> {
+  const maxHints = config?.maxHints ?? DEFAULT_CONTEXT_HINTS.maxHints;
+  if (!config || maxHints <= 0 || changedFiles.size === 0) {
+    return [];
+  }
+
+  const fileContents = new Map(files.map((f) => [relative(rootPath, f.path), f.content]));
+  for (const path of changedFiles) {
+    if (fileContents.has(path)) continue;
+    try {
+      fileContents.set(path, await Bun.file(join(rootPath, path)).text());
+    } catch {
+      // Deleted or unreadable: no symbols to hint from
+    }
+  }
+
+  const hints = await generateContextHints(
+    { changedFiles: [...changedFiles], fileContents, maxHints },
+    tldr,
+    rootPath,
+  );
+  return hints.filter((hint) => !ignore?.ignores(hint.file));
+}
+
+/**
+ * Read files (hinted or expanded) that aren't already selected
+ *
+ * @param paths - Absolute paths
+ * @param files - Files already in the context
+ * @param roots - Review roots
+ * @returns Files with absolute paths, skipping unreadable ones and ones
+ *   outside every root
+ */
+async function readUnselectedFiles(
+  paths: string[],
+  files: Array<{ path: string; content: string }>,
+  roots: ContextRoots,
+): Promise<Array<{ path: string; content: string }>> {
+  const selected = new Set(files.map((f) => resolve(f.path)));
+  const unselected: Array<{ path: string; content: string }> = [];
+
+  for (const path of new Set(paths)) {
+    if (roots.displayPath(path).startsWith("..") || selected.has(path)) continue;
+    selected.add(path);
+    try {
+      unselected.push({ path, content: await Bun.file(path).text() });
+    } catch {
+      // Missing or unreadable
+    }
+  }
+
+  return unselected;
+}
+
+/**
+ * Merge the diff context of each root
+ *
+ * With several roots, changed files get their root's label, commits are
+ * prefixed with it, and the diff stat gets a section per root. The branch
+ * is the primary root's.
+ */
+function mergeDiffContexts(
+  contexts: Array<{ root: ContextRoot; context: GitDiffContext }>,
+  roots: ContextRoots,
+): GitDiffContext {
+  if (!roots.isMulti) {
+    return contexts[0].context;
+  }
+
+  return {
+    diffStat: contexts
+      .filter(({ context }) => context.diffStat)
+      .map(({ root, context }) => `${root.label}/\n${context.diffStat}`)
+      .join("\n\n"),
+    commits: contexts.flatMap(({ root, context }) => context.commits.map((c) => `${root.label}: ${c}`)),
+    changedFiles: contexts.flatMap(({ root, context }) =>
+      context.changedFiles.map((f) => roots.displayPathIn(root, f))
+    ),
+    branch: contexts[0].context.branch,
+  };
+}
+
+/** Changes of one root, as reviewed */
+interface RootChanges {
+  root: ContextRoot;
+  git: GitService;
+  /** Diff source, adapted to the root's repository */
+  source: DiffSource;
+  /** Changed paths, relative to the root */
+  changed: string[];
+  /** Changed paths left out by the root's ignore rules */
+  ignored: string[];
+}
+
 /**
  * Build optimized context for a set of files
  *
@@ -361,10 +951,29 @@ export async function buildOptimizedContext(
   skillPrompt: string,
   options: {
     maxTokens?: number;
+    budgetSplit?: BudgetSplit;
+    rankingWeights?: RankingWeights;
+    /** Base ref for the default diff (working tree vs base, default: detected) */
     baseBranch?: string;
+    /** Changes to review (overrides baseBranch) */
+    diff?: DiffSource;
+    /** Project root (the primary root when `roots` is given) */
     rootPath?: string;
+    /** Root folders of a multi-root window (default: rootPath only) */
+    roots?: ContextRoots;
     includeGitDiff?: boolean;
+    /** How the git diff is included (default: "unified") */
+    diffFormat?: DiffFormat;
     tldr: TldrClient;
+    tokenCounter?: TokenCounter;
+    /** Ignore rules applied to files, the changed set and the diff (per root with `roots`) */
+    ignore?: IgnoreMatcher;
+    /** Task spec and parent epic spec (reserved up to a quarter of the budget) */
+    specs?: TaskSpecResult[];
+    /** Context hints for the changed files (default: no hints) */
+    hints?: Partial<ContextHintsConfig>;
+    /** Add unselected callers/callees of the change (default: no expansion) */
+    expand?: Partial<ExpansionConfig>;
   },
 ): Promise<{
   xml: string;
@@ -372,56 +981,198 @@ export async function buildOptimizedContext(
 }> {
   const maxTokens = options.maxTokens || 50_000;
   const rootPath = options.rootPath || process.cwd();
+  const roots = options.roots ?? new ContextRoots([{ path: rootPath, ignore: options.ignore }]);
+  const counter = options.tokenCounter || getDefaultTokenCounter();
 
   // Calculate budget
-  const skillTokens = estimateTokens(skillPrompt);
-  const userPromptTokens = estimateTokens(prompt);
-  const availableTokens = maxTokens - skillTokens - userPromptTokens;
+  const skillTokens = countTokens(skillPrompt, counter);
+  const userPromptTokens = countTokens(prompt, counter);
+  const specXml = fitSpecs(options.specs ?? [], Math.floor(maxTokens * MAX_SPEC_SHARE), counter);
+  const specTokens = specXml ? countTokens(specXml, counter) : 0;
+
+  // Drop ignored files before ranking
+  const ignoredFiles = files.filter((f) => roots.ignores(f.path)).map((f) => f.path);
+  const includedFiles = files.filter((f) => !roots.ignores(f.path));
+
+  // Get changed files in each root (without ignored paths). Other roots
+  // review their own source, else the primary root's where their refs
+  // allow it.
+  const primaryGit = new GitService(roots.primary.path);
+  const primarySource = options.diff ?? (await primaryGit.resolveSource(options.baseBranch));
+  const changes: RootChanges[] = [];
+  for (const root of roots.roots) {
+    const git = root === roots.primary ? primaryGit : new GitService(root.path);
+    const source = root === roots.primary
+      ? primarySource
+      : root.diff ?? (await git.adaptSource(primarySource));
+    const all = await git.changedFiles(source);
+    const ignored = all.filter((f) => root.ignore?.ignores(f));
+    changes.push({ root, git, source, changed: all.filter((f) => !ignored.includes(f)), ignored });
+  }
+
+  // Changed (and later impacted) files are matched by absolute path
+  const changedFiles = new Set(
+    changes.flatMap(({ root, changed }) => changed.map((f) => resolve(root.path, f)))
+  );
+
+  // Git diff and history of every root. Hunk format: split each diff per
+  // file, with the symbols each hunk touches.
+  let gitDiff: string | FileDiffContext[] | undefined;
+  let diffContext: GitDiffContext | undefined;
+  if (options.includeGitDiff) {
+    const diffs: string[] = [];
+    const fileDiffs: FileDiffContext[] = [];
+    const contexts: Array<{ root: ContextRoot; context: GitDiffContext }> = [];
+
+    for (const { root, git, source, ignored } of changes) {
+      contexts.push({ root, context: await git.diffContext(source, ignored) });
+
+      if (options.diffFormat === "hunks") {
+        const diff = await git.diff(source, ignored);
+        if (!diff) continue;
+        diffs.push(diff);
+        const contents = new Map(
+          includedFiles
+            .filter((f) => roots.rootOf(f.path) === root)
+            .map((f) => [relative(root.path, f.path), f.content])
+        );
+        for (const fileDiff of await buildFileDiffs(diff, root.path, options.tldr, contents)) {
+          fileDiffs.push({
+            ...fileDiff,
+            path: roots.displayPathIn(root, fileDiff.path),
+            oldPath: fileDiff.oldPath && roots.displayPathIn(root, fileDiff.oldPath),
+          });
+        }
+      } else {
+        const diff = await git.diff(source, ignored, roots.isMulti ? root.label : undefined);
+        if (diff) diffs.push(diff);
+      }
+    }
+
+    gitDiff = options.diffFormat === "hunks" && diffs.length > 0 ? fileDiffs : diffs.join("\n");
+    diffContext = mergeDiffContexts(contexts, roots);
+  }
+
+  // Context hints: callers and semantically related code outside the change
+  const hints: ContextHint[] = [];
+  for (const { root, changed } of changes) {
+    const rootHints = await getContextHints(
+      new Set(changed),
+      includedFiles.filter((f) => roots.rootOf(f.path) === root),
+      root.path,
+      options.tldr,
+      root.ignore,
+      options.hints,
+    );
+    hints.push(...rootHints.map((hint) => ({ ...hint, file: roots.displayPathIn(root, hint.file) })));
+  }
+  if (roots.isMulti) {
+    hints.sort((a, b) => b.refCount - a.refCount);
+    hints.splice(options.hints?.maxHints ?? DEFAULT_CONTEXT_HINTS.maxHints);
+  }
+  const hintTokens = hints.length > 0 ? countTokens(formatContextHints(hints), counter) : 0;
+  let availableTokens = maxTokens - skillTokens - userPromptTokens - specTokens - hintTokens;
+
+  // Impact expansion: unselected callers (and callees) of the change, up
+  // to maxFiles across all roots. Snippets are reserved from their share
+  // of the budget; files without snippets, and every file in the code map
+  // format, become code maps.
+  const expansion = options.expand ? { ...DEFAULT_EXPANSION, ...options.expand } : undefined;
+  const expanded: ExpandedFile[] = [];
+  const relatedSnippets: RelatedSnippet[] = [];
+  if (expansion) {
+    for (const { root, changed } of changes) {
+      const rootExpanded = await expandImpact(
+        changed,
+        new Set(includedFiles.map((f) => relative(root.path, f.path))),
+        root.path,
+        options.tldr,
+        { ...expansion, maxFiles: expansion.maxFiles - expanded.length },
+        root.ignore,
+      );
+      if (expansion.format === "snippets" && rootExpanded.length > 0) {
+        const rootSnippets = await extractSnippets(rootExpanded, root.path, options.tldr);
+        relatedSnippets.push(...rootSnippets.map((s) => ({ ...s, path: roots.displayPathIn(root, s.path) })));
+      }
+      expanded.push(...rootExpanded.map((f) => ({ ...f, path: roots.displayPathIn(root, f.path) })));
+    }
+  }
+  let snippets: RelatedSnippet[] = [];
+  let snippetTokens = 0;
+  if (relatedSnippets.length > 0) {
+    const fitted = fitSnippets(relatedSnippets, Math.floor(availableTokens * MAX_SNIPPET_SHARE), counter);
+    snippets = fitted.snippets;
+    snippetTokens = fitted.tokens;
+    availableTokens -= snippetTokens;
+  }
+  const snippetPaths = new Set(snippets.map((s) => s.path));
 
   const budget: TokenBudget = {
     maxTokens,
     skillTokens,
     userPromptTokens,
+    specTokens,
+    hintTokens,
+    snippetTokens,
     availableTokens,
+    split: options.budgetSplit,
   };
 
-  // Get changed files and git diff
-  const changedFiles = await getChangedFiles(options.baseBranch);
-  const gitDiff = options.includeGitDiff ? await getGitDiff(options.baseBranch) : undefined;
-
   // Get impacted files from tldr (call graph of changed symbols)
-  let impactedFiles: Set<string> | undefined;
-  try {
-    const impacted = new Set<string>();
-    for (const changedFile of changedFiles) {
-      const entries = await options.tldr.structure(changedFile, rootPath);
-      for (const entry of entries.slice(0, 10)) {
-        // Limit to 10 symbols per file
-        try {
-          const impact = await options.tldr.impact(entry.name, rootPath);
-          for (const caller of impact.callers) {
-            impacted.add(caller.file);
-          }
-        } catch {
-          // Skip symbols without impact data
-        }
-      }
+  const impacted = new Set<string>();
+  for (const { root, changed } of changes) {
+    for (const file of await getImpactedFiles(changed, root.path, options.tldr, root.ignore)) {
+      impacted.add(resolve(root.path, file));
     }
-    if (impacted.size > 0) {
-      impactedFiles = impacted;
-    }
-  } catch {
-    // If impact analysis fails, proceed without it
   }
+  const impactedFiles = impacted.size > 0 ? impacted : undefined;
 
-  // Rank files (with impact data)
-  const rankedFiles = rankFiles(files, changedFiles, rootPath, impactedFiles);
+  // Rank files (with impact data), plus hinted and expanded files as code maps
+  const hintedFiles = options.hints?.codeMaps
+    ? await readUnselectedFiles(hints.map((h) => roots.absolutePath(h.file)), includedFiles, roots)
+    : [];
+  const expandedFiles = await readUnselectedFiles(
+    expanded.filter((f) => !snippetPaths.has(f.path)).map((f) => roots.absolutePath(f.path)),
+    [...includedFiles, ...hintedFiles],
+    roots,
+  );
+  const relations = new Map(expanded.map((f) => [f.path, f.relation]));
+  const rankedFiles = [
+    ...rankFiles(includedFiles, changedFiles, roots.primary.path, impactedFiles, counter, options.rankingWeights),
+    ...rankFiles(hintedFiles, changedFiles, roots.primary.path, impactedFiles, counter, options.rankingWeights)
+      .map((file) => ({ ...file, codeMapOnly: true })),
+    ...rankFiles(expandedFiles, changedFiles, roots.primary.path, impactedFiles, counter, options.rankingWeights)
+      .map((file) => ({ ...file, codeMapOnly: true, expanded: relations.get(roots.displayPath(file.path)) })),
+  ];
 
   // Build plan (async — uses tldr for code maps)
-  const plan = await buildContextPlan(rankedFiles, budget, options.tldr, rootPath, gitDiff);
+  const plan = await buildContextPlan(
+    rankedFiles,
+    budget,
+    options.tldr,
+    roots,
+    gitDiff,
+    counter,
+    diffContext,
+  );
+  plan.ignoredFiles = [...new Set([
+    ...ignoredFiles.map((path) => roots.displayPath(path)),
+    ...changes.flatMap(({ root, ignored }) => ignored.map((f) => roots.displayPathIn(root, f))),
+  ])];
+  plan.specXml = specXml || undefined;
+  plan.contextHints = hints.length > 0 ? hints : undefined;
+  if (expansion) {
+    // Only the expanded files that made it into the context
+    const included = new Set(snippetPaths);
+    for (const { file } of plan.codeMappedFiles) {
+      if (file.expanded) included.add(roots.displayPath(file.path));
+    }
+    plan.expandedFiles = expanded.filter((f) => included.has(f.path));
+    plan.snippets = snippets;
+  }
 
   // Build XML
-  const xml = buildContextXml(plan, prompt, rootPath);
+  const xml = buildContextXml(plan, prompt, roots);
 
   return { xml, plan };
 }
@@ -432,10 +1183,23 @@ export async function buildOptimizedContext(
 export function formatContextPlanSummary(plan: ContextPlan): string {
   const lines: string[] = [];
   lines.push("Context Plan:");
-  lines.push(`  Total tokens: ~${Math.round(plan.totalTokens / 1000)}k / ${Math.round(plan.budget.maxTokens / 1000)}k`);
+  lines.push(`  Total tokens: ~${Math.round(plan.totalTokens / 1000)}k / ${Math.round(plan.budget.maxTokens / 1000)}k (${plan.tokenizer} tokenizer)`);
   lines.push(`  Full files: ${plan.fullFiles.length}`);
   lines.push(`  Code maps: ${plan.codeMappedFiles.length}`);
+  if (plan.fileDiffs) {
+    lines.push(`  File diffs: ${plan.fileDiffs.length}`);
+  }
+  if (plan.budget.specTokens) {
+    lines.push(`  Specs: ~${plan.budget.specTokens} tokens`);
+  }
+  if (plan.contextHints) {
+    lines.push(`  Hints: ${plan.contextHints.length}`);
+  }
+  if (plan.expandedFiles) {
+    lines.push(`  Expanded: ${plan.expandedFiles.length} (${plan.snippets?.length ?? 0} snippets)`);
+  }
   lines.push(`  Excluded: ${plan.excludedFiles.length}`);
+  lines.push(`  Ignored: ${plan.ignoredFiles.length}`);
 
   if (plan.excludedFiles.length > 0) {
     lines.push("\n  Excluded files:");
@@ -447,5 +1211,15 @@ export function formatContextPlanSummary(plan: ContextPlan): string {
     }
   }
 
+  if (plan.ignoredFiles.length > 0) {
+    lines.push("\n  Ignored files:");
+    for (const path of plan.ignoredFiles.slice(0, 5)) {
+      lines.push(`    - ${path}`);
+    }
+    if (plan.ignoredFiles.length > 5) {
+      lines.push(`    ... and ${plan.ignoredFiles.length - 5} more`);
+    }
+  }
+
   return lines.join("\n");
 }
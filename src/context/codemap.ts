@@ -10,6 +10,7 @@
 
 import type { TldrClient } from "../tldr";
 import type { TldrStructureEntry } from "../tldr/types";
+import { countTokens, getDefaultTokenCounter, type TokenCounter } from "./tokens";
 
 /** Code map entry types */
 export type CodeMapEntryType =
@@ -173,8 +174,11 @@ export function formatCodeMap(codeMap: CodeMap): string {
 }
 
 /**
- * Estimate tokens for a code map
+ * Estimate tokens for a code map as it will appear in context
  */
-export function estimateCodeMapTokens(codeMap: CodeMap): number {
-  return Math.ceil(codeMap.mapSize / 4);
+export function estimateCodeMapTokens(
+  codeMap: CodeMap,
+  counter: TokenCounter = getDefaultTokenCounter(),
+): number {
+  return countTokens(formatCodeMap(codeMap), counter);
 }
@@ -0,0 +1,109 @@
+/**
+ * Tests for impact expansion
+ */
+
+import { describe, it, expect, mock, beforeAll, afterAll } from "bun:test";
+import { join } from "path";
+import { mkdir, writeFile, rm } from "fs/promises";
+import { expandImpact, extractSnippets, DEFAULT_EXPANSION } from "./expansion";
+import { IgnoreMatcher } from "./ignore";
+import { TldrClient } from "../tldr";
+import type { TldrImpactResult, TldrStructureEntry } from "../tldr/types";
+
+const ROOT = join(import.meta.dir, "..", "..", ".test-fixtures-expansion");
+
+/**
+ * Call graph: login (changed) <- handler <- route, login -> hash
+ */
+function createMockTldr(): TldrClient {
+  const structure: Record<string, TldrStructureEntry[]> = {
+    "src/auth.ts": [{ name: "login", type: "function", file: "src/auth.ts", line: 1 }],
+    "src/api.ts": [
+      { name: "setup", type: "function", file: "src/api.ts", line: 1 },
+      { name: "handler", type: "function", file: "src/api.ts", line: 5 },
+    ],
+  };
+  const impact: Record<string, TldrImpactResult> = {
+    login: {
+      function: "login",
+      callers: [{ name: "handler", file: "src/api.ts", line: 0 }],
+      callees: [{ name: "hash", file: "src/crypto.ts", line: 0 }],
+    },
+    handler: {
+      function: "handler",
+      callers: [{ name: "route", file: "src/routes.ts", line: 0 }],
+      callees: [],
+    },
+  };
+
+  const client = new TldrClient();
+  client.structure = mock((file: string) => Promise.resolve(structure[file] ?? []));
+  client.impact = mock((name: string) =>
+    impact[name] ? Promise.resolve(impact[name]) : Promise.reject(new Error("not found"))
+  );
+  return client;
+}
+
+describe("expandImpact", () => {
+  it("adds direct callers and callees", async () => {
+    const expanded = await expandImpact(["src/auth.ts"], new Set(), ROOT, createMockTldr(), DEFAULT_EXPANSION);
+
+    expect(expanded).toEqual([
+      { path: "src/api.ts", relation: "caller", depth: 1, symbols: ["handler"], via: ["login"] },
+      { path: "src/crypto.ts", relation: "callee", depth: 1, symbols: ["hash"], via: ["login"] },
+    ]);
+  });
+
+  it("follows callers up to the depth, through selected files", async () => {
+    const expanded = await expandImpact(
+      ["src/auth.ts"],
+      new Set(["src/api.ts"]),
+      ROOT,
+      createMockTldr(),
+      { ...DEFAULT_EXPANSION, depth: 2, callees: false },
+    );
+
+    expect(expanded.map((f) => [f.path, f.depth, f.via])).toEqual([["src/routes.ts", 2, ["handler"]]]);
+  });
+
+  it("stops at maxFiles and skips ignored files", async () => {
+    const tldr = createMockTldr();
+    const config = { ...DEFAULT_EXPANSION, depth: 2 };
+
+    const limited = await expandImpact(["src/auth.ts"], new Set(), ROOT, tldr, { ...config, maxFiles: 1 });
+    expect(limited.map((f) => f.path)).toEqual(["src/api.ts"]);
+
+    const ignore = new IgnoreMatcher(["src/crypto.ts"], ROOT);
+    const filtered = await expandImpact(["src/auth.ts"], new Set(), ROOT, tldr, config, ignore);
+    expect(filtered.map((f) => f.path)).toEqual(["src/api.ts", "src/routes.ts"]);
+  });
+});
+
+describe("extractSnippets", () => {
+  beforeAll(async () => {
+    await mkdir(join(ROOT, "src"), { recursive: true });
+    await writeFile(
+      join(ROOT, "src/api.ts"),
+      "export function setup() {\n  return 1;\n}\n\nexport function handler() {\n  return login();\n}\n"
+    );
+  });
+
+  afterAll(async () => {
+    await rm(ROOT, { recursive: true, force: true });
+  });
+
+  it("cuts out the calling symbols", async () => {
+    const snippets = await extractSnippets(
+      [
+        { path: "src/api.ts", relation: "caller", depth: 1, symbols: ["handler"], via: ["login"] },
+        { path: "src/missing.ts", relation: "caller", depth: 1, symbols: ["x"], via: ["login"] },
+      ],
+      ROOT,
+      createMockTldr(),
+    );
+
+    expect(snippets).toHaveLength(1);
+    expect(snippets[0]).toMatchObject({ path: "src/api.ts", name: "handler", start: 5, end: 7 });
+    expect(snippets[0].code).toBe("export function handler() {\n  return login();\n}");
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Impact expansion module
+ *
+ * Finds code outside the selection that the change can break: callers of
+ * changed symbols (and the definitions they call), walked through the
+ * tldr call graph up to a set depth. Expanded files are added to the
+ * review context as code maps or as focused snippets of the calling
+ * (or called) symbols.
+ *
+ * The walk starts from the first 10 symbols of each changed file, like
+ * impact-aware ranking. Deeper levels follow the callers found at the
+ * level before, so depth 2 adds callers of callers.
+ */
+
+import { join, relative, resolve } from "path";
+import { symbolRanges, type SymbolRange } from "./hunks";
+import type { IgnoreMatcher } from "./ignore";
+import type { TldrClient } from "../tldr";
+
+/**
+ * How expanded files are included
+ *
+ * - codemaps: signatures of the whole file
+ * - snippets: the code of the calling (or called) symbols only
+ */
+export type ExpansionFormat = "codemaps" | "snippets";
+
+/** Valid expansion formats (for config validation) */
+export const EXPANSION_FORMATS: readonly ExpansionFormat[] = ["codemaps", "snippets"];
+
+/** Impact expansion settings */
+export interface ExpansionConfig {
+  /** Call graph levels to follow (1 = direct callers) */
+  depth: number;
+  /** Maximum files to add */
+  maxFiles: number;
+  /** Also add the definitions changed symbols call */
+  callees: boolean;
+  /** How expanded files are included */
+  format: ExpansionFormat;
+}
+
+/** Default expansion settings */
+export const DEFAULT_EXPANSION: ExpansionConfig = {
+  depth: 1,
+  maxFiles: 10,
+  callees: true,
+  format: "codemaps",
+};
+
+/** A file outside the selection reached through the call graph */
+export interface ExpandedFile {
+  /** Path relative to the root */
+  path: string;
+  /** How the file relates to the change (as first reached) */
+  relation: "caller" | "callee";
+  /** Call graph level the file was first reached at */
+  depth: number;
+  /** Symbols in this file that call (or are called by) the change */
+  symbols: string[];
+  /** Symbols they were reached from */
+  via: string[];
+}
+
+/** Code of one symbol in an expanded file */
+export interface RelatedSnippet extends SymbolRange {
+  /** Path relative to the root */
+  path: string;
+  relation: ExpandedFile["relation"];
+  via: string[];
+  code: string;
+}
+
+/** Symbols per changed file that start the walk */
+const MAX_SEED_SYMBOLS = 10;
+
+/**
+ * Add a value to a list if it isn't there yet
+ */
+function addUnique(list: string[], value: string): void {
+  if (!list.includes(value)) list.push(value);
+}
+
+/**
+ * Walk the call graph out from the changed files
+ *
+ * Files in `selected`, ignored files and files outside the root are not
+ * added, but the walk still continues through selected files. Failed
+ * tldr lookups are skipped, so this returns [] when tldr isn't available.
+ *
+ * @param changedFiles - Changed paths (relative to rootPath)
+ * @param selected - Paths already in the context (relative to rootPath)
+ * @param rootPath - Project root
+ * @param tldr - TldrClient instance
+ * @param config - Expansion settings
+ * @param ignore - Ignore rules
+ * @returns Expanded files in discovery order (at most config.maxFiles)
+ */
+export async function expandImpact(
+  changedFiles: Iterable<string>,
+  selected: Set<string>,
+  rootPath: string,
+  tldr: TldrClient,
+  config: ExpansionConfig,
+  ignore?: IgnoreMatcher,
+): Promise<ExpandedFile[]> {
+  const expanded = new Map<string, ExpandedFile>();
+  const visited = new Set<string>();
+
+  // Level 0: symbols defined in the changed files
+  let frontier: string[] = [];
+  for (const file of changedFiles) {
+    try {
+      const entries = await tldr.structure(file, rootPath);
+      for (const entry of entries.slice(0, MAX_SEED_SYMBOLS)) {
+        addUnique(frontier, entry.name);
+      }
+    } catch {
+      // No structure for this file
+    }
+  }
+
+  const add = (
+    file: string,
+    symbol: string,
+    via: string,
+    relation: ExpandedFile["relation"],
+    depth: number,
+  ): boolean => {
+    const relPath = relative(rootPath, resolve(rootPath, file));
+    if (relPath.startsWith("..") || selected.has(relPath) || ignore?.ignores(relPath)) {
+      return false;
+    }
+
+    let entry = expanded.get(relPath);
+    if (!entry) {
+      if (expanded.size >= config.maxFiles) return false;
+      entry = { path: relPath, relation, depth, symbols: [], via: [] };
+      expanded.set(relPath, entry);
+    }
+    addUnique(entry.symbols, symbol);
+    addUnique(entry.via, via);
+    return true;
+  };
+
+  for (let depth = 1; depth <= config.depth && frontier.length > 0; depth++) {
+    const next: string[] = [];
+
+    for (const name of frontier) {
+      if (visited.has(name)) continue;
+      visited.add(name);
+
+      try {
+        const impact = await tldr.impact(name, rootPath);
+        for (const caller of impact.callers) {
+          add(caller.file, caller.name, name, "caller", depth);
+          addUnique(next, caller.name);
+        }
+        if (config.callees) {
+          for (const callee of impact.callees) {
+            add(callee.file, callee.name, name, "callee", depth);
+          }
+        }
+      } catch {
+        // Skip symbols without impact data
+      }
+    }
+
+    frontier = next;
+  }
+
+  return [...expanded.values()];
+}
+
+/**
+ * Extract the code of each expanded file's calling (or called) symbols
+ *
+ * Files whose symbols can't be found (no structure, unreadable file)
+ * get no snippets.
+ *
+ * @param expanded - Files from expandImpact
+ * @param rootPath - Project root
+ * @param tldr - TldrClient instance
+ * @returns Snippets in file order, then line order
+ */
+export async function extractSnippets(
+  expanded: ExpandedFile[],
+  rootPath: string,
+  tldr: TldrClient,
+): Promise<RelatedSnippet[]> {
+  const snippets: RelatedSnippet[] = [];
+
+  for (const file of expanded) {
+    try {
+      const lines = (await Bun.file(join(rootPath, file.path)).text()).split("\n");
+      const entries = await tldr.structure(file.path, rootPath);
+
+      for (const range of symbolRanges(entries, lines)) {
+        if (!file.symbols.includes(range.name)) continue;
+        snippets.push({
+          ...range,
+          path: file.path,
+          relation: file.relation,
+          via: file.via,
+          code: lines.slice(range.start - 1, range.end).join("\n"),
+        });
+      }
+    } catch {
+      // No snippets for this file
+    }
+  }
+
+  return snippets;
+}
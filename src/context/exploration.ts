@@ -15,9 +15,8 @@
  * - Unknown scope reviews
  */
 
-import { $ } from "bun";
-import { join } from "path";
-import { homedir } from "os";
+import { ClaudeCliBackend, type ReviewBackend } from "../backends";
+import { parseFindings, type Finding } from "./findings";
 
 /** Configuration for exploration review */
 export interface ExplorationConfig {
@@ -39,21 +38,12 @@ export interface ExplorationResult {
   review: string;
   /** Files that were examined */
   filesExamined: string[];
+  /** Structured findings parsed from the review */
+  findings: Finding[];
   /** Verdict */
   verdict: "SHIP" | "NEEDS_WORK" | "MAJOR_RETHINK";
 }
 
-/**
- * Get chats directory path
- */
-function getChatsDir(): string {
-  const xdgDataHome = process.env.XDG_DATA_HOME;
-  if (xdgDataHome) {
-    return join(xdgDataHome, "wdyt", "chats");
-  }
-  return join(homedir(), ".wdyt", "chats");
-}
-
 /**
  * Build the exploration system prompt
  *
@@ -173,29 +163,8 @@ The codebase is at: ${config.rootPath}
 Begin your exploration.`;
 }
 
-/**
- * Run Claude CLI with exploration mode (agentic, read-only)
- *
- * Uses normal claude mode (not -p) for tool access, but restricted
- * to read-only tools via --allowedTools to prevent modifications.
- */
-async function runExplorationClaude(prompt: string, rootPath: string): Promise<string> {
-  const tempPath = join(getChatsDir(), `exploration-${Date.now()}.txt`);
-  await Bun.write(tempPath, prompt);
-
-  try {
-    // Use agentic mode with read-only tools
-    // --allowedTools restricts to safe, read-only operations
-    // --no-session-persistence keeps it out of /resume history
-    const allowedTools = "Glob,Grep,Read,LS,Bash";
-    const result = await $`cd ${rootPath} && cat ${tempPath} | claude --no-session-persistence --allowedTools ${allowedTools}`.text();
-    await $`rm ${tempPath}`.quiet();
-    return result.trim();
-  } catch (error) {
-    await $`rm ${tempPath}`.quiet();
-    throw error;
-  }
-}
+/** Read-only tools the exploration agent may use */
+const EXPLORATION_TOOLS = ["Glob", "Grep", "Read", "LS", "Bash"];
 
 /**
  * Parse verdict from exploration output
@@ -222,10 +191,12 @@ function parseFilesExamined(output: string): string[] {
  * Run exploration-based review
  *
  * @param config - Exploration configuration
+ * @param backend - Review backend to run on (default: Claude CLI)
  * @returns Review result
  */
 export async function runExplorationReview(
-  config: ExplorationConfig
+  config: ExplorationConfig,
+  backend: ReviewBackend = new ClaudeCliBackend()
 ): Promise<ExplorationResult> {
   console.error(`Starting exploration review in ${config.rootPath}...`);
   console.error(`Focus: ${config.focus || "general"}`);
@@ -233,14 +204,20 @@ export async function runExplorationReview(
   const prompt = buildExplorationPrompt(config);
 
   try {
-    // Run with full agentic tool access
-    const output = await runExplorationClaude(prompt, config.rootPath);
+    // Run in agentic mode restricted to read-only tools
+    const output = await backend.run({
+      prompt,
+      cwd: config.rootPath,
+      allowedTools: EXPLORATION_TOOLS,
+    });
     const verdict = parseVerdict(output);
     const filesExamined = parseFilesExamined(output);
+    const findings = parseFindings(output, config.focus || "general");
 
     return {
       review: output,
       filesExamined,
+      findings,
       verdict,
     };
   } catch (error) {
@@ -248,6 +225,7 @@ export async function runExplorationReview(
     return {
       review: `Exploration failed: ${message}`,
       filesExamined: [],
+      findings: [],
       verdict: "NEEDS_WORK",
     };
   }
@@ -0,0 +1,71 @@
+/**
+ * Tests for the shared findings parser
+ */
+
+import { describe, it, expect } from "bun:test";
+import { parseFindings } from "./findings";
+
+describe("parseFindings", () => {
+  it("parses a complete finding", () => {
+    const output = `Some review text.
+
+<finding>
+  <severity>critical</severity>
+  <file>src/auth.ts</file>
+  <line>42</line>
+  <issue>Token compared with ==</issue>
+  <evidence>Timing attack possible</evidence>
+  <fix>Use timingSafeEqual</fix>
+</finding>
+
+<verdict>MAJOR_RETHINK</verdict>`;
+
+    expect(parseFindings(output, "security")).toEqual([
+      {
+        severity: "critical",
+        file: "src/auth.ts",
+        line: 42,
+        issue: "Token compared with ==",
+        evidence: "Timing attack possible",
+        fix: "Use timingSafeEqual",
+        focus: "security",
+      },
+    ]);
+  });
+
+  it("parses multiple findings in order", () => {
+    const output = `
+<finding><severity>minor</severity><file>a.ts</file><issue>First</issue></finding>
+<finding><severity>major</severity><file>b.ts</file><issue>Second</issue></finding>`;
+
+    const findings = parseFindings(output, "general");
+    expect(findings.map((f) => f.issue)).toEqual(["First", "Second"]);
+    expect(findings[0].line).toBeUndefined();
+  });
+
+  it("normalizes unknown severities to minor", () => {
+    const output = `<finding><severity>HIGH</severity><file>a.ts</file><issue>x</issue></finding>
+<finding><severity>Major</severity><file>b.ts</file><issue>y</issue></finding>`;
+
+    const findings = parseFindings(output, "general");
+    expect(findings[0].severity).toBe("minor");
+    expect(findings[1].severity).toBe("major");
+  });
+
+  it("skips blocks without a file or issue", () => {
+    const output = `<finding><severity>major</severity><issue>No file</issue></finding>
+<finding><severity>major</severity><file>a.ts</file></finding>`;
+
+    expect(parseFindings(output, "general")).toEqual([]);
+  });
+
+  it("lets a focus tag override the default focus", () => {
+    const output = `<finding><file>a.ts</file><issue>x</issue><focus>performance</focus></finding>`;
+    expect(parseFindings(output, "general")[0].focus).toBe("performance");
+  });
+
+  it("ignores non-numeric line values", () => {
+    const output = `<finding><file>a.ts</file><line>n/a</line><issue>x</issue></finding>`;
+    expect(parseFindings(output, "general")[0].line).toBeUndefined();
+  });
+});
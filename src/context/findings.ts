@@ -0,0 +1,107 @@
+/**
+ * Findings Parser Module
+ *
+ * Parses structured `<finding>` blocks out of review output. Every review
+ * mode (agentic, multi-pass, exploration) asks the model for this format,
+ * so downstream tooling gets typed findings regardless of strategy.
+ *
+ * Format:
+ * <finding>
+ *   <severity>critical|major|minor</severity>
+ *   <file>path/to/file.ts</file>
+ *   <line>42</line>
+ *   <issue>Brief description of the problem</issue>
+ *   <evidence>Why this is a problem</evidence>
+ *   <fix>Concrete suggestion to fix</fix>
+ * </finding>
+ */
+
+/** Severity levels, most severe first */
+export const SEVERITIES = ["critical", "major", "minor"] as const;
+
+/** A single finding from a review */
+export interface Finding {
+  /** Severity level */
+  severity: (typeof SEVERITIES)[number];
+  /** File path */
+  file: string;
+  /** Line number (if available) */
+  line?: number;
+  /** Issue description */
+  issue: string;
+  /** Evidence or reasoning */
+  evidence?: string;
+  /** Suggested fix */
+  fix?: string;
+  /** Focus area that found this */
+  focus: string;
+  /** Confidence score (0-100) */
+  confidence?: number;
+}
+
+/** Instructions appended to review prompts so output can be parsed */
+export const FINDING_FORMAT_INSTRUCTIONS = `For each issue found, output in this exact format:
+<finding>
+  <severity>critical|major|minor</severity>
+  <file>path/to/file.ts</file>
+  <line>42</line>
+  <issue>Brief description of the problem</issue>
+  <evidence>Why this is a problem, what could go wrong</evidence>
+  <fix>Concrete suggestion to fix</fix>
+</finding>`;
+
+/**
+ * Extract the trimmed text of a tag within a finding block
+ */
+function extractTag(content: string, tag: string): string | undefined {
+  const match = content.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+  const value = match?.[1].trim();
+  return value ? value : undefined;
+}
+
+/**
+ * Normalize a severity string, defaulting to minor
+ */
+function parseSeverity(value: string | undefined): Finding["severity"] {
+  const normalized = value?.toLowerCase();
+  return SEVERITIES.find((s) => s === normalized) ?? "minor";
+}
+
+/**
+ * Parse findings from review output
+ *
+ * Blocks missing a file or issue are skipped. A `<focus>` tag inside a
+ * block overrides the default focus.
+ *
+ * @param output - Raw review output
+ * @param focus - Focus area to attribute findings to
+ * @returns Parsed findings in output order
+ */
+export function parseFindings(output: string, focus: string): Finding[] {
+  const findings: Finding[] = [];
+  const findingRegex = /<finding(?:\s[^>]*)?>([\s\S]*?)<\/finding>/g;
+
+  let match;
+  while ((match = findingRegex.exec(output)) !== null) {
+    const content = match[1];
+
+    const file = extractTag(content, "file");
+    const issue = extractTag(content, "issue");
+    if (!file || !issue) continue;
+
+    const lineStr = extractTag(content, "line");
+    const line = lineStr ? parseInt(lineStr, 10) : NaN;
+
+    findings.push({
+      severity: parseSeverity(extractTag(content, "severity")),
+      file,
+      line: Number.isNaN(line) ? undefined : line,
+      issue,
+      evidence: extractTag(content, "evidence"),
+      fix: extractTag(content, "fix"),
+      focus: extractTag(content, "focus") || focus,
+    });
+  }
+
+  return findings;
+}
@@ -13,6 +13,20 @@ import type { TldrClient } from "../tldr";
 /** Maximum number of context hints to return */
 const MAX_HINTS = 15;
 
+/** How context hints are included in review context */
+export interface ContextHintsConfig {
+  /** Maximum hints in the <context_hints> section (0 disables hints) */
+  maxHints: number;
+  /** Include hinted files that aren't selected as code maps */
+  codeMaps: boolean;
+}
+
+/** Default context hints settings */
+export const DEFAULT_CONTEXT_HINTS: ContextHintsConfig = {
+  maxHints: MAX_HINTS,
+  codeMaps: false,
+};
+
 /** Context hint for a related file */
 export interface ContextHint {
   file: string;
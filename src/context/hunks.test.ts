@@ -0,0 +1,167 @@
+/**
+ * Tests for hunk-aware diff context
+ */
+
+import { describe, it, expect, mock } from "bun:test";
+import {
+  parseUnifiedDiff,
+  changedLines,
+  symbolRanges,
+  enclosingSymbols,
+  buildFileDiffs,
+} from "./hunks";
+import { TldrClient } from "../tldr";
+import type { TldrStructureEntry } from "../tldr/types";
+
+const DIFF = `diff --git a/src/auth.ts b/src/auth.ts
+index 1111111..2222222 100644
+--- a/src/auth.ts
++++ b/src/auth.ts
+@@ -2,3 +2,4 @@ export class Auth {
+   login() {
+-    return false;
++    const ok = check();
++    return ok;
+   }
+@@ -12 +13,0 @@ export function helper() {
+-  unused();
+diff --git a/src/old.ts b/src/old.ts
+deleted file mode 100644
+index 3333333..0000000
+--- a/src/old.ts
++++ /dev/null
+@@ -1 +0,0 @@
+-export const old = 1;
+diff --git a/src/a.ts b/src/b.ts
+similarity index 90%
+rename from src/a.ts
+rename to src/b.ts
+`;
+
+const AUTH_FILE = [
+  "export class Auth {",
+  "  login() {",
+  "    const ok = check();",
+  "    return ok;",
+  "  }",
+  "",
+  "  logout() {",
+  "    return true;",
+  "  }",
+  "}",
+  "",
+  "export function helper() {",
+  "  return 1;",
+  "}",
+  "",
+].join("\n");
+
+const AUTH_STRUCTURE: TldrStructureEntry[] = [
+  { name: "helper", type: "function", file: "src/auth.ts", line: 12 },
+  { name: "Auth", type: "class", file: "src/auth.ts", line: 1 },
+  { name: "login", type: "method", file: "src/auth.ts", line: 2 },
+  { name: "logout", type: "method", file: "src/auth.ts", line: 7 },
+];
+
+describe("parseUnifiedDiff", () => {
+  it("splits a diff into files and hunks", () => {
+    const files = parseUnifiedDiff(DIFF);
+
+    expect(files.map((f) => [f.path, f.status])).toEqual([
+      ["src/auth.ts", "modified"],
+      ["src/old.ts", "deleted"],
+      ["src/b.ts", "renamed"],
+    ]);
+    expect(files[2].oldPath).toBe("src/a.ts");
+
+    const [first, second] = files[0].hunks;
+    expect(first).toMatchObject({ oldStart: 2, oldLines: 3, newStart: 2, newLines: 4 });
+    expect(first.lines).toHaveLength(5);
+    expect(second).toMatchObject({ oldStart: 12, oldLines: 1, newStart: 13, newLines: 0 });
+  });
+
+  it("reads quoted paths and paths with spaces", () => {
+    const diff = [
+      'diff --git "a/t\\303\\251st.ts" "b/t\\303\\251st.ts"',
+      '--- "a/t\\303\\251st.ts"',
+      '+++ "b/t\\303\\251st.ts"',
+      "@@ -1 +1 @@",
+      "-a",
+      "+b",
+      "diff --git a/x b/y.ts b/x b/y.ts",
+      "--- a/x b/y.ts\t",
+      "+++ b/x b/y.ts\t",
+      "@@ -1 +1 @@",
+      "-a",
+      "+b",
+      "diff --git a/with space.png b/with space.png",
+      "old mode 100644",
+      "new mode 100755",
+      'diff --git a/old.ts "b/new\\tname.ts"',
+      "similarity index 100%",
+      "rename from old.ts",
+      'rename to "new\\tname.ts"',
+    ].join("\n");
+
+    expect(parseUnifiedDiff(diff).map((f) => f.path)).toEqual([
+      "tést.ts",
+      "x b/y.ts",
+      "with space.png",
+      "new\tname.ts",
+    ]);
+  });
+});
+
+describe("changedLines", () => {
+  it("maps additions and deletions to current lines", () => {
+    const [first, second] = parseUnifiedDiff(DIFF)[0].hunks;
+    expect(changedLines(first)).toEqual([3, 4]);
+    // A pure deletion points at the line after it
+    expect(changedLines(second)).toEqual([13]);
+  });
+});
+
+describe("symbolRanges", () => {
+  it("ends symbols where the next one starts", () => {
+    const ranges = symbolRanges(AUTH_STRUCTURE, AUTH_FILE.split("\n"));
+
+    expect(ranges.map((r) => [r.name, r.start, r.end])).toEqual([
+      ["Auth", 1, 10],
+      ["login", 2, 5],
+      ["logout", 7, 10],
+      ["helper", 12, 14],
+    ]);
+  });
+});
+
+describe("enclosingSymbols", () => {
+  it("expands hunks to the innermost touched symbols", () => {
+    const file = parseUnifiedDiff(DIFF)[0];
+    const symbols = enclosingSymbols(file, AUTH_FILE, AUTH_STRUCTURE);
+
+    expect(symbols.map((s) => s.name)).toEqual(["login", "helper"]);
+    expect(symbols[0].code).toBe("  login() {\n    const ok = check();\n    return ok;\n  }");
+  });
+});
+
+describe("buildFileDiffs", () => {
+  it("uses known contents and skips symbols for deleted files", async () => {
+    const tldr = new TldrClient();
+    tldr.structure = mock(() => Promise.resolve(AUTH_STRUCTURE));
+
+    const fileDiffs = await buildFileDiffs(DIFF, "/p", tldr, new Map([["src/auth.ts", AUTH_FILE]]));
+
+    expect(fileDiffs.map((f) => f.symbols.length)).toEqual([2, 0, 0]);
+    expect(tldr.structure).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps hunks when tldr has no structure", async () => {
+    const tldr = new TldrClient();
+    tldr.structure = mock(() => Promise.reject(new Error("tldr not installed")));
+
+    const fileDiffs = await buildFileDiffs(DIFF, "/p", tldr, new Map([["src/auth.ts", AUTH_FILE]]));
+
+    expect(fileDiffs[0].hunks).toHaveLength(2);
+    expect(fileDiffs[0].symbols).toEqual([]);
+  });
+});
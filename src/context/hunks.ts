@@ -0,0 +1,322 @@
+/**
+ * Hunk-aware diff context
+ *
+ * Splits a unified diff into per-file hunks and expands each hunk to the
+ * function, method or class it touches, so a large file can be reviewed
+ * through its changed symbols instead of in full.
+ *
+ * Symbol ranges come from tldr structure. tldr only reports where symbols
+ * start, so a symbol is taken to end where the next one starts: a method
+ * ends at the next method (or its class's end), a top-level symbol at the
+ * next top-level symbol (or end of file). Trailing blank lines are trimmed.
+ */
+
+import { join } from "path";
+import type { TldrClient } from "../tldr";
+import type { TldrStructureEntry } from "../tldr/types";
+
+/** A hunk from a unified diff */
+export interface DiffHunk {
+  /** The `@@ -a,b +c,d @@` line */
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  /** Hunk body (context, `+` and `-` lines) */
+  lines: string[];
+}
+
+/** One file's section of a unified diff */
+export interface FileDiff {
+  /** Path after the change (before it, for deleted files) */
+  path: string;
+  status: "added" | "deleted" | "modified" | "renamed";
+  /** Path before a rename */
+  oldPath?: string;
+  hunks: DiffHunk[];
+}
+
+/** Line range of a symbol in the current file (1-based, inclusive) */
+export interface SymbolRange {
+  name: string;
+  type: TldrStructureEntry["type"];
+  start: number;
+  end: number;
+}
+
+/** A symbol touched by a diff, with its current code */
+export interface EnclosingSymbol extends SymbolRange {
+  code: string;
+}
+
+/** A file diff with the symbols its hunks touch */
+export interface FileDiffContext extends FileDiff {
+  /** Touched symbols in file order (empty if tldr has no structure) */
+  symbols: EnclosingSymbol[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/** Single-character escapes in git's quoted paths */
+const QUOTED_ESCAPES: Record<string, number> = {
+  a: 7, b: 8, t: 9, n: 10, v: 11, f: 12, r: 13, "\"": 34, "\\": 92,
+};
+
+/**
+ * Read a path as git prints it in a diff
+ *
+ * Paths with special characters are C-quoted (`"a/t\303\251st.ts"`, with
+ * octal escapes for UTF-8 bytes); other paths containing a space get a
+ * trailing tab on `---`/`+++` lines.
+ */
+export function unquoteDiffPath(path: string): string {
+  if (!path.startsWith("\"") || !path.endsWith("\"") || path.length < 2) {
+    return path.replace(/\t$/, "");
+  }
+
+  const bytes: number[] = [];
+  const body = path.slice(1, -1);
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char !== "\\") {
+      bytes.push(...Buffer.from(char));
+      continue;
+    }
+    const octal = body.slice(i + 1, i + 4).match(/^[0-7]{3}/);
+    if (octal) {
+      bytes.push(parseInt(octal[0], 8));
+      i += 3;
+    } else {
+      const next = body[++i];
+      bytes.push(QUOTED_ESCAPES[next] ?? next.charCodeAt(0));
+    }
+  }
+  return Buffer.from(bytes).toString("utf8");
+}
+
+/**
+ * Path from a `--- a/…` or `+++ b/…` line (undefined for /dev/null)
+ */
+function patchLinePath(value: string, prefix: "a/" | "b/"): string | undefined {
+  const path = unquoteDiffPath(value);
+  return path.startsWith(prefix) ? path.slice(prefix.length) : undefined;
+}
+
+/**
+ * Path from a `diff --git a/… b/…` line
+ *
+ * Only used when the file has no `---`/`+++` lines (binary files, mode
+ * changes), where both sides name the same file, so an unquoted header
+ * is split in the middle rather than at a " b/" inside a path.
+ */
+function headerPath(header: string): string {
+  const quoted = header.match(/"(?:[^"\\]|\\.)*"$/);
+  if (quoted) {
+    return patchLinePath(quoted[0], "b/") ?? "";
+  }
+
+  const length = (header.length - 5) / 2;
+  const path = header.slice(2, 2 + length);
+  if (header === `a/${path} b/${path}`) {
+    return path;
+  }
+  return header.match(/^a\/.+ b\/(.+)$/)?.[1] ?? "";
+}
+
+/**
+ * Parse a unified diff (as printed by `git diff`) into per-file hunks
+ *
+ * Paths come from the `---`/`+++` and rename lines, unquoted. Binary
+ * files and mode-only changes come back with no hunks.
+ */
+export function parseUnifiedDiff(diff: string): FileDiff[] {
+  const files: FileDiff[] = [];
+  let file: FileDiff | undefined;
+  let hunk: DiffHunk | undefined;
+
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("diff --git ")) {
+      file = { path: headerPath(line.slice("diff --git ".length)), status: "modified", hunks: [] };
+      hunk = undefined;
+      files.push(file);
+      continue;
+    }
+    if (!file) continue;
+
+    const header = line.match(HUNK_HEADER);
+    if (header) {
+      hunk = {
+        header: line,
+        oldStart: parseInt(header[1], 10),
+        oldLines: header[2] === undefined ? 1 : parseInt(header[2], 10),
+        newStart: parseInt(header[3], 10),
+        newLines: header[4] === undefined ? 1 : parseInt(header[4], 10),
+        lines: [],
+      };
+      file.hunks.push(hunk);
+    } else if (hunk) {
+      if (/^[ +\-\\]/.test(line)) {
+        hunk.lines.push(line);
+      }
+    } else if (line.startsWith("new file mode")) {
+      file.status = "added";
+    } else if (line.startsWith("deleted file mode")) {
+      file.status = "deleted";
+    } else if (line.startsWith("rename from ")) {
+      file.status = "renamed";
+      file.oldPath = unquoteDiffPath(line.slice("rename from ".length));
+    } else if (line.startsWith("rename to ")) {
+      file.path = unquoteDiffPath(line.slice("rename to ".length));
+    } else if (line.startsWith("--- ") && file.status === "deleted") {
+      file.path = patchLinePath(line.slice("--- ".length), "a/") ?? file.path;
+    } else if (line.startsWith("+++ ")) {
+      file.path = patchLinePath(line.slice("+++ ".length), "b/") ?? file.path;
+    }
+  }
+
+  return files.filter((f) => f.path);
+}
+
+/**
+ * Get the current-file lines a hunk touches
+ *
+ * Added lines count as themselves; a deletion counts as the line after it,
+ * so removing code still points at the symbol it was removed from.
+ */
+export function changedLines(hunk: DiffHunk): number[] {
+  const lines = new Set<number>();
+  let line = hunk.newStart;
+
+  for (const text of hunk.lines) {
+    if (text.startsWith("+")) {
+      lines.add(line);
+      line++;
+    } else if (text.startsWith("-")) {
+      lines.add(Math.max(line, 1));
+    } else if (text.startsWith(" ")) {
+      line++;
+    }
+  }
+
+  return [...lines].sort((a, b) => a - b);
+}
+
+/**
+ * Derive symbol line ranges from tldr structure entries
+ *
+ * @param entries - tldr structure of the file
+ * @param lines - The file's lines (for end-of-file and blank trimming)
+ */
+export function symbolRanges(entries: TldrStructureEntry[], lines: string[]): SymbolRange[] {
+  const sorted = [...entries]
+    .filter((e) => e.line >= 1 && e.line <= lines.length)
+    .sort((a, b) => a.line - b.line);
+  const topLevel = sorted.filter((e) => e.type !== "method");
+
+  const trim = (start: number, end: number) => {
+    while (end > start && lines[end - 1].trim() === "") end--;
+    return end;
+  };
+
+  const topEnd = (entry: TldrStructureEntry) => {
+    const next = topLevel.find((e) => e.line > entry.line);
+    return trim(entry.line, next ? next.line - 1 : lines.length);
+  };
+
+  return sorted.map((entry) => {
+    if (entry.type !== "method") {
+      return { name: entry.name, type: entry.type, start: entry.line, end: topEnd(entry) };
+    }
+
+    // A method ends at the next symbol, or where its class ends
+    const parent = topLevel.filter((e) => e.line <= entry.line).pop();
+    const parentEnd = parent ? topEnd(parent) : lines.length;
+    const next = sorted.find((e) => e.line > entry.line);
+    const end = Math.min(next ? next.line - 1 : lines.length, parentEnd);
+    return { name: entry.name, type: entry.type, start: entry.line, end: trim(entry.line, end) };
+  });
+}
+
+/**
+ * Find the innermost symbol containing a line
+ */
+function innermostSymbol(ranges: SymbolRange[], line: number): SymbolRange | undefined {
+  let best: SymbolRange | undefined;
+  for (const range of ranges) {
+    if (range.start <= line && line <= range.end) {
+      if (!best || range.end - range.start < best.end - best.start) {
+        best = range;
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Find the symbols a file diff touches, with their current code
+ *
+ * @param file - Parsed file diff
+ * @param content - Current content of the file
+ * @param entries - tldr structure of the file
+ * @returns Touched symbols in file order
+ */
+export function enclosingSymbols(
+  file: FileDiff,
+  content: string,
+  entries: TldrStructureEntry[],
+): EnclosingSymbol[] {
+  const lines = content.split("\n");
+  const ranges = symbolRanges(entries, lines);
+  const touched = new Set<SymbolRange>();
+
+  for (const hunk of file.hunks) {
+    for (const line of changedLines(hunk)) {
+      const symbol = innermostSymbol(ranges, line);
+      if (symbol) touched.add(symbol);
+    }
+  }
+
+  return [...touched]
+    .sort((a, b) => a.start - b.start)
+    .map((range) => ({ ...range, code: lines.slice(range.start - 1, range.end).join("\n") }));
+}
+
+/**
+ * Build hunk-aware context for every file in a diff
+ *
+ * File contents are taken from `contents` (keyed by path relative to the
+ * root) when given, else read from disk. Deleted files, and files tldr
+ * can't parse, get their hunks without enclosing symbols.
+ *
+ * @param diff - Unified diff text
+ * @param rootPath - Root that diff paths are relative to
+ * @param tldr - TldrClient instance
+ * @param contents - Known file contents by root-relative path
+ */
+export async function buildFileDiffs(
+  diff: string,
+  rootPath: string,
+  tldr: TldrClient,
+  contents: Map<string, string> = new Map(),
+): Promise<FileDiffContext[]> {
+  const result: FileDiffContext[] = [];
+
+  for (const file of parseUnifiedDiff(diff)) {
+    let symbols: EnclosingSymbol[] = [];
+
+    if (file.status !== "deleted" && file.hunks.length > 0) {
+      try {
+        const content = contents.get(file.path) ?? (await Bun.file(join(rootPath, file.path)).text());
+        const entries = await tldr.structure(file.path, rootPath);
+        symbols = enclosingSymbols(file, content, entries);
+      } catch {
+        // No structure (or unreadable file): hunks only
+      }
+    }
+
+    result.push({ ...file, symbols });
+  }
+
+  return result;
+}
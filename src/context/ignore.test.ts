@@ -0,0 +1,121 @@
+/**
+ * Tests for gitignore-style ignore rules
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { join } from "path";
+import { mkdir, rm } from "fs/promises";
+import { IgnoreMatcher, loadIgnoreMatcher, parseIgnoreFile } from "./ignore";
+
+const ROOT = "/work/project";
+
+function matcher(...patterns: string[]): IgnoreMatcher {
+  return new IgnoreMatcher(patterns, ROOT);
+}
+
+describe("IgnoreMatcher", () => {
+  it("matches unanchored patterns at any depth", () => {
+    const m = matcher("*.log");
+    expect(m.ignores("debug.log")).toBe(true);
+    expect(m.ignores("logs/app/debug.log")).toBe(true);
+    expect(m.ignores("src/log.ts")).toBe(false);
+  });
+
+  it("anchors patterns containing a slash", () => {
+    const m = matcher("/build", "docs/*.md");
+    expect(m.ignores("build/out.js")).toBe(true);
+    expect(m.ignores("src/build/out.js")).toBe(false);
+    expect(m.ignores("docs/intro.md")).toBe(true);
+    expect(m.ignores("docs/api/intro.md")).toBe(false);
+  });
+
+  it("matches directory-only patterns against parents only", () => {
+    const m = matcher("generated/");
+    expect(m.ignores("src/generated/types.ts")).toBe(true);
+    expect(m.ignores("generated")).toBe(false);
+  });
+
+  it("supports ** across directories", () => {
+    const m = matcher("**/fixtures/**", "a/**/z.ts");
+    expect(m.ignores("test/fixtures/data.json")).toBe(true);
+    expect(m.ignores("a/z.ts")).toBe(true);
+    expect(m.ignores("a/b/c/z.ts")).toBe(true);
+  });
+
+  it("lets later negations re-include files", () => {
+    const m = matcher("*.lock", "!keep.lock");
+    expect(m.ignores("deps.lock")).toBe(true);
+    expect(m.ignores("keep.lock")).toBe(false);
+  });
+
+  it("handles ? and character classes", () => {
+    const m = matcher("file?.txt", "*.[oa]");
+    expect(m.ignores("file1.txt")).toBe(true);
+    expect(m.ignores("file10.txt")).toBe(false);
+    expect(m.ignores("lib/x.o")).toBe(true);
+    expect(m.ignores("lib/x.c")).toBe(false);
+  });
+
+  it("resolves absolute paths against the root and never ignores outside it", () => {
+    const m = matcher("*.min.js");
+    expect(m.ignores(`${ROOT}/public/app.min.js`)).toBe(true);
+    expect(m.ignores("/elsewhere/app.min.js")).toBe(false);
+  });
+
+  it("checks directories for walkers", () => {
+    const m = matcher("dist/", "/build");
+    expect(m.ignoresDirectory("dist")).toBe(true);
+    expect(m.ignoresDirectory("packages/web/dist")).toBe(true);
+    expect(m.ignoresDirectory("build")).toBe(true);
+    expect(m.ignoresDirectory("src")).toBe(false);
+    expect(m.ignores("dist")).toBe(false);
+  });
+
+  it("partitions paths", () => {
+    expect(matcher("*.snap").partition(["a.ts", "a.snap"])).toEqual({
+      kept: ["a.ts"],
+      ignored: ["a.snap"],
+    });
+  });
+});
+
+describe("parseIgnoreFile", () => {
+  it("drops comments and blank lines", () => {
+    expect(parseIgnoreFile("# deps\nnode_modules/\n\n*.log\n")).toEqual(["node_modules/", "*.log"]);
+  });
+});
+
+describe("loadIgnoreMatcher", () => {
+  const TEST_DIR = join(import.meta.dir, "..", "..", ".test-ignore");
+
+  beforeEach(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+    await mkdir(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it("ignores lockfiles and minified bundles by default", async () => {
+    const m = await loadIgnoreMatcher(TEST_DIR);
+    expect(m.ignores("bun.lockb")).toBe(true);
+    expect(m.ignores("packages/web/yarn.lock")).toBe(true);
+    expect(m.ignores("dist/app.min.js")).toBe(true);
+    expect(m.ignores("node_modules/zod/index.js")).toBe(true);
+    expect(m.ignores("src/index.ts")).toBe(false);
+  });
+
+  it("combines .gitignore, .wdytignore and extra patterns in order", async () => {
+    await Bun.write(join(TEST_DIR, ".gitignore"), "dist/\n*.snap\n");
+    await Bun.write(join(TEST_DIR, ".wdytignore"), "src/generated/\n!important.snap\n!bun.lockb\n");
+
+    const m = await loadIgnoreMatcher(TEST_DIR, ["vendor/**"]);
+    expect(m.ignores("dist/out.js")).toBe(true);
+    expect(m.ignores("a.snap")).toBe(true);
+    expect(m.ignores("important.snap")).toBe(false);
+    expect(m.ignores("bun.lockb")).toBe(false);
+    expect(m.ignores("src/generated/api.ts")).toBe(true);
+    expect(m.ignores("vendor/lib/x.go")).toBe(true);
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Ignore Rules Module
+ *
+ * Keeps lockfiles, generated code, vendored deps and minified bundles out
+ * of review context. Rules use gitignore syntax and are read, in order
+ * (later rules win, so `!pattern` can re-include):
+ *
+ * 1. Built-in defaults (lockfiles, minified bundles, node_modules)
+ * 2. .gitignore in the project root
+ * 3. .wdytignore in the project root
+ * 4. `ignore` patterns from the project config
+ *
+ * Supported syntax: comments, blank lines, `!` negation, trailing `/`
+ * (directories only), leading `/` or inner `/` (anchored to the root),
+ * `*`, `?`, `**` and `[...]` classes. Only root-level ignore files are read.
+ */
+
+import { isAbsolute, join, relative } from "path";
+
+/** Ignore files read from the project root, in order */
+export const IGNORE_FILES = [".gitignore", ".wdytignore"] as const;
+
+/** Patterns ignored unless re-included with `!pattern` */
+export const DEFAULT_IGNORE_PATTERNS = [
+  ".git/",
+  "node_modules/",
+  "package-lock.json",
+  "yarn.lock",
+  "pnpm-lock.yaml",
+  "bun.lockb",
+  "bun.lock",
+  "Cargo.lock",
+  "poetry.lock",
+  "composer.lock",
+  "Gemfile.lock",
+  "go.sum",
+  "*.min.js",
+  "*.min.css",
+];
+
+/** A compiled ignore rule */
+interface IgnoreRule {
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+/**
+ * Convert a gitignore glob body into a regex source
+ */
+function globToRegex(glob: string): string {
+  let source = "";
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/" matches zero or more directories, trailing "**" everything
+        if (glob[i + 2] === "/") {
+          source += "(?:.*/)?";
+          i += 2;
+        } else {
+          source += ".*";
+          i += 1;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i + 1);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        const body = glob.slice(i + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\");
+        source += `[${body}]`;
+        i = end;
+      }
+    } else if (char === "\\" && i + 1 < glob.length) {
+      source += glob[i + 1].replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+      i += 1;
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    }
+  }
+
+  return source;
+}
+
+/**
+ * Compile one gitignore line into a rule (null for blanks/comments)
+ */
+function compileRule(line: string): IgnoreRule | null {
+  let pattern = line.replace(/(?<!\\)\s+$/, "");
+  if (!pattern || pattern.startsWith("#")) return null;
+
+  let negate = false;
+  if (pattern.startsWith("!")) {
+    negate = true;
+    pattern = pattern.slice(1);
+  } else if (pattern.startsWith("\\!") || pattern.startsWith("\\#")) {
+    pattern = pattern.slice(1);
+  }
+
+  let dirOnly = false;
+  if (pattern.endsWith("/")) {
+    dirOnly = true;
+    pattern = pattern.replace(/\/+$/, "");
+  }
+
+  // A slash anywhere but the end anchors the pattern to the root
+  const anchored = pattern.includes("/");
+  pattern = pattern.replace(/^\/+/, "");
+  if (!pattern) return null;
+
+  const body = globToRegex(pattern);
+  const regex = new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`);
+  return { regex, negate, dirOnly };
+}
+
+/**
+ * Parse ignore file content into patterns (comments and blanks removed)
+ */
+export function parseIgnoreFile(content: string): string[] {
+  return content
+    .split(/\r?\n/)
+    .filter((line) => compileRule(line) !== null);
+}
+
+/**
+ * Matches paths against gitignore-style rules rooted at a project folder
+ */
+export class IgnoreMatcher {
+  private readonly rules: IgnoreRule[];
+
+  /**
+   * @param patterns - gitignore-style patterns (later patterns win)
+   * @param rootPath - Root that patterns are relative to
+   */
+  constructor(
+    patterns: string[],
+    private readonly rootPath: string,
+  ) {
+    this.rules = patterns
+      .map(compileRule)
+      .filter((rule): rule is IgnoreRule => rule !== null);
+  }
+
+  /**
+   * Check whether a path is ignored
+   *
+   * @param path - Absolute path, or path relative to the root
+   * @returns true if the last matching rule ignores the path (paths
+   *   outside the root are never ignored)
+   */
+  ignores(path: string): boolean {
+    return this.matches(path, false);
+  }
+
+  /**
+   * Check whether a directory is ignored (lets walkers skip whole trees)
+   *
+   * @param path - Absolute directory path, or path relative to the root
+   */
+  ignoresDirectory(path: string): boolean {
+    return this.matches(path, true);
+  }
+
+  /**
+   * Apply the rules to a path (last matching rule wins)
+   */
+  private matches(path: string, isDirectory: boolean): boolean {
+    const relPath = (isAbsolute(path) ? relative(this.rootPath, path) : path)
+      .split("\\")
+      .join("/")
+      .replace(/^\.\//, "");
+    if (!relPath || relPath.startsWith("../") || isAbsolute(relPath)) {
+      return false;
+    }
+
+    // A rule matches the path itself or any of its parent directories
+    const parts = relPath.split("/");
+    const dirs = parts
+      .slice(0, isDirectory ? parts.length : -1)
+      .map((_, i) => parts.slice(0, i + 1).join("/"));
+
+    let ignored = false;
+    for (const rule of this.rules) {
+      const candidates = rule.dirOnly || isDirectory ? dirs : [...dirs, relPath];
+      if (candidates.some((candidate) => rule.regex.test(candidate))) {
+        ignored = !rule.negate;
+      }
+    }
+    return ignored;
+  }
+
+  /**
+   * Split paths into kept and ignored
+   */
+  partition(paths: string[]): { kept: string[]; ignored: string[] } {
+    const kept: string[] = [];
+    const ignored: string[] = [];
+    for (const path of paths) {
+      (this.ignores(path) ? ignored : kept).push(path);
+    }
+    return { kept, ignored };
+  }
+}
+
+/**
+ * Load the ignore rules for a project root
+ *
+ * @param rootPath - Project root
+ * @param extraPatterns - Additional patterns (e.g. config `ignore`), applied last
+ * @returns Matcher over defaults, .gitignore, .wdytignore and extras
+ */
+export async function loadIgnoreMatcher(
+  rootPath: string,
+  extraPatterns: string[] = [],
+): Promise<IgnoreMatcher> {
+  const patterns = [...DEFAULT_IGNORE_PATTERNS];
+
+  for (const name of IGNORE_FILES) {
+    const file = Bun.file(join(rootPath, name));
+    if (await file.exists()) {
+      patterns.push(...parseIgnoreFile(await file.text()));
+    }
+  }
+
+  patterns.push(...extraPatterns);
+  return new IgnoreMatcher(patterns, rootPath);
+}
@@ -40,10 +40,24 @@ export {
   getFormattedContextHints,
   generateHintsFromDiff,
   formatHints,
+  DEFAULT_CONTEXT_HINTS,
   type ContextHint,
+  type ContextHintsConfig,
   type GenerateHintsOptions,
 } from "./hints";
 
+// Impact expansion (unselected callers/callees)
+export {
+  expandImpact,
+  extractSnippets,
+  DEFAULT_EXPANSION,
+  EXPANSION_FORMATS,
+  type ExpandedFile,
+  type ExpansionConfig,
+  type ExpansionFormat,
+  type RelatedSnippet,
+} from "./expansion";
+
 // Re-review cache-busting
 export {
   buildReReviewPreamble,
@@ -54,6 +68,8 @@ export {
   clearReviewState,
   processReReview,
   type ReReviewOptions,
+  type ReReviewResult,
+  type ReviewDetails,
 } from "./rereview";
 
 // Code map extraction (signatures without bodies)
@@ -73,17 +89,44 @@ export {
   buildContextPlan,
   buildContextXml,
   rankFiles,
+  getImpactedFiles,
   formatContextPlanSummary,
   type TokenBudget,
+  type BudgetSplit,
+  type RankingWeights,
+  DEFAULT_RANKING_WEIGHTS,
+  DIFF_FORMATS,
+  type DiffFormat,
   type RankedFile,
   type ContextPlan,
 } from "./builder";
 
+// Hunk-aware diff context
+export {
+  parseUnifiedDiff,
+  changedLines,
+  symbolRanges,
+  enclosingSymbols,
+  buildFileDiffs,
+  type DiffHunk,
+  type FileDiff,
+  type FileDiffContext,
+  type SymbolRange,
+  type EnclosingSymbol,
+} from "./hunks";
+
 // Strategy selection (adaptive review approach)
 export {
   selectStrategy,
   getGitDiffStats,
+  getAverageComplexity,
+  parseReviewType,
+  parseResponseType,
   formatStrategy,
+  DEFAULT_STRATEGY_THRESHOLDS,
+  RESPONSE_TYPES,
+  type ResponseType,
+  type StrategyThresholds,
   type StrategyType,
   type StrategyContext,
   type StrategyConfig,
@@ -91,12 +134,51 @@ export {
   type GitDiffStats,
 } from "./strategy";
 
+// Structured findings (shared by all review modes)
+export {
+  parseFindings,
+  SEVERITIES,
+  FINDING_FORMAT_INSTRUCTIONS,
+  type Finding,
+} from "./findings";
+
+// Ignore rules (.gitignore / .wdytignore)
+export {
+  IgnoreMatcher,
+  loadIgnoreMatcher,
+  parseIgnoreFile,
+  DEFAULT_IGNORE_PATTERNS,
+  IGNORE_FILES,
+} from "./ignore";
+
+// Review roots (multi-root windows)
+export { ContextRoots, type ContextRoot } from "./roots";
+
+// Token counting
+export {
+  BpeTokenCounter,
+  heuristicTokenCounter,
+  createTokenCounter,
+  getDefaultTokenCounter,
+  countTokens,
+  type TokenCounter,
+  type TokenizerName,
+} from "./tokens";
+
+// SARIF export of findings
+export {
+  findingsToSarif,
+  severityToLevel,
+  SARIF_SCHEMA,
+  type SarifLog,
+  type SarifLevel,
+} from "./sarif";
+
 // Multi-pass review (Option B)
 export {
   runMultiPassReview,
   DEFAULT_MULTIPASS_CONFIG,
   type MultiPassConfig,
-  type Finding,
   type MultiPassResult,
 } from "./multipass";
 
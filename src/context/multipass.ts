@@ -14,9 +14,10 @@
  * - Confidence scoring reduces false positives (Claude official)
  */
 
-import { $ } from "bun";
-import { join } from "path";
-import { homedir } from "os";
+import { ClaudeCliBackend, type ReviewBackend } from "../backends";
+import { parseFindings, FINDING_FORMAT_INSTRUCTIONS, type Finding } from "./findings";
+
+export type { Finding } from "./findings";
 
 /** Configuration for multi-pass review */
 export interface MultiPassConfig {
@@ -34,26 +35,6 @@ export interface MultiPassConfig {
   scoringModel?: string;
 }
 
-/** A single finding from a review agent */
-export interface Finding {
-  /** Severity level */
-  severity: "critical" | "major" | "minor";
-  /** File path */
-  file: string;
-  /** Line number (if available) */
-  line?: number;
-  /** Issue description */
-  issue: string;
-  /** Evidence or reasoning */
-  evidence?: string;
-  /** Suggested fix */
-  fix?: string;
-  /** Focus area that found this */
-  focus: string;
-  /** Confidence score (0-100) */
-  confidence?: number;
-}
-
 /** Result from multi-pass review */
 export interface MultiPassResult {
   /** Findings that passed confidence threshold */
@@ -78,17 +59,6 @@ const DEFAULT_FOCUSES = [
   "simplicity",  // Over-engineering, complexity, test coverage
 ];
 
-/**
- * Get chats directory path
- */
-function getChatsDir(): string {
-  const xdgDataHome = process.env.XDG_DATA_HOME;
-  if (xdgDataHome) {
-    return join(xdgDataHome, "wdyt", "chats");
-  }
-  return join(homedir(), ".wdyt", "chats");
-}
-
 /**
  * Build a focused review prompt for a specific focus area
  */
@@ -138,15 +108,7 @@ ${instructions}
 
 ## Output Format
 
-For each issue found, output in this exact format:
-<finding>
-  <severity>critical|major|minor</severity>
-  <file>filename.ts</file>
-  <line>42</line>
-  <issue>Brief description of the problem</issue>
-  <evidence>Why this is a problem, what could go wrong</evidence>
-  <fix>Concrete suggestion to fix</fix>
-</finding>
+${FINDING_FORMAT_INSTRUCTIONS}
 
 If you find no issues in your focus area, output:
 <no-issues focus="${focus}" />
@@ -200,41 +162,6 @@ Where N is the finding ID and X is the confidence score (0-100).
 ${findingsXml}`;
 }
 
-/**
- * Parse findings from review agent output
- */
-function parseFindings(output: string, focus: string): Finding[] {
-  const findings: Finding[] = [];
-  const findingRegex = /<finding>([\s\S]*?)<\/finding>/g;
-
-  let match;
-  while ((match = findingRegex.exec(output)) !== null) {
-    const content = match[1];
-
-    const severity = content.match(/<severity>(.*?)<\/severity>/)?.[1] || "minor";
-    const file = content.match(/<file>(.*?)<\/file>/)?.[1] || "";
-    const lineStr = content.match(/<line>(.*?)<\/line>/)?.[1];
-    const line = lineStr && lineStr !== "unknown" ? parseInt(lineStr, 10) : undefined;
-    const issue = content.match(/<issue>(.*?)<\/issue>/)?.[1] || "";
-    const evidence = content.match(/<evidence>(.*?)<\/evidence>/)?.[1];
-    const fix = content.match(/<fix>(.*?)<\/fix>/)?.[1];
-
-    if (file && issue) {
-      findings.push({
-        severity: severity as Finding["severity"],
-        file,
-        line,
-        issue,
-        evidence,
-        fix,
-        focus,
-      });
-    }
-  }
-
-  return findings;
-}
-
 /**
  * Parse confidence scores from scoring output
  */
@@ -252,36 +179,6 @@ function parseScores(output: string): Map<number, number> {
   return scores;
 }
 
-/** Valid Claude models for review */
-const VALID_MODELS = new Set(["haiku", "sonnet", "opus", "claude-3-haiku-20240307", "claude-3-sonnet-20240229", "claude-3-opus-20240229"]);
-
-/**
- * Run Claude CLI with a prompt
- * Uses Bun's shell template which properly escapes file paths
- */
-async function runClaude(prompt: string, model?: string): Promise<string> {
-  const tempPath = join(getChatsDir(), `multipass-${Date.now()}.txt`);
-  await Bun.write(tempPath, prompt);
-
-  try {
-    // Validate model if provided to prevent command injection
-    if (model && !VALID_MODELS.has(model)) {
-      throw new Error(`Invalid model: ${model}. Valid models: ${[...VALID_MODELS].join(", ")}`);
-    }
-
-    // Use separate command paths to avoid string interpolation in shell
-    const result = model
-      ? await $`cat ${tempPath} | claude -p --no-session-persistence --model ${model}`.text()
-      : await $`cat ${tempPath} | claude -p --no-session-persistence`.text();
-
-    await $`rm ${tempPath}`.quiet();
-    return result.trim();
-  } catch (error) {
-    await $`rm ${tempPath}`.quiet();
-    throw error;
-  }
-}
-
 /**
  * Deduplicate findings by file+line+issue similarity
  */
@@ -379,11 +276,13 @@ function formatFindings(findings: Finding[]): string {
  *
  * @param contextXml - Pre-built context XML
  * @param config - Multi-pass configuration
+ * @param backend - Review backend to run agents on (default: Claude CLI)
  * @returns Review result with findings and verdict
  */
 export async function runMultiPassReview(
   contextXml: string,
-  config: MultiPassConfig
+  config: MultiPassConfig,
+  backend: ReviewBackend = new ClaudeCliBackend()
 ): Promise<MultiPassResult> {
   const focuses = config.focuses.length > 0 ? config.focuses : DEFAULT_FOCUSES;
 
@@ -394,7 +293,7 @@ export async function runMultiPassReview(
   const reviewPromises = focuses.map(async (focus) => {
     const prompt = buildFocusedPrompt(focus, contextXml);
     try {
-      const output = await runClaude(prompt, config.reviewModel);
+      const output = await backend.run({ prompt, model: config.reviewModel });
       return parseFindings(output, focus);
     } catch (error) {
       console.error(`Review agent (${focus}) failed:`, error);
@@ -429,7 +328,7 @@ export async function runMultiPassReview(
   const scoringPrompt = buildScoringPrompt(allFindings);
 
   try {
-    const scoringOutput = await runClaude(scoringPrompt, config.scoringModel);
+    const scoringOutput = await backend.run({ prompt: scoringPrompt, model: config.scoringModel });
     const scores = parseScores(scoringOutput);
 
     // Apply scores to findings
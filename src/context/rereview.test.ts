@@ -2,7 +2,10 @@
  * Tests for re-review cache-busting module
  */
 
-import { describe, test, expect, beforeEach } from "bun:test";
+import { describe, test, expect, beforeEach, afterAll } from "bun:test";
+import { join } from "path";
+import { rm, mkdir, writeFile } from "fs/promises";
+import { $ } from "bun";
 import {
   buildReReviewPreamble,
   detectReReview,
@@ -11,6 +14,16 @@ import {
   clearReviewState,
   processReReview,
 } from "./rereview";
+import { ContextRoots } from "./roots";
+
+// Keep recorded reviews out of the real data dir
+const TEST_DIR = join(import.meta.dir, "..", "..", ".test-rereview");
+process.env.XDG_DATA_HOME = TEST_DIR;
+
+afterAll(async () => {
+  await rm(TEST_DIR, { recursive: true, force: true });
+  delete process.env.XDG_DATA_HOME;
+});
 
 describe("buildReReviewPreamble", () => {
   test("builds preamble with changed files", () => {
@@ -34,6 +47,15 @@ describe("buildReReviewPreamble", () => {
     expect(preamble).toContain("... and 10 more files");
   });
 
+  test("lists previous findings to confirm", () => {
+    const preamble = buildReReviewPreamble(["src/auth.ts"], "implementation", [
+      { severity: "major", file: "src/auth.ts", line: 12, issue: "Token not verified", focus: "security" },
+    ]);
+
+    expect(preamble).toContain("Previous findings in these files");
+    expect(preamble).toContain("- [major] src/auth.ts:12 - Token not verified");
+  });
+
   test("uses correct review type in message", () => {
     const files = ["src/spec.md"];
     const preamble = buildReReviewPreamble(files, "plan");
@@ -43,66 +65,72 @@ describe("buildReReviewPreamble", () => {
 });
 
 describe("detectReReview", () => {
-  beforeEach(() => {
-    clearReviewState();
+  beforeEach(async () => {
+    process.env.XDG_DATA_HOME = TEST_DIR;
+    await clearReviewState();
   });
 
-  test("returns false when no chatId and no explicit flag", () => {
-    const result = detectReReview({});
+  test("returns false when no chatId and no explicit flag", async () => {
+    const result = await detectReReview({});
     expect(result).toBe(false);
   });
 
-  test("returns true when isReReview is explicitly true", () => {
-    const result = detectReReview({ isReReview: true });
+  test("returns true when isReReview is explicitly true", async () => {
+    const result = await detectReReview({ isReReview: true });
     expect(result).toBe(true);
   });
 
-  test("returns false when chatId has no previous review", () => {
-    const result = detectReReview({ chatId: "new-chat-id" });
+  test("returns false when chatId has no previous review", async () => {
+    const result = await detectReReview({ chatId: "new-chat-id" });
     expect(result).toBe(false);
   });
 
-  test("returns true when chatId has previous review", () => {
-    recordReview("existing-chat-id", ["file1.ts"]);
-    const result = detectReReview({ chatId: "existing-chat-id" });
+  test("returns true when chatId has previous review", async () => {
+    await recordReview("existing-chat-id", ["file1.ts"]);
+    const result = await detectReReview({ chatId: "existing-chat-id" });
     expect(result).toBe(true);
   });
 });
 
 describe("recordReview and getPreviousReviewState", () => {
-  beforeEach(() => {
-    clearReviewState();
+  beforeEach(async () => {
+    process.env.XDG_DATA_HOME = TEST_DIR;
+    await clearReviewState();
   });
 
-  test("records and retrieves review state", () => {
+  test("records and retrieves review state", async () => {
     const files = ["src/auth.ts", "src/types.ts"];
-    recordReview("test-chat-id", files);
+    await recordReview("test-chat-id", files, { commit: "abc123", verdict: "NEEDS_WORK" });
 
-    const state = getPreviousReviewState("test-chat-id");
+    const state = await getPreviousReviewState("test-chat-id");
     expect(state).toBeDefined();
     expect(state?.files).toEqual(files);
+    expect(state?.commit).toBe("abc123");
+    expect(state?.verdict).toBe("NEEDS_WORK");
+    expect(state?.findings).toEqual([]);
     expect(state?.timestamp).toBeGreaterThan(0);
   });
 
-  test("returns undefined for unknown chat id", () => {
-    const state = getPreviousReviewState("unknown-chat-id");
+  test("returns undefined for unknown chat id", async () => {
+    const state = await getPreviousReviewState("unknown-chat-id");
     expect(state).toBeUndefined();
   });
 
-  test("clearReviewState removes all state", () => {
-    recordReview("chat-1", ["file1.ts"]);
-    recordReview("chat-2", ["file2.ts"]);
+  test("clearReviewState removes all state", async () => {
+    await recordReview("chat-1", ["file1.ts"]);
+    await recordReview("chat-2", ["file2.ts"]);
 
-    clearReviewState();
+    await clearReviewState();
 
-    expect(getPreviousReviewState("chat-1")).toBeUndefined();
-    expect(getPreviousReviewState("chat-2")).toBeUndefined();
+    expect(await getPreviousReviewState("chat-1")).toBeUndefined();
+    expect(await getPreviousReviewState("chat-2")).toBeUndefined();
   });
 });
 
 describe("processReReview", () => {
-  beforeEach(() => {
-    clearReviewState();
+  beforeEach(async () => {
+    process.env.XDG_DATA_HOME = TEST_DIR;
+    await clearReviewState();
   });
 
   test("returns isReReview false when not a re-review", async () => {
@@ -112,7 +140,7 @@ describe("processReReview", () => {
   });
 
   test("returns preamble when is re-review", async () => {
-    recordReview("prev-chat", ["file.ts"]);
+    await recordReview("prev-chat", ["file.ts"]);
     const result = await processReReview({
       chatId: "prev-chat",
       reviewType: "implementation",
@@ -133,3 +161,118 @@ describe("processReReview", () => {
     expect(result.preamble).toBeDefined();
   });
 });
+
+describe("processReReview (incremental)", () => {
+  const REPO_DIR = join(TEST_DIR, "repo");
+
+  beforeEach(async () => {
+    process.env.XDG_DATA_HOME = TEST_DIR;
+    await clearReviewState();
+    await rm(REPO_DIR, { recursive: true, force: true });
+    await mkdir(join(REPO_DIR, "src"), { recursive: true });
+
+    await $`git init -b main`.cwd(REPO_DIR).quiet();
+    await $`git config user.email test@test.com`.cwd(REPO_DIR).quiet();
+    await $`git config user.name Test`.cwd(REPO_DIR).quiet();
+    await writeFile(join(REPO_DIR, "src/a.ts"), "export const a = 1;\n");
+    await writeFile(join(REPO_DIR, "src/b.ts"), "export const b = 1;\n");
+    await $`git add . && git commit -m initial`.cwd(REPO_DIR).quiet();
+  });
+
+  test("diffs against the previous review's commit", async () => {
+    const commit = (await $`git rev-parse HEAD`.cwd(REPO_DIR).text()).trim();
+    await recordReview("prev-chat", ["src/a.ts", "src/b.ts"], {
+      commit,
+      verdict: "NEEDS_WORK",
+      findings: [
+        { severity: "major", file: "src/a.ts", line: 1, issue: "Wrong constant", focus: "correctness" },
+        { severity: "minor", file: "src/b.ts", line: 1, issue: "Naming", focus: "simplicity" },
+      ],
+    });
+
+    // Fix a.ts after the review (uncommitted)
+    await writeFile(join(REPO_DIR, "src/a.ts"), "export const a = 2;\n");
+
+    const result = await processReReview({ chatId: "prev-chat", cwd: REPO_DIR });
+
+    expect(result.isReReview).toBe(true);
+    expect(result.baseCommit).toBe(commit);
+    expect(result.changedFiles).toEqual(["src/a.ts"]);
+    expect(result.previousFindings?.map((f) => f.issue)).toEqual(["Wrong constant"]);
+    expect(result.preamble).toContain("- [major] src/a.ts:1 - Wrong constant");
+    expect(result.preamble).not.toContain("Naming");
+  });
+
+  test("falls back to the base branch when the commit is unknown", async () => {
+    await recordReview("prev-chat", ["src/a.ts"], { commit: "0000000000000000000000000000000000000000" });
+
+    const result = await processReReview({ chatId: "prev-chat", cwd: REPO_DIR });
+
+    expect(result.isReReview).toBe(true);
+    expect(result.baseCommit).toBeUndefined();
+  });
+
+  test("keeps an explicit diff mode, based on the previous commit", async () => {
+    const commit = (await $`git rev-parse HEAD`.cwd(REPO_DIR).text()).trim();
+    await recordReview("prev-chat", ["src/a.ts", "src/b.ts"], { commit });
+
+    // Stage a fix to a.ts, leave an unstaged edit to b.ts
+    await writeFile(join(REPO_DIR, "src/a.ts"), "export const a = 2;\n");
+    await $`git add src/a.ts`.cwd(REPO_DIR).quiet();
+    await writeFile(join(REPO_DIR, "src/b.ts"), "export const b = 2;\n");
+
+    const result = await processReReview({
+      chatId: "prev-chat",
+      cwd: REPO_DIR,
+      diff: { mode: "staged", base: "HEAD" },
+    });
+
+    expect(result.baseCommit).toBe(commit);
+    expect(result.diffSource).toEqual({ mode: "staged", base: commit });
+    expect(result.changedFiles).toEqual(["src/a.ts"]);
+  });
+
+  test("compares every root of a multi-root window to its previous commit", async () => {
+    const otherDir = join(TEST_DIR, "other");
+    await rm(otherDir, { recursive: true, force: true });
+    await mkdir(join(otherDir, "lib"), { recursive: true });
+    await $`git init -b main`.cwd(otherDir).quiet();
+    await $`git config user.email test@test.com`.cwd(otherDir).quiet();
+    await $`git config user.name Test`.cwd(otherDir).quiet();
+    await writeFile(join(otherDir, "lib/c.ts"), "export const c = 1;\n");
+    await $`git add . && git commit -m initial`.cwd(otherDir).quiet();
+
+    const commit = (await $`git rev-parse HEAD`.cwd(REPO_DIR).text()).trim();
+    const otherCommit = (await $`git rev-parse HEAD`.cwd(otherDir).text()).trim();
+    await recordReview("prev-chat", [], { commit, rootCommits: { [otherDir]: otherCommit } });
+
+    // Fix files in both roots after the review
+    await writeFile(join(REPO_DIR, "src/a.ts"), "export const a = 2;\n");
+    await writeFile(join(otherDir, "lib/c.ts"), "export const c = 2;\n");
+
+    const result = await processReReview({
+      chatId: "prev-chat",
+      roots: new ContextRoots([REPO_DIR, otherDir]),
+      diff: { mode: "worktree", base: "HEAD" },
+    });
+
+    expect(result.baseCommit).toBe(commit);
+    expect(result.rootDiffSources).toEqual({ [otherDir]: { mode: "worktree", base: otherCommit } });
+    expect(result.changedFiles).toEqual(["repo/src/a.ts", "other/lib/c.ts"]);
+    expect(result.preamble).toContain("- other/lib/c.ts");
+  });
+
+  test("uses the explicit diff source when there is no previous commit", async () => {
+    await writeFile(join(REPO_DIR, "src/c.ts"), "export const c = 1;\n");
+
+    const result = await processReReview({
+      isReReview: true,
+      cwd: REPO_DIR,
+      diff: { mode: "worktree", base: "HEAD" },
+    });
+
+    expect(result.baseCommit).toBeUndefined();
+    expect(result.diffSource).toEqual({ mode: "worktree", base: "HEAD" });
+    expect(result.changedFiles).toEqual(["src/c.ts"]);
+  });
+});
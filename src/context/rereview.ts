@@ -9,7 +9,15 @@
  * - is_rereview detection via session_id/chat_id (line 4314-4324)
  */
 
-import { $ } from "bun";
+import {
+  saveReview,
+  loadReview,
+  clearReviews,
+  type ReviewRecord,
+} from "../history";
+import type { Finding } from "./findings";
+import { ContextRoots } from "./roots";
+import { GitService, type DiffSource } from "../git";
 
 /**
  * Re-review options
@@ -19,17 +27,41 @@ export interface ReReviewOptions {
   chatId?: string;
   /** Explicit flag indicating this is a re-review */
   isReReview?: boolean;
-  /** Base branch/commit for computing changed files */
+  /** Base ref for the default diff (default: detected, see GitService) */
   baseBranch?: string;
+  /** Explicit diff source (overrides baseBranch) */
+  diff?: DiffSource;
   /** Review type for the preamble message */
   reviewType?: string;
+  /** Repository root to run git in (default: process cwd) */
+  cwd?: string;
+  /** Roots of a multi-root window (overrides cwd; the first is primary) */
+  roots?: ContextRoots;
 }
 
 /**
- * Re-review state tracking
- * Maps chat IDs to their last review timestamp/commit
+ * Result of re-review processing
  */
-const reReviewState = new Map<string, { timestamp: number; files: string[] }>();
+export interface ReReviewResult {
+  isReReview: boolean;
+  /** Preamble to prepend to the prompt */
+  preamble?: string;
+  /** Files changed since the previous review (or base branch), as display paths */
+  changedFiles?: string[];
+  /** Commit of the previous review; diffs should be taken against it */
+  baseCommit?: string;
+  /** Diff source to review with (based on the previous commit if known) */
+  diffSource?: DiffSource;
+  /** Diff source of each other root (by root path), based on its previous commit if known */
+  rootDiffSources?: Record<string, DiffSource>;
+  /** Findings from the previous review that touch the changed files */
+  previousFindings?: Finding[];
+}
+
+/**
+ * Details recorded alongside a review (besides chat ID and files)
+ */
+export type ReviewDetails = Partial<Pick<ReviewRecord, "commit" | "rootCommits" | "windowId" | "rootPaths" | "verdict" | "findings">>;
 
 /**
  * Build the re-review preamble instructing the model to re-read changed files.
@@ -38,9 +70,14 @@ const reReviewState = new Map<string, { timestamp: number; files: string[] }>();
  *
  * @param changedFiles - List of files that have changed since last review
  * @param reviewType - Type of review (e.g., "implementation", "plan")
+ * @param previousFindings - Findings from the last review in the changed files
  * @returns The preamble markdown string
  */
-export function buildReReviewPreamble(changedFiles: string[], reviewType: string = "implementation"): string {
+export function buildReReviewPreamble(
+  changedFiles: string[],
+  reviewType: string = "implementation",
+  previousFindings: Finding[] = []
+): string {
   // Cap at 30 files to avoid overwhelming the preamble
   const MAX_FILES = 30;
   let filesList = changedFiles.slice(0, MAX_FILES).map((f) => `- ${f}`).join("\n");
@@ -49,6 +86,17 @@ export function buildReReviewPreamble(changedFiles: string[], reviewType: string
     filesList += `\n- ... and ${changedFiles.length - MAX_FILES} more files`;
   }
 
+  let findingsSection = "";
+  if (previousFindings.length > 0) {
+    const findingsList = previousFindings
+      .map((f) => `- [${f.severity}] ${f.file}:${f.line || "?"} - ${f.issue}`)
+      .join("\n");
+    findingsSection = `
+**Previous findings in these files** - confirm whether each one is fixed:
+${findingsList}
+`;
+  }
+
   return `## IMPORTANT: Re-review After Fixes
 
 This is a RE-REVIEW. Code has been modified since your last review.
@@ -58,7 +106,7 @@ ${filesList}
 
 Use your file reading tools to get the CURRENT content of these files.
 Do NOT rely on what you saw in the previous review - the code has changed.
-
+${findingsSection}
 After re-reading, conduct a fresh ${reviewType} review on the updated code.
 
 ---
@@ -69,45 +117,41 @@ After re-reading, conduct a fresh ${reviewType} review on the updated code.
 /**
  * Get changed files using git diff against a base branch/commit
  *
- * @param baseBranch - Base branch or commit to diff against (default: "main")
+ * @param baseBranch - Base branch or commit to diff against (default: the
+ *   detected default branch)
+ * @param cwd - Repository root (default: process cwd)
  * @returns Array of changed file paths
  */
-export async function getChangedFiles(baseBranch: string = "main"): Promise<string[]> {
-  try {
-    // Get list of changed files (both staged and unstaged)
-    const result = await $`git diff --name-only ${baseBranch}...HEAD`.text();
-    const files = result
-      .trim()
-      .split("\n")
-      .filter((f) => f.length > 0);
-    return files;
-  } catch {
-    // Fallback: try diffing against base directly (not merge-base)
-    try {
-      const result = await $`git diff --name-only ${baseBranch}`.text();
-      const files = result
-        .trim()
-        .split("\n")
-        .filter((f) => f.length > 0);
-      return files;
-    } catch {
-      return [];
-    }
-  }
+export async function getChangedFiles(baseBranch?: string, cwd: string = process.cwd()): Promise<string[]> {
+  const git = new GitService(cwd);
+  return git.changedFiles(await git.resolveSource({ mode: "range", base: baseBranch }));
+}
+
+/**
+ * Check whether a finding's file refers to a changed file
+ * Findings may use paths relative to a subdirectory, so match on suffix.
+ */
+function findingMatchesFile(finding: Finding, changedFile: string): boolean {
+  const findingFile = finding.file.replace(/^\.\//, "");
+  return (
+    findingFile === changedFile ||
+    findingFile.endsWith(`/${changedFile}`) ||
+    changedFile.endsWith(`/${findingFile}`)
+  );
 }
 
 /**
  * Detect if this is a re-review scenario
  *
  * A re-review is detected when:
- * 1. chatId is provided AND matches a previous review state
+ * 1. chatId is provided AND matches a recorded review in the history store
  * 2. isReReview flag is explicitly set to true
  * 3. The payload contains chat_id (indicating continuation)
  *
  * @param options - Re-review detection options
  * @returns True if this is a re-review scenario
  */
-export function detectReReview(options: ReReviewOptions): boolean {
+export async function detectReReview(options: ReReviewOptions): Promise<boolean> {
   // Explicit flag takes precedence
   if (options.isReReview === true) {
     return true;
@@ -115,7 +159,7 @@ export function detectReReview(options: ReReviewOptions): boolean {
 
   // Check if chatId indicates a re-review (continuing same chat)
   if (options.chatId) {
-    return reReviewState.has(options.chatId);
+    return (await loadReview(options.chatId)) !== null;
   }
 
   return false;
@@ -124,15 +168,28 @@ export function detectReReview(options: ReReviewOptions): boolean {
 /**
  * Record that a review was performed for a chat
  *
- * This is used to track review state for detecting re-reviews
+ * Persists the review to the history store so later processes can
+ * detect re-reviews of the same chat.
  *
  * @param chatId - The chat ID that was reviewed
  * @param files - Files that were included in the review
+ * @param details - Commit, verdict and findings of the review
  */
-export function recordReview(chatId: string, files: string[]): void {
-  reReviewState.set(chatId, {
-    timestamp: Date.now(),
+export async function recordReview(
+  chatId: string,
+  files: string[],
+  details: ReviewDetails = {}
+): Promise<void> {
+  await saveReview({
+    chatId,
+    commit: details.commit,
+    rootCommits: details.rootCommits,
+    windowId: details.windowId,
+    rootPaths: details.rootPaths,
     files,
+    verdict: details.verdict,
+    findings: details.findings ?? [],
+    timestamp: Date.now(),
   });
 }
 
@@ -140,17 +197,17 @@ export function recordReview(chatId: string, files: string[]): void {
  * Get previous review state for a chat
  *
  * @param chatId - The chat ID to look up
- * @returns Previous review state or undefined
+ * @returns Previous review record or undefined
  */
-export function getPreviousReviewState(chatId: string): { timestamp: number; files: string[] } | undefined {
-  return reReviewState.get(chatId);
+export async function getPreviousReviewState(chatId: string): Promise<ReviewRecord | undefined> {
+  return (await loadReview(chatId)) ?? undefined;
 }
 
 /**
- * Clear review state (useful for testing)
+ * Clear all recorded reviews (useful for testing)
  */
-export function clearReviewState(): void {
-  reReviewState.clear();
+export async function clearReviewState(): Promise<void> {
+  await clearReviews();
 }
 
 /**
@@ -160,23 +217,58 @@ export function clearReviewState(): void {
  * It detects if this is a re-review, gets changed files, and
  * returns the preamble to prepend to the prompt.
  *
+ * When the previous review recorded its HEAD commit, changed files are
+ * computed relative to that commit (incremental) instead of the base
+ * branch, and previous findings in those files are listed for the model
+ * to confirm. The diff source (explicit, or the default review against
+ * baseBranch) keeps its mode; only the base moves to the previous commit.
+ *
+ * In multi-root windows every root is compared, each against its own
+ * commit from the previous review (other roots adapt the primary's diff
+ * source, like the context builder). Changed files are display paths.
+ *
  * @param options - Re-review options
- * @returns Object with isReReview flag and optional preamble
+ * @returns Re-review result with optional preamble and diff base
  */
-export async function processReReview(options: ReReviewOptions): Promise<{
-  isReReview: boolean;
-  preamble?: string;
-  changedFiles?: string[];
-}> {
-  const isReReview = detectReReview(options);
+export async function processReReview(options: ReReviewOptions): Promise<ReReviewResult> {
+  const isReReview = await detectReReview(options);
 
   if (!isReReview) {
     return { isReReview: false };
   }
 
-  // Get changed files
-  const baseBranch = options.baseBranch || "main";
-  const changedFiles = await getChangedFiles(baseBranch);
+  const roots = options.roots ?? new ContextRoots([options.cwd || process.cwd()]);
+  const primaryGit = new GitService(roots.primary.path);
+  const previous = options.chatId ? await getPreviousReviewState(options.chatId) : undefined;
+  const source = options.diff ?? (await primaryGit.resolveSource(options.baseBranch));
+
+  // Prefer the incremental diff since the previous review's commit of
+  // each root: the diff keeps its mode, with the commit as its base
+  let baseCommit: string | undefined;
+  let diffSource = source;
+  const rootDiffSources: Record<string, DiffSource> = {};
+  const changedFiles: string[] = [];
+
+  for (const root of roots.roots) {
+    const isPrimary = root === roots.primary;
+    const git = isPrimary ? primaryGit : new GitService(root.path);
+    const commit = isPrimary ? previous?.commit : previous?.rootCommits?.[root.path];
+
+    let rootSource = isPrimary ? source : await git.adaptSource(source);
+    if (commit && (await git.refExists(commit))) {
+      rootSource = { ...rootSource, base: commit };
+      if (isPrimary) baseCommit = commit;
+    }
+
+    if (isPrimary) {
+      diffSource = rootSource;
+    } else {
+      rootDiffSources[root.path] = rootSource;
+    }
+    const changed = await git.changedFiles(rootSource);
+    changedFiles.push(...changed.map((f) => roots.displayPathIn(root, f)));
+  }
+  const perRoot = roots.isMulti ? { rootDiffSources } : {};
 
   if (changedFiles.length === 0) {
     // No changed files, but still a re-review - use a simpler preamble
@@ -190,15 +282,26 @@ This is a RE-REVIEW. Please re-read any files you reviewed previously as they ma
 
 `,
       changedFiles: [],
+      baseCommit,
+      diffSource,
+      ...perRoot,
     };
   }
 
+  const previousFindings = (previous?.findings ?? []).filter((f) =>
+    changedFiles.some((file) => findingMatchesFile(f, file))
+  );
+
   const reviewType = options.reviewType || "implementation";
-  const preamble = buildReReviewPreamble(changedFiles, reviewType);
+  const preamble = buildReReviewPreamble(changedFiles, reviewType, previousFindings);
 
   return {
     isReReview: true,
     preamble,
     changedFiles,
+    baseCommit,
+    diffSource,
+    ...perRoot,
+    previousFindings,
   };
 }
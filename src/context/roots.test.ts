@@ -0,0 +1,49 @@
+/**
+ * Tests for review roots
+ */
+
+import { describe, it, expect } from "bun:test";
+import { ContextRoots } from "./roots";
+import { IgnoreMatcher } from "./ignore";
+
+describe("ContextRoots", () => {
+  it("shows root-relative paths with a single root", () => {
+    const roots = new ContextRoots(["/work/app"]);
+
+    expect(roots.isMulti).toBe(false);
+    expect(roots.displayPath("/work/app/src/a.ts")).toBe("src/a.ts");
+    expect(roots.absolutePath("src/a.ts")).toBe("/work/app/src/a.ts");
+  });
+
+  it("prefixes paths with unique root labels", () => {
+    const roots = new ContextRoots(["/work/frontend", "/work/backend", "/other/backend"]);
+
+    expect(roots.roots.map((r) => r.label)).toEqual(["frontend", "backend", "backend-2"]);
+    expect(roots.displayPath("/work/backend/src/api.ts")).toBe("backend/src/api.ts");
+    expect(roots.displayPathIn(roots.roots[2], "src/api.ts")).toBe("backend-2/src/api.ts");
+    expect(roots.absolutePath("backend-2/src/api.ts")).toBe("/other/backend/src/api.ts");
+  });
+
+  it("falls back to the primary root for paths outside every root", () => {
+    const roots = new ContextRoots(["/work/frontend", "/work/backend"]);
+
+    expect(roots.rootOf("/tmp/x.ts")).toBe(roots.primary);
+    expect(roots.displayPath("/work/shared/x.ts")).toBe("../shared/x.ts");
+    expect(roots.absolutePath("src/a.ts")).toBe("/work/frontend/src/a.ts");
+  });
+
+  it("picks the innermost root and applies its ignore rules", () => {
+    const roots = new ContextRoots([
+      "/work/app",
+      { path: "/work/app/vendor/lib", ignore: new IgnoreMatcher(["*.gen.ts"], "/work/app/vendor/lib") },
+    ]);
+
+    expect(roots.rootOf("/work/app/vendor/lib/a.ts").label).toBe("lib");
+    expect(roots.ignores("/work/app/vendor/lib/a.gen.ts")).toBe(true);
+    expect(roots.ignores("/work/app/b.gen.ts")).toBe(false);
+  });
+
+  it("requires a root", () => {
+    expect(() => new ContextRoots([])).toThrow("At least one root folder is required");
+  });
+});
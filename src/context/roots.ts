@@ -0,0 +1,142 @@
+/**
+ * Review roots
+ *
+ * A window can have several root folders (e.g. a frontend and a backend
+ * repo). Paths shown in review context are relative to the root that
+ * contains them; with more than one root, they're prefixed with the
+ * root's label (its folder name, made unique) so files from different
+ * roots can't be confused:
+ *
+ *   one root:   src/api.ts
+ *   two roots:  backend/src/api.ts, frontend/src/api.ts
+ *
+ * The first root is the primary one: config, specs and re-review state
+ * come from it, and paths outside every root are shown relative to it.
+ * Other roots review the primary root's diff source where their refs
+ * allow it, unless they're given their own (as re-reviews do).
+ */
+
+import { basename, isAbsolute, join, relative, resolve } from "path";
+import type { IgnoreMatcher } from "./ignore";
+import type { DiffSource } from "../git";
+
+/** A root folder of the window */
+export interface ContextRoot {
+  /** Absolute path of the root folder */
+  path: string;
+  /** Prefix for the root's paths when there are several roots */
+  label: string;
+  /** Ignore rules of this root */
+  ignore?: IgnoreMatcher;
+  /** Diff source of this root (other roots only; default: adapted from the primary's) */
+  diff?: DiffSource;
+}
+
+/**
+ * Check whether a path is inside (or is) a folder
+ */
+function isInside(path: string, folder: string): boolean {
+  const rel = relative(folder, path);
+  return rel === "" || (!rel.startsWith("..") && !isAbsolute(rel));
+}
+
+/**
+ * The root folders a review covers
+ */
+export class ContextRoots {
+  readonly roots: ContextRoot[];
+
+  /**
+   * @param roots - Root folders (paths, or paths with ignore rules and diff sources), primary first
+   */
+  constructor(roots: Array<string | { path: string; ignore?: IgnoreMatcher; diff?: DiffSource }>) {
+    const used = new Set<string>();
+    this.roots = roots.map((root) => {
+      const { path, ignore, diff } = typeof root === "string" ? { path: root, ignore: undefined, diff: undefined } : root;
+      const name = basename(resolve(path)) || "root";
+
+      let label = name;
+      for (let n = 2; used.has(label); n++) {
+        label = `${name}-${n}`;
+      }
+      used.add(label);
+
+      return { path: resolve(path), label, ignore, diff };
+    });
+
+    if (this.roots.length === 0) {
+      throw new Error("At least one root folder is required");
+    }
+  }
+
+  /** The first root */
+  get primary(): ContextRoot {
+    return this.roots[0];
+  }
+
+  /** Whether paths are shown with root labels */
+  get isMulti(): boolean {
+    return this.roots.length > 1;
+  }
+
+  /**
+   * Find the root containing an absolute path (the innermost one, if
+   * roots are nested)
+   *
+   * @returns The containing root, or the primary root if none contains it
+   */
+  rootOf(path: string): ContextRoot {
+    let best: ContextRoot | undefined;
+    for (const root of this.roots) {
+      if (isInside(path, root.path) && (!best || root.path.length > best.path.length)) {
+        best = root;
+      }
+    }
+    return best ?? this.primary;
+  }
+
+  /**
+   * Path of a file as shown in review context
+   *
+   * @param path - Absolute path
+   */
+  displayPath(path: string): string {
+    const root = this.rootOf(path);
+    const rel = relative(root.path, path);
+    return this.isMulti && isInside(path, root.path) ? join(root.label, rel) : rel;
+  }
+
+  /**
+   * Path shown for a file given relative to one of the roots
+   *
+   * @param root - Root the path is relative to
+   * @param path - Path relative to root (or absolute)
+   */
+  displayPathIn(root: ContextRoot, path: string): string {
+    return this.displayPath(resolve(root.path, path));
+  }
+
+  /**
+   * Absolute path of a path shown in review context
+   *
+   * Label-prefixed paths resolve into their root; anything else resolves
+   * against the primary root.
+   */
+  absolutePath(displayPath: string): string {
+    if (this.isMulti) {
+      const [label, ...rest] = displayPath.split("/");
+      const root = this.roots.find((r) => r.label === label);
+      if (root) {
+        return join(root.path, ...rest);
+      }
+    }
+    return resolve(this.primary.path, displayPath);
+  }
+
+  /**
+   * Check an absolute path against the ignore rules of its root
+   */
+  ignores(path: string): boolean {
+    return this.rootOf(path).ignore?.ignores(path) ?? false;
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Tests for SARIF export of findings
+ */
+
+import { describe, it, expect } from "bun:test";
+import { findingsToSarif, severityToLevel } from "./sarif";
+import { ContextRoots } from "./roots";
+import type { Finding } from "./findings";
+
+const ROOT = "/work/project";
+
+function finding(overrides: Partial<Finding> = {}): Finding {
+  return {
+    severity: "major",
+    file: "src/app.ts",
+    line: 10,
+    issue: "Something is wrong",
+    focus: "general",
+    ...overrides,
+  };
+}
+
+describe("severityToLevel", () => {
+  it("maps severities to SARIF levels", () => {
+    expect(severityToLevel("critical")).toBe("error");
+    expect(severityToLevel("major")).toBe("warning");
+    expect(severityToLevel("minor")).toBe("note");
+  });
+});
+
+describe("findingsToSarif", () => {
+  it("produces a SARIF 2.1.0 log with the project root as SRCROOT", () => {
+    const log = findingsToSarif([], ROOT);
+
+    expect(log.version).toBe("2.1.0");
+    expect(log.runs).toHaveLength(1);
+    expect(log.runs[0].tool.driver.name).toBe("wdyt");
+    expect(log.runs[0].originalUriBaseIds.SRCROOT.uri).toBe("file:///work/project/");
+    expect(log.runs[0].results).toEqual([]);
+  });
+
+  it("uses focus areas as rule ids", () => {
+    const log = findingsToSarif(
+      [
+        finding({ focus: "security" }),
+        finding({ focus: "performance" }),
+        finding({ focus: "security" }),
+      ],
+      ROOT
+    );
+
+    const run = log.runs[0];
+    expect(run.tool.driver.rules.map((r) => r.id)).toEqual(["security", "performance"]);
+    expect(run.results.map((r) => r.ruleId)).toEqual(["security", "performance", "security"]);
+    expect(run.results.map((r) => r.ruleIndex)).toEqual([0, 1, 0]);
+  });
+
+  it("makes absolute paths inside the root relative", () => {
+    const log = findingsToSarif([finding({ file: `${ROOT}/src/db.ts`, line: 7 })], ROOT);
+
+    expect(log.runs[0].results[0].locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: "src/db.ts", uriBaseId: "SRCROOT" },
+      region: { startLine: 7 },
+    });
+  });
+
+  it("keeps paths outside the root as absolute file URIs", () => {
+    const log = findingsToSarif([finding({ file: "/elsewhere/lib.ts" })], ROOT);
+
+    expect(log.runs[0].results[0].locations[0].physicalLocation.artifactLocation).toEqual({
+      uri: "file:///elsewhere/lib.ts",
+    });
+  });
+
+  it("resolves label-prefixed paths into their root in multi-root windows", () => {
+    const roots = new ContextRoots(["/work/web", "/work/api"]);
+    const log = findingsToSarif(
+      [finding({ file: "web/src/app.ts" }), finding({ file: "api/src/x.ts" }), finding({ file: "/work/api/lib/y.ts" })],
+      roots
+    );
+
+    expect(log.runs[0].originalUriBaseIds).toEqual({
+      SRCROOT: { uri: "file:///work/web/" },
+      SRCROOT_api: { uri: "file:///work/api/" },
+    });
+    expect(log.runs[0].results.map((r) => r.locations[0].physicalLocation.artifactLocation)).toEqual([
+      { uri: "src/app.ts", uriBaseId: "SRCROOT" },
+      { uri: "src/x.ts", uriBaseId: "SRCROOT_api" },
+      { uri: "lib/y.ts", uriBaseId: "SRCROOT_api" },
+    ]);
+  });
+
+  it("omits the region when the line is unknown", () => {
+    const log = findingsToSarif([finding({ file: "./src/a.ts", line: undefined })], ROOT);
+    const location = log.runs[0].results[0].locations[0].physicalLocation;
+
+    expect(location.artifactLocation.uri).toBe("src/a.ts");
+    expect(location.region).toBeUndefined();
+  });
+
+  it("carries evidence and fix in result properties", () => {
+    const log = findingsToSarif(
+      [finding({ severity: "critical", evidence: "because", fix: "do this" })],
+      ROOT
+    );
+    const result = log.runs[0].results[0];
+
+    expect(result.level).toBe("error");
+    expect(result.message.text).toBe("Something is wrong");
+    expect(result.properties).toMatchObject({
+      severity: "critical",
+      evidence: "because",
+      fix: "do this",
+    });
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * SARIF Export Module
+ *
+ * Converts review findings into a SARIF 2.1.0 log so code-scanning
+ * dashboards can ingest them directly.
+ *
+ * Mapping:
+ * - Finding.severity -> result.level (critical=error, major=warning, minor=note)
+ * - Finding.focus -> result.ruleId (one rule per focus area)
+ * - Finding.file/line -> physical location relative to the project root
+ *
+ * In multi-root windows, findings name files by display path (prefixed
+ * with the root's label). Each root gets its own base URI id: SRCROOT for
+ * the primary root, SRCROOT_<label> for the others.
+ */
+
+import { isAbsolute, relative, sep } from "path";
+import { pathToFileURL } from "url";
+import pkg from "../../package.json";
+import type { Finding } from "./findings";
+import { ContextRoots, type ContextRoot } from "./roots";
+
+/** SARIF schema URI for version 2.1.0 */
+export const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+
+/** Base URI id that all relative artifact locations resolve against */
+const SRCROOT = "SRCROOT";
+
+/** SARIF result level */
+export type SarifLevel = "error" | "warning" | "note";
+
+/** SARIF reporting descriptor (rule) */
+export interface SarifRule {
+  id: string;
+  shortDescription: { text: string };
+}
+
+/** SARIF result */
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId?: string };
+      region?: { startLine: number };
+    };
+  }>;
+  properties?: {
+    severity: Finding["severity"];
+    evidence?: string;
+    fix?: string;
+    confidence?: number;
+  };
+}
+
+/** SARIF log (the subset wdyt emits) */
+export interface SarifLog {
+  $schema: string;
+  version: "2.1.0";
+  runs: Array<{
+    tool: {
+      driver: {
+        name: string;
+        version: string;
+        informationUri: string;
+        rules: SarifRule[];
+      };
+    };
+    originalUriBaseIds: Record<string, { uri: string }>;
+    results: SarifResult[];
+  }>;
+}
+
+/**
+ * Map a finding severity to a SARIF level
+ */
+export function severityToLevel(severity: Finding["severity"]): SarifLevel {
+  switch (severity) {
+    case "critical":
+      return "error";
+    case "major":
+      return "warning";
+    default:
+      return "note";
+  }
+}
+
+/**
+ * Base URI id for a root's files
+ */
+function baseIdOf(roots: ContextRoots, root: ContextRoot): string {
+  return root === roots.primary ? SRCROOT : `${SRCROOT}_${root.label}`;
+}
+
+/**
+ * Build the artifact location for a finding's file
+ *
+ * Files inside a root become root-relative URIs under the root's base id;
+ * paths outside every root are kept as absolute file URIs.
+ */
+function toArtifactLocation(
+  file: string,
+  roots: ContextRoots
+): { uri: string; uriBaseId?: string } {
+  const path = roots.absolutePath(file);
+  const root = roots.rootOf(path);
+  const relPath = relative(root.path, path);
+
+  if (isAbsolute(relPath) || relPath.startsWith("..")) {
+    return { uri: pathToFileURL(path).href };
+  }
+
+  return { uri: encodeURI(relPath.split(sep).join("/")), uriBaseId: baseIdOf(roots, root) };
+}
+
+/**
+ * Convert findings to a SARIF 2.1.0 log
+ *
+ * @param findings - Findings to export
+ * @param rootPath - Project root (or window roots) that file paths are relative to
+ * @returns SARIF log with a single run
+ */
+export function findingsToSarif(findings: Finding[], rootPath: string | ContextRoots): SarifLog {
+  const roots = typeof rootPath === "string" ? new ContextRoots([rootPath]) : rootPath;
+  const rules: SarifRule[] = [];
+  const ruleIndex = new Map<string, number>();
+
+  const results = findings.map((finding): SarifResult => {
+    const ruleId = finding.focus || "general";
+    if (!ruleIndex.has(ruleId)) {
+      ruleIndex.set(ruleId, rules.length);
+      rules.push({
+        id: ruleId,
+        shortDescription: { text: `wdyt ${ruleId} review` },
+      });
+    }
+
+    const region = finding.line && finding.line > 0
+      ? { startLine: finding.line }
+      : undefined;
+
+    return {
+      ruleId,
+      ruleIndex: ruleIndex.get(ruleId)!,
+      level: severityToLevel(finding.severity),
+      message: { text: finding.issue },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: toArtifactLocation(finding.file, roots),
+            ...(region && { region }),
+          },
+        },
+      ],
+      properties: {
+        severity: finding.severity,
+        evidence: finding.evidence,
+        fix: finding.fix,
+        confidence: finding.confidence,
+      },
+    };
+  });
+
+  // originalUriBaseIds URIs must end with a slash to act as a base
+  const originalUriBaseIds = Object.fromEntries(
+    roots.roots.map((root) => [
+      baseIdOf(roots, root),
+      { uri: pathToFileURL(root.path).href.replace(/\/?$/, "/") },
+    ])
+  );
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "wdyt",
+            version: pkg.version,
+            informationUri: pkg.homepage,
+            rules,
+          },
+        },
+        originalUriBaseIds,
+        results,
+      },
+    ],
+  };
+}
@@ -12,11 +12,26 @@
  * - Confidence scoring reduces false positives (Claude official)
  */
 
-import { $ } from "bun";
+import { join } from "path";
+import type { TldrClient } from "../tldr";
+import type { IgnoreMatcher } from "./ignore";
+import { GitService, type DiffSource } from "../git";
 
 /** Strategy types */
 export type StrategyType = "single-pass" | "multi-pass" | "exploration";
 
+/**
+ * What chat_send answers with (set per tab by `builder --response-type`)
+ *
+ * - review: a code review, strategy picked from the change
+ * - plan: a single-pass review of a plan against the codebase
+ * - chat: a single-pass answer to the prompt, without a verdict
+ */
+export type ResponseType = "review" | "plan" | "chat";
+
+/** Valid response types */
+export const RESPONSE_TYPES: readonly ResponseType[] = ["review", "plan", "chat"];
+
 /** Context for strategy selection */
 export interface StrategyContext {
   /** Files changed in the diff */
@@ -31,6 +46,8 @@ export interface StrategyContext {
   taskSpecPath?: string;
   /** Type of review requested */
   reviewType?: "implementation" | "plan" | "security" | "audit";
+  /** What the response should be (plan and chat are always single-pass) */
+  responseType?: ResponseType;
   /** CLI flags */
   flags?: {
     /** Force multi-pass review */
@@ -72,6 +89,29 @@ export interface ReviewStrategy {
   config: StrategyConfig;
 }
 
+/** Thresholds that drive strategy selection */
+export interface StrategyThresholds {
+  /** More changed files than this use multi-pass (default: 10) */
+  multiPassFiles: number;
+  /** Average complexity above this upgrades to multi-pass (default: 15) */
+  highComplexity: number;
+  /** At most this many files counts as a small change (default: 3) */
+  smallChangeFiles: number;
+  /** Fewer changed lines than this counts as a small change (default: 500) */
+  smallChangeLines: number;
+  /** Iteration cap for exploration reviews (default: 50) */
+  explorationIterations: number;
+}
+
+/** Default strategy thresholds */
+export const DEFAULT_STRATEGY_THRESHOLDS: StrategyThresholds = {
+  multiPassFiles: 10,
+  highComplexity: 15,
+  smallChangeFiles: 3,
+  smallChangeLines: 500,
+  explorationIterations: 50,
+};
+
 /** Git diff statistics */
 export interface GitDiffStats {
   /** List of changed file paths */
@@ -85,44 +125,124 @@ export interface GitDiffStats {
 /**
  * Get git diff statistics
  *
- * @param baseBranch - Base branch to compare against (default: HEAD~1)
+ * @param source - Diff source, or a base ref to compare the working tree
+ *   against (default: the detected default branch, see GitService)
+ * @param cwd - Repository to run git in (default: process cwd)
+ * @param ignore - Ignore rules; ignored files don't count toward the stats
  * @returns Diff statistics with file list and line counts
  */
-export async function getGitDiffStats(baseBranch?: string): Promise<GitDiffStats> {
-  const branch = baseBranch || "HEAD~1";
-
-  try {
-    // Get list of changed files
-    const filesResult = await $`git diff --name-only ${branch}`.text();
-    const files = filesResult
-      .trim()
-      .split("\n")
-      .filter(Boolean);
-
-    // Get numstat for additions/deletions
-    const statResult = await $`git diff --numstat ${branch}`.text();
-    let additions = 0;
-    let deletions = 0;
-
-    for (const line of statResult.trim().split("\n")) {
-      if (!line) continue;
-      const [add, del] = line.split("\t");
-      // Binary files show as "-" for add/del
-      if (add !== "-") additions += parseInt(add, 10) || 0;
-      if (del !== "-") deletions += parseInt(del, 10) || 0;
+export async function getGitDiffStats(
+  source?: DiffSource | string,
+  cwd?: string,
+  ignore?: IgnoreMatcher,
+): Promise<GitDiffStats> {
+  const git = new GitService(cwd || process.cwd());
+  const resolved = typeof source === "object" ? source : await git.resolveSource(source);
+
+  const [changed, numstat] = await Promise.all([
+    git.changedFiles(resolved),
+    git.numstat(resolved),
+  ]);
+
+  const files = changed.filter((f) => !ignore?.ignores(f));
+  let additions = 0;
+  let deletions = 0;
+  for (const stat of numstat) {
+    if (ignore?.ignores(stat.path)) continue;
+    additions += stat.additions;
+    deletions += stat.deletions;
+  }
+
+  return { files, additions, deletions };
+}
+
+/** Maximum changed files sampled for complexity analysis */
+const MAX_COMPLEXITY_FILES = 10;
+
+/** Maximum functions sampled per file for complexity analysis */
+const MAX_COMPLEXITY_FUNCTIONS = 10;
+
+/**
+ * Compute the average cyclomatic complexity of functions in changed files
+ *
+ * Uses tldr structure to list functions/methods and tldr cfg to score them.
+ * Sampling is capped so large diffs don't spawn hundreds of subprocesses.
+ *
+ * @param files - Changed file paths (relative to projectPath or absolute)
+ * @param tldr - TldrClient instance
+ * @param projectPath - Project root path
+ * @returns Average complexity, or undefined if nothing could be scored
+ */
+export async function getAverageComplexity(
+  files: string[],
+  tldr: TldrClient,
+  projectPath: string,
+): Promise<number | undefined> {
+  const scores: number[] = [];
+
+  for (const file of files.slice(0, MAX_COMPLEXITY_FILES)) {
+    const filePath = file.startsWith("/") ? file : join(projectPath, file);
+
+    try {
+      const entries = await tldr.structure(filePath, projectPath);
+      const functions = entries
+        .filter((e) => e.type === "function" || e.type === "method")
+        .slice(0, MAX_COMPLEXITY_FUNCTIONS);
+
+      for (const fn of functions) {
+        try {
+          scores.push(await tldr.complexity(filePath, fn.name, projectPath));
+        } catch {
+          // Skip functions tldr can't build a CFG for
+        }
+      }
+    } catch {
+      // Unsupported language or tldr unavailable
     }
+  }
+
+  if (scores.length === 0) return undefined;
+  return scores.reduce((sum, s) => sum + s, 0) / scores.length;
+}
 
-    return { files, additions, deletions };
-  } catch {
-    // Not a git repo or git command failed
-    return { files: [], additions: 0, deletions: 0 };
+/**
+ * Normalize a free-form review type into a StrategyContext review type
+ *
+ * @param reviewType - Review type from the chat_send payload
+ * @returns Known review type or undefined
+ */
+export function parseReviewType(reviewType?: string): StrategyContext["reviewType"] {
+  switch (reviewType?.toLowerCase()) {
+    case "implementation":
+    case "impl":
+      return "implementation";
+    case "plan":
+      return "plan";
+    case "security":
+      return "security";
+    case "audit":
+    case "exploration":
+      return "audit";
+    default:
+      return undefined;
   }
 }
 
+/**
+ * Parse a response type string
+ *
+ * Unknown values (including review types like "security") are reviews.
+ */
+export function parseResponseType(responseType?: string): ResponseType {
+  const type = responseType?.toLowerCase();
+  return type === "plan" || type === "chat" ? type : "review";
+}
+
 /**
  * Select the optimal review strategy based on task characteristics
  *
  * Decision logic:
+ * 0. Plan and chat responses always use single-pass
  * 1. Explicit flags override auto-detection
  * 2. Audit/exploration tasks use agentic exploration
  * 3. Large changes (>10 files) use multi-pass
@@ -130,12 +250,30 @@ export async function getGitDiffStats(baseBranch?: string): Promise<GitDiffStats
  * 5. Everything else uses optimized single-pass
  *
  * @param ctx - Strategy context with task characteristics
+ * @param overrides - Threshold overrides (e.g. from project config)
  * @returns Selected strategy with configuration
  */
-export function selectStrategy(ctx: StrategyContext): ReviewStrategy {
+export function selectStrategy(
+  ctx: StrategyContext,
+  overrides: Partial<StrategyThresholds> = {},
+): ReviewStrategy {
+  const thresholds = { ...DEFAULT_STRATEGY_THRESHOLDS, ...overrides };
   const totalLines = ctx.linesAdded + ctx.linesRemoved;
   const fileCount = ctx.filesChanged.length;
 
+  // 0. Plans and chats get one pass with their own skill
+  if (ctx.responseType === "plan" || ctx.responseType === "chat") {
+    return {
+      type: "single-pass",
+      reason: `${ctx.responseType} response type`,
+      config: {
+        includeSpec: ctx.hasTaskSpec,
+        includeGuidelines: true,
+        includeCodeMaps: true,
+      },
+    };
+  }
+
   // 1. Explicit flag overrides
   if (ctx.flags?.thorough) {
     return {
@@ -174,13 +312,13 @@ export function selectStrategy(ctx: StrategyContext): ReviewStrategy {
         includeGuidelines: true,
         includeCodeMaps: false,
         useTools: true,
-        maxIterations: 50,
+        maxIterations: thresholds.explorationIterations,
       },
     };
   }
 
   // 3. Large changes need multi-pass
-  if (fileCount > 10) {
+  if (fileCount > thresholds.multiPassFiles) {
     return {
       type: "multi-pass",
       reason: `${fileCount} files changed`,
@@ -212,7 +350,7 @@ export function selectStrategy(ctx: StrategyContext): ReviewStrategy {
   }
 
   // 5. High complexity: upgrade to multi-pass even for small changes
-  if (ctx.avgComplexity !== undefined && ctx.avgComplexity > 15) {
+  if (ctx.avgComplexity !== undefined && ctx.avgComplexity > thresholds.highComplexity) {
     return {
       type: "multi-pass",
       reason: `High complexity (avg ${Math.round(ctx.avgComplexity)})`,
@@ -228,7 +366,7 @@ export function selectStrategy(ctx: StrategyContext): ReviewStrategy {
   }
 
   // 6. Small/medium changes with spec use optimized single-pass
-  if (fileCount <= 3 && totalLines < 500) {
+  if (fileCount <= thresholds.smallChangeFiles && totalLines < thresholds.smallChangeLines) {
     return {
       type: "single-pass",
       reason: `Small change (${fileCount} files, ${totalLines} lines)`,
@@ -0,0 +1,171 @@
+/**
+ * Tests for token counting
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  BpeTokenCounter,
+  heuristicTokenCounter,
+  createTokenCounter,
+  getDefaultTokenCounter,
+  countTokens,
+  type TokenCounter,
+} from "./tokens";
+import { COMMON_WORDS, CODE_WORDS, SUBWORDS, NGRAMS, SYMBOLS } from "./bpe-vocab";
+
+const bpe = new BpeTokenCounter();
+
+/**
+ * Reference samples with their cl100k token counts (measured with the
+ * cl100k_base encoding; not a dependency of this package)
+ */
+const REFERENCE_SAMPLES: Array<{ name: string; tokens: number; text: string }> = [
+  {
+    name: "typescript",
+    tokens: 116,
+    text: `import { join } from "path";
+import type { ReviewRecord } from "./history";
+
+/**
+ * Load the latest review for a window
+ */
+export async function loadLatest(dir: string, windowId: number): Promise<ReviewRecord | null> {
+  const file = Bun.file(join(dir, \`\${windowId}.json\`));
+  if (!(await file.exists())) {
+    return null;
+  }
+  const records = (await file.json()) as ReviewRecord[];
+  return records.sort((a, b) => b.timestamp - a.timestamp)[0] ?? null;
+}
+`,
+  },
+  {
+    name: "prose",
+    tokens: 59,
+    text: `## Re-reviews
+
+When a chat is sent again for the same selection, the previous verdict and
+its findings are included so the reviewer can say which issues were fixed.
+Reviews are stored per window in the state directory; nothing leaves your
+machine unless a backend is configured to send it.
+`,
+  },
+  {
+    name: "json",
+    tokens: 78,
+    text: `{
+  "version": 2,
+  "windows": [
+    { "id": 1, "rootFolderPaths": ["/home/user/project"], "selectedFiles": ["src/index.ts", "README.md"] },
+    { "id": 2, "rootFolderPaths": [], "selectedFiles": [] }
+  ],
+  "tokenBudget": 120000
+}
+`,
+  },
+  {
+    name: "diff",
+    tokens: 88,
+    text: `diff --git a/src/config.ts b/src/config.ts
+index 3b18e51..a9c0d12 100644
+--- a/src/config.ts
++++ b/src/config.ts
+@@ -12,7 +12,8 @@ export interface Config {
+   backend?: string;
+-  timeout: number;
++  /** Request timeout in milliseconds */
++  timeoutMs: number;
+   model?: string;
+ }
+`,
+  },
+];
+
+describe("heuristicTokenCounter", () => {
+  it("counts ~4 chars per token", () => {
+    expect(heuristicTokenCounter.count("")).toBe(0);
+    expect(heuristicTokenCounter.count("abcd")).toBe(1);
+    expect(heuristicTokenCounter.count("abcde")).toBe(2);
+  });
+});
+
+describe("BpeTokenCounter", () => {
+  it("returns 0 for empty text", () => {
+    expect(bpe.count("")).toBe(0);
+  });
+
+  it("counts common words as single tokens", () => {
+    expect(bpe.count("the")).toBe(1);
+    expect(bpe.count(" function")).toBe(1);
+    expect(bpe.count("The quick brown fox jumps over the lazy dog.")).toBe(10);
+  });
+
+  it("splits camelCase identifiers into pieces", () => {
+    expect(bpe.count("getUserById")).toBe(4);
+  });
+
+  it("counts symbol-heavy code higher than the heuristic", () => {
+    const code = "a+b*c-d";
+    expect(bpe.count(code)).toBeGreaterThan(heuristicTokenCounter.count(code));
+  });
+
+  it("counts digits in groups of up to three", () => {
+    expect(bpe.count("123456789")).toBe(3);
+  });
+
+  it("is deterministic across calls (memoized pieces)", () => {
+    const text = "export const value = compute(items);";
+    expect(bpe.count(text)).toBe(bpe.count(text));
+  });
+
+  it("stays within 10% of cl100k counts on reference samples", () => {
+    for (const sample of REFERENCE_SAMPLES) {
+      const count = bpe.count(sample.text);
+      expect(Math.abs(count - sample.tokens) / sample.tokens).toBeLessThanOrEqual(0.1);
+    }
+  });
+
+  it("handles long unbroken pieces", () => {
+    const blob = "x".repeat(10_000);
+    expect(bpe.count(blob)).toBeGreaterThan(0);
+  });
+});
+
+describe("createTokenCounter", () => {
+  it("creates counters by name", () => {
+    expect(createTokenCounter("heuristic").name).toBe("heuristic");
+    expect(createTokenCounter("bpe").name).toBe("bpe");
+    expect(createTokenCounter().name).toBe("bpe");
+  });
+});
+
+describe("getDefaultTokenCounter", () => {
+  it("defaults to bpe and honors WDYT_TOKENIZER", () => {
+    expect(getDefaultTokenCounter({}).name).toBe("bpe");
+    expect(getDefaultTokenCounter({ WDYT_TOKENIZER: "heuristic" }).name).toBe("heuristic");
+  });
+
+  it("reuses the same bpe counter", () => {
+    expect(getDefaultTokenCounter({})).toBe(getDefaultTokenCounter({}));
+  });
+});
+
+describe("countTokens", () => {
+  it("falls back to the heuristic when the counter fails", () => {
+    const broken: TokenCounter = {
+      name: "broken",
+      count() {
+        throw new Error("boom");
+      },
+    };
+    expect(countTokens("abcdefgh", broken)).toBe(2);
+  });
+});
+
+describe("bundled vocabulary", () => {
+  it("lists each entry once", () => {
+    for (const list of [COMMON_WORDS, CODE_WORDS, SUBWORDS, NGRAMS, SYMBOLS]) {
+      expect(new Set(list).size).toBe(list.length);
+    }
+  });
+});
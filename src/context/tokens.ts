@@ -0,0 +1,235 @@
+/**
+ * Token Counting Module
+ *
+ * Pluggable token counters for context budgeting. The default is a bundled
+ * BPE tokenizer (offline, no network) that splits text the way modern
+ * BPE tokenizers do: a regex pre-tokenizer followed by rank-ordered merges
+ * over a compact vocabulary. Its counts are calibrated against cl100k
+ * reference counts (see tokens.test.ts). The ~4 chars/token heuristic is
+ * kept as a fallback and can be selected explicitly.
+ *
+ * Selection: WDYT_TOKENIZER=bpe|heuristic (default: bpe)
+ */
+
+import { COMMON_WORDS, CODE_WORDS, SUBWORDS, NGRAMS, SYMBOLS } from "./bpe-vocab";
+
+/** Counts tokens in a string */
+export interface TokenCounter {
+  /** Counter name (shown in context plan summaries) */
+  readonly name: string;
+  /** Count tokens in text */
+  count(text: string): number;
+}
+
+/** Available token counters */
+export type TokenizerName = "bpe" | "heuristic";
+
+/**
+ * Heuristic counter (~4 chars per token)
+ */
+export const heuristicTokenCounter: TokenCounter = {
+  name: "heuristic",
+  count(text: string): number {
+    return Math.ceil(text.length / 4);
+  },
+};
+
+/**
+ * Pre-tokenizer pattern (modeled on cl100k): contractions, words with an
+ * optional leading non-letter, 1-3 digit numbers, punctuation runs,
+ * newlines, and whitespace runs.
+ */
+const PRE_TOKEN_REGEX =
+  /'(?:[sdmtSDMT]|ll|LL|ve|VE|re|RE)|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/gu;
+
+/** Word pieces: an optional leading non-letter followed by letters */
+const WORD_PIECE_REGEX = /^([^\p{L}\p{N}]?)(\p{L}+)$/u;
+
+/** Case humps within a word ("getUserById" -> get, User, By, Id) */
+const HUMP_REGEX = /\p{Lu}+(?!\p{Ll})|\p{Lu}?\p{Ll}+|\p{L}+/gu;
+
+/**
+ * Typical letters per token for words outside the vocabulary (calibrated
+ * against cl100k counts, see tokens.test.ts)
+ */
+const LETTERS_PER_WORD_TOKEN = 8;
+
+/** Pieces longer than this are merged in chunks to bound work */
+const MAX_PIECE_LENGTH = 64;
+
+/** Piece counts are memoized; the cache is reset when it grows past this */
+const MAX_CACHE_ENTRIES = 50_000;
+
+/**
+ * Capitalize the first letter of a word
+ */
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+/**
+ * Build merge ranks from the bundled vocabulary
+ *
+ * Every word gets bare, leading-space and capitalized variants. All
+ * prefixes of each entry are added too, so left-to-right merges can reach
+ * whole words. Shorter entries rank first, mirroring how BPE learns
+ * merges bottom-up.
+ */
+function buildRanks(): Map<string, number> {
+  const entries = new Set<string>();
+
+  const addWithPrefixes = (token: string) => {
+    for (let end = 2; end <= token.length; end++) {
+      entries.add(token.slice(0, end));
+    }
+  };
+
+  for (const word of [...COMMON_WORDS, ...CODE_WORDS, ...SUBWORDS, ...NGRAMS]) {
+    for (const variant of [word, ` ${word}`, capitalize(word), ` ${capitalize(word)}`]) {
+      addWithPrefixes(variant);
+    }
+  }
+  // Punctuation runs absorb the newlines that follow them ("{\n", ");\n\n")
+  for (const symbol of SYMBOLS) {
+    for (const variant of [symbol, `${symbol}\n`, `${symbol}\n\n`]) {
+      addWithPrefixes(variant);
+    }
+  }
+  for (let n = 2; n <= 16; n++) {
+    addWithPrefixes(" ".repeat(n));
+  }
+  // Every 1-3 digit string is a single token (numbers are pre-split into
+  // groups of three)
+  for (let n = 0; n < 1000; n++) {
+    addWithPrefixes(String(n).padStart(3, "0"));
+  }
+
+  const sorted = [...entries].sort((a, b) => a.length - b.length);
+  return new Map(sorted.map((token, rank) => [token, rank]));
+}
+
+/**
+ * Bundled BPE token counter
+ */
+export class BpeTokenCounter implements TokenCounter {
+  readonly name = "bpe";
+
+  private readonly ranks: Map<string, number>;
+  private readonly cache = new Map<string, number>();
+
+  constructor(ranks?: Map<string, number>) {
+    this.ranks = ranks ?? buildRanks();
+  }
+
+  count(text: string): number {
+    let total = 0;
+    for (const match of text.matchAll(PRE_TOKEN_REGEX)) {
+      total += this.countPiece(match[0]);
+    }
+    return total;
+  }
+
+  /**
+   * Count tokens in a single pre-token (memoized)
+   */
+  private countPiece(piece: string): number {
+    const cached = this.cache.get(piece);
+    if (cached !== undefined) return cached;
+
+    let count = 0;
+    for (let i = 0; i < piece.length; i += MAX_PIECE_LENGTH) {
+      count += this.merge(piece.slice(i, i + MAX_PIECE_LENGTH));
+    }
+
+    // The bundled vocabulary is small, so words it doesn't know fall apart
+    // into letter pairs. Real vocabularies hold most words whole; cap word
+    // pieces at a per-hump length estimate. A leading "." or "(" usually
+    // joins the word (".length", "(result"), so it isn't counted.
+    const word = piece.match(WORD_PIECE_REGEX);
+    if (word) {
+      let cap = 0;
+      for (const hump of word[2].match(HUMP_REGEX) ?? []) {
+        cap += Math.ceil(hump.length / LETTERS_PER_WORD_TOKEN);
+      }
+      count = Math.min(count, cap);
+    }
+
+    if (this.cache.size >= MAX_CACHE_ENTRIES) {
+      this.cache.clear();
+    }
+    this.cache.set(piece, count);
+    return count;
+  }
+
+  /**
+   * Apply BPE merges to a piece and return the resulting part count
+   *
+   * Repeatedly merges the adjacent pair whose concatenation has the
+   * lowest rank until no pair is in the vocabulary.
+   */
+  private merge(piece: string): number {
+    const parts = Array.from(piece);
+
+    while (parts.length > 1) {
+      let bestIndex = -1;
+      let bestRank = Infinity;
+
+      for (let i = 0; i < parts.length - 1; i++) {
+        const rank = this.ranks.get(parts[i] + parts[i + 1]);
+        if (rank !== undefined && rank < bestRank) {
+          bestRank = rank;
+          bestIndex = i;
+        }
+      }
+
+      if (bestIndex === -1) break;
+      parts.splice(bestIndex, 2, parts[bestIndex] + parts[bestIndex + 1]);
+    }
+
+    return parts.length;
+  }
+}
+
+let defaultCounter: TokenCounter | undefined;
+
+/**
+ * Create a token counter by name
+ *
+ * @param name - Counter name (default: bpe)
+ */
+export function createTokenCounter(name?: TokenizerName): TokenCounter {
+  if (name === "heuristic") {
+    return heuristicTokenCounter;
+  }
+  return new BpeTokenCounter();
+}
+
+/**
+ * Get the default token counter (WDYT_TOKENIZER, else bpe)
+ *
+ * The BPE vocabulary is built once and shared.
+ */
+export function getDefaultTokenCounter(env: Record<string, string | undefined> = process.env): TokenCounter {
+  const name = env.WDYT_TOKENIZER;
+  if (name === "heuristic") {
+    return heuristicTokenCounter;
+  }
+  if (!defaultCounter) {
+    defaultCounter = createTokenCounter("bpe");
+  }
+  return defaultCounter;
+}
+
+/**
+ * Count tokens with a counter, falling back to the heuristic on failure
+ *
+ * @param text - Text to count
+ * @param counter - Counter to use (default: getDefaultTokenCounter())
+ */
+export function countTokens(text: string, counter: TokenCounter = getDefaultTokenCounter()): number {
+  try {
+    return counter.count(text);
+  } catch {
+    return heuristicTokenCounter.count(text);
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * Spec compliance review module
+ *
+ * Turns the "Requirements" and "Acceptance Criteria" sections of a
+ * Flow-Next spec into a checklist, and runs a dedicated review pass that
+ * marks each item as met, unmet or unclear with file:line evidence.
+ *
+ * Format asked of the model:
+ * <criterion id="AC1">
+ *   <status>met|unmet|unclear</status>
+ *   <evidence>src/auth.ts:42</evidence>
+ *   <note>Why the item is (not) met</note>
+ * </criterion>
+ */
+
+import type { ReviewBackend } from "../backends";
+
+/** Spec sections that become checklist items, by heading */
+const CHECKLIST_SECTIONS = new Map<string, ChecklistItem["section"]>([
+  ["requirements", "requirement"],
+  ["acceptance criteria", "acceptance"],
+  ["acceptance", "acceptance"],
+]);
+
+/** Compliance statuses */
+export const COMPLIANCE_STATUSES = ["met", "unmet", "unclear"] as const;
+
+export type ComplianceStatus = (typeof COMPLIANCE_STATUSES)[number];
+
+/** A requirement or acceptance criterion from a spec */
+export interface ChecklistItem {
+  /** Stable ID within the spec (R1, R2, ... / AC1, AC2, ...) */
+  id: string;
+  /** Section the item came from */
+  section: "requirement" | "acceptance";
+  /** Item text, without list markers or checkboxes */
+  text: string;
+}
+
+/** A location backing a compliance status */
+export interface ComplianceEvidence {
+  file: string;
+  line?: number;
+}
+
+/** A checklist item with the review's status for it */
+export interface ComplianceResult extends ChecklistItem {
+  status: ComplianceStatus;
+  /** Code locations the status is based on */
+  evidence: ComplianceEvidence[];
+  /** Reviewer's explanation */
+  note?: string;
+}
+
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?(.*)$/;
+
+/**
+ * Parse the Requirements and Acceptance Criteria sections of a spec
+ *
+ * Every list item in those sections (at any level) is one checklist item;
+ * `- [ ]` / `- [x]` checkboxes are dropped. Indented non-list lines
+ * continue the previous item. A section ends at the next heading of the
+ * same or a higher level.
+ *
+ * @param content - Spec markdown
+ * @returns Checklist items in spec order
+ */
+export function parseSpecChecklist(content: string): ChecklistItem[] {
+  const items: ChecklistItem[] = [];
+  const counts = { requirement: 0, acceptance: 0 };
+  let section: { kind: ChecklistItem["section"]; level: number } | undefined;
+  let current: ChecklistItem | undefined;
+
+  for (const line of content.split("\n")) {
+    const heading = line.match(HEADING);
+    if (heading) {
+      const level = heading[1].length;
+      const kind = CHECKLIST_SECTIONS.get(heading[2].trim().toLowerCase());
+      current = undefined;
+      if (kind) {
+        section = { kind, level };
+      } else if (section && level <= section.level) {
+        section = undefined;
+      }
+      continue;
+    }
+    if (!section) continue;
+
+    const item = line.match(LIST_ITEM);
+    if (item && item[1].trim()) {
+      counts[section.kind]++;
+      current = {
+        id: `${section.kind === "requirement" ? "R" : "AC"}${counts[section.kind]}`,
+        section: section.kind,
+        text: item[1].trim(),
+      };
+      items.push(current);
+    } else if (current && /^\s+\S/.test(line)) {
+      current.text += ` ${line.trim()}`;
+    } else if (!line.trim()) {
+      current = undefined;
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Build the prompt for the compliance pass
+ *
+ * @param items - Checklist parsed from the spec
+ * @param contextXml - Packed review context (includes the spec itself)
+ */
+export function buildCompliancePrompt(items: ChecklistItem[], contextXml: string): string {
+  const checklist = items
+    .map((item) => `- ${item.id} (${item.section}): ${item.text}`)
+    .join("\n");
+
+  return `You are checking whether a change satisfies its spec.
+
+For every checklist item below, decide from the code in the context:
+- met: the change implements it, and you can point at the code
+- unmet: the change does not implement it, or implements it incorrectly
+- unclear: the context is not enough to tell
+
+## Checklist
+
+${checklist}
+
+## Output Format
+
+For each checklist item, output in this exact format:
+<criterion id="AC1">
+  <status>met|unmet|unclear</status>
+  <evidence>path/to/file.ts:42</evidence>
+  <note>One sentence on why</note>
+</criterion>
+
+Use one <evidence> tag per location, with paths as they appear in the context.
+
+## Context
+
+${contextXml}`;
+}
+
+/**
+ * Parse a `file:line` (or bare file) evidence reference
+ */
+function parseEvidence(value: string): ComplianceEvidence | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+
+  const match = trimmed.match(/^(.+?):(\d+)(?:[-:]\d+)?$/);
+  return match ? { file: match[1], line: parseInt(match[2], 10) } : { file: trimmed };
+}
+
+/**
+ * Parse compliance pass output into results for a checklist
+ *
+ * Items the output doesn't mention, or gives an unknown status, come
+ * back as unclear with no evidence.
+ *
+ * @param output - Raw compliance pass output
+ * @param items - Checklist the pass was run for
+ * @returns One result per checklist item, in checklist order
+ */
+export function parseCompliance(output: string, items: ChecklistItem[]): ComplianceResult[] {
+  const blocks = new Map<string, string>();
+  for (const match of output.matchAll(/<criterion\s+id="([^"]+)"\s*>([\s\S]*?)<\/criterion>/g)) {
+    blocks.set(match[1].trim().toUpperCase(), match[2]);
+  }
+
+  return items.map((item) => {
+    const block = blocks.get(item.id);
+    if (block === undefined) {
+      return { ...item, status: "unclear", evidence: [] };
+    }
+
+    const status = block.match(/<status>([\s\S]*?)<\/status>/)?.[1].trim().toLowerCase();
+    const evidence = [...block.matchAll(/<evidence>([\s\S]*?)<\/evidence>/g)]
+      .map((m) => parseEvidence(m[1]))
+      .filter((e): e is ComplianceEvidence => e !== undefined);
+    const note = block.match(/<note>([\s\S]*?)<\/note>/)?.[1].trim();
+
+    return {
+      ...item,
+      status: COMPLIANCE_STATUSES.find((s) => s === status) ?? "unclear",
+      evidence,
+      note: note || undefined,
+    };
+  });
+}
+
+/**
+ * Run the compliance pass for a checklist
+ *
+ * A failed pass marks every item unclear rather than failing the review.
+ *
+ * @param items - Checklist parsed from the spec
+ * @param contextXml - Packed review context
+ * @param backend - Review backend to run the pass on
+ */
+export async function runComplianceReview(
+  items: ChecklistItem[],
+  contextXml: string,
+  backend: ReviewBackend,
+): Promise<ComplianceResult[]> {
+  try {
+    const output = await backend.run({ prompt: buildCompliancePrompt(items, contextXml) });
+    return parseCompliance(output, items);
+  } catch (error) {
+    console.error(`Compliance pass failed: ${error instanceof Error ? error.message : String(error)}`);
+    return parseCompliance("", items);
+  }
+}
+
+/**
+ * Format compliance results as a markdown section for the review output
+ */
+export function formatCompliance(results: ComplianceResult[]): string {
+  const count = (status: ComplianceStatus) => results.filter((r) => r.status === status).length;
+  const lines = [
+    "## Spec Compliance",
+    "",
+    `${count("met")} met, ${count("unmet")} unmet, ${count("unclear")} unclear`,
+    "",
+  ];
+
+  for (const result of results) {
+    const box = result.status === "met" ? "[x]" : "[ ]";
+    lines.push(`- ${box} **${result.id}** (${result.status}) ${result.text}`);
+    if (result.evidence.length > 0) {
+      const refs = result.evidence.map((e) => (e.line ? `${e.file}:${e.line}` : e.file));
+      lines.push(`  - Evidence: ${refs.join(", ")}`);
+    }
+    if (result.note) lines.push(`  - Note: ${result.note}`);
+  }
+
+  return lines.join("\n");
+}
@@ -13,6 +13,22 @@ export {
   formatSpecXml,
   getTaskSpecContext,
   extractTaskIdFromPayload,
+  findTaskIds,
+  loadReviewSpecs,
   type TaskSpecResult,
   type LoadTaskSpecOptions,
 } from "./specs";
+
+// Spec compliance checklist review
+export {
+  parseSpecChecklist,
+  buildCompliancePrompt,
+  parseCompliance,
+  runComplianceReview,
+  formatCompliance,
+  COMPLIANCE_STATUSES,
+  type ChecklistItem,
+  type ComplianceEvidence,
+  type ComplianceResult,
+  type ComplianceStatus,
+} from "./compliance";
@@ -14,6 +14,8 @@ import {
   formatSpecXml,
   getTaskSpecContext,
   extractTaskIdFromPayload,
+  findTaskIds,
+  loadReviewSpecs,
 } from "./specs";
 
 // Test fixtures
@@ -258,3 +260,44 @@ describe("extractTaskIdFromPayload", () => {
     expect(extractTaskIdFromPayload("string")).toBeNull();
   });
 });
+
+describe("findTaskIds", () => {
+  it("finds task IDs in branch names and commit messages", () => {
+    expect(findTaskIds("feature/fn-2-vth.7-login")).toEqual(["fn-2-vth.7"]);
+    expect(findTaskIds("abc1234 fn-1.2: fix auth (see FN-1.3, fn-1.2)")).toEqual(["fn-1.2", "fn-1.3"]);
+  });
+
+  it("ignores text that only contains fn- inside a word", () => {
+    expect(findTaskIds("main")).toEqual([]);
+    expect(findTaskIds("def fn-x and myfn-1.2")).toEqual([]);
+  });
+});
+
+describe("loadReviewSpecs", () => {
+  beforeAll(async () => {
+    mkdirSync(join(TEST_FLOW_DIR, "tasks"), { recursive: true });
+    mkdirSync(join(TEST_FLOW_DIR, "specs"), { recursive: true });
+    await Bun.write(join(TEST_FLOW_DIR, "tasks", "fn-99-test.1.md"), SAMPLE_SPEC);
+    await Bun.write(join(TEST_FLOW_DIR, "specs", "fn-99-test.md"), SAMPLE_EPIC_SPEC);
+  });
+
+  afterAll(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it("loads a task spec with its parent epic", async () => {
+    const specs = await loadReviewSpecs(["fn-99-test.1"], { flowDir: TEST_FLOW_DIR });
+    expect(specs.map((s) => s.taskId)).toEqual(["fn-99-test.1", "fn-99-test"]);
+  });
+
+  it("loads the epic when the task spec is missing", async () => {
+    const specs = await loadReviewSpecs(["fn-99-test.5"], { flowDir: TEST_FLOW_DIR });
+    expect(specs.map((s) => s.taskId)).toEqual(["fn-99-test"]);
+  });
+
+  it("uses the first candidate that has a spec", async () => {
+    const specs = await loadReviewSpecs(["fn-7.1", "fn-99-test.1"], { flowDir: TEST_FLOW_DIR });
+    expect(specs[0].taskId).toBe("fn-99-test.1");
+    expect(await loadReviewSpecs(["fn-7.1"], { flowDir: TEST_FLOW_DIR })).toEqual([]);
+  });
+});
@@ -13,6 +13,9 @@ import { join } from "path";
  */
 const TASK_ID_REGEX = /^fn-\d+(?:-[a-z0-9]+)?(?:\.\d+)?$/i;
 
+/** Task IDs inside free text (branch names, commit messages) */
+const TASK_ID_IN_TEXT_REGEX = /(?<![a-z0-9])fn-\d+(?:-[a-z0-9]+)?(?:\.\d+)?(?![a-z0-9])/gi;
+
 /**
  * Result of loading a task spec
  */
@@ -195,14 +198,15 @@ export async function loadTaskSpec(
  * ```
  *
  * @param result - The task spec result from loadTaskSpec
+ * @param tag - Element name (e.g. "epic_spec" for a parent epic)
  * @returns Formatted XML string, or empty string if no spec found
  */
-export function formatSpecXml(result: TaskSpecResult): string {
+export function formatSpecXml(result: TaskSpecResult, tag: string = "task_spec"): string {
   if (!result.found || !result.content) {
     return "";
   }
 
-  return `<task_spec>\n${result.content.trim()}\n</task_spec>`;
+  return `<${tag}>\n${result.content.trim()}\n</${tag}>`;
 }
 
 /**
@@ -253,3 +257,51 @@ export function extractTaskIdFromPayload(payload: unknown): string | null {
 
   return null;
 }
+
+/**
+ * Find task IDs mentioned in free text
+ *
+ * Used to infer the task under review from a branch name
+ * (e.g. feature/fn-2-vth.7) or commit messages.
+ *
+ * @param text - Text to scan
+ * @returns Task IDs in order of appearance, without duplicates
+ */
+export function findTaskIds(text: string): string[] {
+  const ids: string[] = [];
+  for (const match of text.matchAll(TASK_ID_IN_TEXT_REGEX)) {
+    const parsed = parseTaskId(match[0]);
+    if (parsed && !ids.includes(parsed)) {
+      ids.push(parsed);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Load the specs for the first candidate ID that has one
+ *
+ * For a task, the parent epic spec is loaded too (even when the task's
+ * own spec is missing).
+ *
+ * @param candidates - Task or epic IDs, most likely first
+ * @param options - Loading options
+ * @returns Found specs (task first, then its epic), or [] if none found
+ */
+export async function loadReviewSpecs(
+  candidates: string[],
+  options: LoadTaskSpecOptions = {}
+): Promise<TaskSpecResult[]> {
+  for (const candidate of candidates) {
+    const spec = await loadTaskSpec(candidate, options);
+    const epic = isTaskId(spec.taskId)
+      ? await loadTaskSpec(getEpicId(spec.taskId), options)
+      : undefined;
+
+    const found = [spec, epic].filter((s): s is TaskSpecResult => s?.found === true);
+    if (found.length > 0) {
+      return found;
+    }
+  }
+  return [];
+}
@@ -7,6 +7,8 @@ import {
   getDiffStat,
   getCommits,
   getChangedFiles,
+  getDiff,
+  getDiffNumstat,
   getBranchName,
   getGitDiffContext,
   formatDiffContextXml,
@@ -95,13 +97,10 @@ describe("Git diff context", () => {
       expect(stat).toMatch(/\d+\s+(file|files)\s+changed/);
     });
 
-    test("returns empty string for invalid base", async () => {
-      const stat = await getDiffStat({
-        base: "nonexistent-branch",
-        cwd: FIXTURES_DIR,
-      });
-
-      expect(stat).toBe("");
+    test("rejects an unknown base", async () => {
+      await expect(getDiffStat({ base: "nonexistent-branch", cwd: FIXTURES_DIR })).rejects.toThrow(
+        "Unknown ref: nonexistent-branch"
+      );
     });
 
     test("uses default base of main", async () => {
@@ -126,13 +125,10 @@ describe("Git diff context", () => {
       expect(commits.some((c) => c.includes("add types"))).toBe(true);
     });
 
-    test("returns empty array for invalid base", async () => {
-      const commits = await getCommits({
-        base: "nonexistent-branch",
-        cwd: FIXTURES_DIR,
-      });
-
-      expect(commits).toEqual([]);
+    test("rejects an unknown base", async () => {
+      await expect(getCommits({ base: "nonexistent-branch", cwd: FIXTURES_DIR })).rejects.toThrow(
+        "Unknown ref: nonexistent-branch"
+      );
     });
 
     test("returns empty array when no commits between refs", async () => {
@@ -157,13 +153,66 @@ describe("Git diff context", () => {
       expect(files).toContain("src/types.ts");
     });
 
-    test("returns empty array for invalid base", async () => {
-      const files = await getChangedFiles({
-        base: "nonexistent-branch",
-        cwd: FIXTURES_DIR,
-      });
+    test("rejects an unknown base", async () => {
+      await expect(getChangedFiles({ base: "nonexistent-branch", cwd: FIXTURES_DIR })).rejects.toThrow(
+        "Unknown ref: nonexistent-branch"
+      );
+    });
 
-      expect(files).toEqual([]);
+    test("lists staged and working tree changes by mode", async () => {
+      await writeFile(join(FIXTURES_DIR, "src/auth.ts"), "export const staged = 1;\n");
+      await git(["add", "src/auth.ts"], FIXTURES_DIR);
+      await writeFile(join(FIXTURES_DIR, "src/types.ts"), "export const unstaged = 1;\n");
+      await writeFile(join(FIXTURES_DIR, "src/new.ts"), "export const untracked = 1;\n");
+
+      try {
+        const staged = await getChangedFiles({ mode: "staged", cwd: FIXTURES_DIR });
+        expect(staged).toEqual(["src/auth.ts"]);
+
+        const worktree = await getChangedFiles({ mode: "worktree", cwd: FIXTURES_DIR });
+        expect(worktree.sort()).toEqual(["src/auth.ts", "src/new.ts", "src/types.ts"]);
+
+        const againstMain = await getChangedFiles({ mode: "staged", base: "main", cwd: FIXTURES_DIR });
+        expect(againstMain.sort()).toEqual(["src/auth.ts", "src/types.ts"]);
+      } finally {
+        await git(["reset", "--hard", "HEAD"], FIXTURES_DIR);
+        await rm(join(FIXTURES_DIR, "src/new.ts"), { force: true });
+      }
+    });
+  });
+
+  describe("diff sources", () => {
+    test("gets patch text and numstat for the same changes", async () => {
+      await writeFile(join(FIXTURES_DIR, "src/auth.ts"), "export const staged = 1;\n");
+      await git(["add", "src/auth.ts"], FIXTURES_DIR);
+      await writeFile(join(FIXTURES_DIR, "src/new.ts"), "one\ntwo\nthree\n");
+
+      try {
+        const staged = await getDiff({ mode: "staged", cwd: FIXTURES_DIR });
+        expect(staged).toContain("+export const staged = 1;");
+        expect(staged).not.toContain("src/new.ts");
+
+        const worktree = await getDiff({ mode: "worktree", cwd: FIXTURES_DIR });
+        expect(worktree).toContain("+export const staged = 1;");
+        expect(worktree).toContain("+++ b/src/new.ts");
+
+        const excluded = await getDiff({ mode: "worktree", cwd: FIXTURES_DIR }, ["src/new.ts"]);
+        expect(excluded).not.toContain("src/new.ts");
+
+        const numstat = await getDiffNumstat({ mode: "worktree", cwd: FIXTURES_DIR });
+        expect(numstat).toContainEqual({ path: "src/new.ts", additions: 3, deletions: 0 });
+        expect(numstat.find((s) => s.path === "src/auth.ts")?.additions).toBe(1);
+
+        expect(await getCommits({ mode: "staged", base: "main", cwd: FIXTURES_DIR })).toEqual([]);
+      } finally {
+        await git(["reset", "--hard", "HEAD"], FIXTURES_DIR);
+        await rm(join(FIXTURES_DIR, "src/new.ts"), { force: true });
+      }
+    });
+
+    test("range numstat matches the committed changes", async () => {
+      const numstat = await getDiffNumstat({ mode: "range", base: "main", cwd: FIXTURES_DIR });
+      expect(numstat.map((s) => s.path).sort()).toEqual(["src/auth.ts", "src/types.ts"]);
     });
   });
 
@@ -195,18 +244,10 @@ describe("Git diff context", () => {
       expect(context.branch).toBe("feature/test");
     });
 
-    test("handles missing base gracefully", async () => {
-      const context = await getGitDiffContext({
-        base: "nonexistent",
-        cwd: FIXTURES_DIR,
-      });
-
-      // Should return empty values rather than throwing
-      expect(context.diffStat).toBe("");
-      expect(context.commits).toEqual([]);
-      expect(context.changedFiles).toEqual([]);
-      // Branch should still work
-      expect(context.branch).toBe("feature/test");
+    test("rejects a missing base instead of returning an empty context", async () => {
+      await expect(getGitDiffContext({ base: "nonexistent", cwd: FIXTURES_DIR })).rejects.toThrow(
+        "Unknown ref: nonexistent"
+      );
     });
   });
 
@@ -284,25 +325,19 @@ describe("Git diff context", () => {
       expect(typeof branch).toBe("string");
     });
 
-    test("all functions handle non-git directory", async () => {
+    test("diffs fail in a non-git directory instead of looking empty", async () => {
       const tempDir = "/tmp/non-git-test-" + Date.now();
       await mkdir(tempDir, { recursive: true });
 
       try {
-        const stat = await getDiffStat({ cwd: tempDir });
-        const commits = await getCommits({ cwd: tempDir });
-        const files = await getChangedFiles({ cwd: tempDir });
-        const branch = await getBranchName(tempDir);
-        const context = await getGitDiffContext({ cwd: tempDir });
-        const formatted = await getFormattedDiffContext({ cwd: tempDir });
-
-        // All should return empty/default values
-        expect(stat).toBe("");
-        expect(commits).toEqual([]);
-        expect(files).toEqual([]);
-        expect(branch).toBe("");
-        expect(context.diffStat).toBe("");
-        expect(formatted).toBe("");
+        await expect(getDiffStat({ cwd: tempDir })).rejects.toThrow("git diff failed");
+        await expect(getChangedFiles({ cwd: tempDir })).rejects.toThrow("git diff failed");
+        await expect(getGitDiffContext({ cwd: tempDir })).rejects.toThrow("git diff failed");
+        await expect(getFormattedDiffContext({ cwd: tempDir })).rejects.toThrow("git diff failed");
+
+        // Queries that aren't diffs still return defaults
+        expect(await getCommits({ cwd: tempDir })).toEqual([]);
+        expect(await getBranchName(tempDir)).toBe("");
       } finally {
         await rm(tempDir, { recursive: true, force: true });
       }
@@ -3,64 +3,45 @@
  *
  * Gathers git context for code reviews including diff stats,
  * commit history, and changed files.
+ *
+ * Every diff is taken from a diff source, so file lists, stats and patch
+ * text always describe the same changes:
+ * - range: commits on head since it diverged from base (base...head)
+ * - staged: the index compared to base (staged changes)
+ * - worktree: the working tree compared to base, including untracked files
+ *
+ * These are option-style wrappers over GitService, which does the work.
  */
 
-import { spawn } from "child_process";
+import { GitService } from "./service";
+import type { DiffMode, DiffNumstat, GitDiffContext } from "./types";
+
+export { DIFF_MODES } from "./types";
+export type { DiffMode, DiffSource, DiffNumstat, GitDiffContext } from "./types";
 
 /** Options for getting git diff context */
 export interface GitDiffOptions {
-  /** Base branch/commit to diff against (default: "main") */
+  /** Base branch/commit to diff against (default: the default branch, or "HEAD" for staged/worktree) */
   base?: string;
   /** Target ref to compare (default: "HEAD") */
   head?: string;
   /** Working directory (defaults to cwd) */
   cwd?: string;
-}
-
-/** Git diff context result */
-export interface GitDiffContext {
-  /** Diff stat summary */
-  diffStat: string;
-  /** Commit history */
-  commits: string[];
-  /** List of changed files */
-  changedFiles: string[];
-  /** Current branch name */
-  branch: string;
+  /** Changes to compare (default: "range") */
+  mode?: DiffMode;
 }
 
 /**
- * Execute a git command and return stdout
+ * Resolve diff options to a service and a diff source
  */
-async function execGit(
-  args: string[],
-  cwd: string
-): Promise<{ stdout: string; stderr: string; exitCode: number }> {
-  return new Promise((resolve) => {
-    const process = spawn("git", args, {
-      cwd,
-      stdio: ["ignore", "pipe", "pipe"],
-    });
-
-    let stdout = "";
-    let stderr = "";
-
-    process.stdout.on("data", (data) => {
-      stdout += data.toString();
-    });
-
-    process.stderr.on("data", (data) => {
-      stderr += data.toString();
-    });
-
-    process.on("close", (exitCode) => {
-      resolve({ stdout, stderr, exitCode: exitCode ?? 0 });
-    });
-
-    process.on("error", () => {
-      resolve({ stdout: "", stderr: "Failed to spawn git", exitCode: 1 });
-    });
+async function resolveOptions(options: GitDiffOptions) {
+  const git = new GitService(options.cwd ?? process.cwd());
+  const source = await git.resolveSource({
+    mode: options.mode ?? "range",
+    base: options.base,
+    head: options.head,
   });
+  return { git, source };
 }
 
 /**
@@ -69,80 +50,83 @@ async function execGit(
 export async function getDiffStat(
   options: GitDiffOptions = {}
 ): Promise<string> {
-  const { base = "main", head = "HEAD", cwd = process.cwd() } = options;
-
-  const { stdout, exitCode } = await execGit(
-    ["diff", "--stat", `${base}...${head}`],
-    cwd
-  );
-
-  if (exitCode !== 0) {
-    return "";
-  }
-
-  return stdout.trim();
+  const { git, source } = await resolveOptions(options);
+  return git.diffStat(source);
 }
 
 /**
  * Get commit history between base and head
+ *
+ * Staged and worktree diffs have no commits of their own, so those modes
+ * return an empty list.
  */
 export async function getCommits(
   options: GitDiffOptions = {}
 ): Promise<string[]> {
-  const { base = "main", head = "HEAD", cwd = process.cwd() } = options;
-
-  const { stdout, exitCode } = await execGit(
-    ["log", "--oneline", `${base}..${head}`],
-    cwd
-  );
-
-  if (exitCode !== 0) {
-    return [];
-  }
-
-  return stdout
-    .trim()
-    .split("\n")
-    .filter((line) => line.trim() !== "");
+  const { git, source } = await resolveOptions(options);
+  return git.commits(source);
 }
 
 /**
  * Get list of changed files between base and head
+ *
+ * With mode "staged" or "worktree", lists files whose index or working
+ * tree content differs from base instead (worktree adds untracked files).
  */
 export async function getChangedFiles(
   options: GitDiffOptions = {}
 ): Promise<string[]> {
-  const { base = "main", head = "HEAD", cwd = process.cwd() } = options;
-
-  const { stdout, exitCode } = await execGit(
-    ["diff", "--name-only", `${base}...${head}`],
-    cwd
-  );
+  const { git, source } = await resolveOptions(options);
+  return git.changedFiles(source);
+}
 
-  if (exitCode !== 0) {
-    return [];
-  }
+/**
+ * Get the patch text for a diff source
+ *
+ * In worktree mode, untracked files are appended as new-file patches.
+ *
+ * @param options - Diff source and working directory
+ * @param excludedPaths - Paths (relative to cwd) left out
+ * @returns Unified diff, or empty string if git fails
+ */
+export async function getDiff(
+  options: GitDiffOptions = {},
+  excludedPaths: string[] = []
+): Promise<string> {
+  const { git, source } = await resolveOptions(options);
+  return git.diff(source, excludedPaths);
+}
 
-  return stdout
-    .trim()
-    .split("\n")
-    .filter((line) => line.trim() !== "");
+/**
+ * Get per-file added/deleted line counts for a diff source
+ *
+ * Binary files count as zero lines. In worktree mode, every line of an
+ * untracked file counts as added.
+ *
+ * @param options - Diff source and working directory
+ * @returns One entry per changed file, or empty array if git fails
+ */
+export async function getDiffNumstat(
+  options: GitDiffOptions = {}
+): Promise<DiffNumstat[]> {
+  const { git, source } = await resolveOptions(options);
+  return git.numstat(source);
 }
 
 /**
  * Get current branch name
  */
 export async function getBranchName(cwd: string = process.cwd()): Promise<string> {
-  const { stdout, exitCode } = await execGit(
-    ["rev-parse", "--abbrev-ref", "HEAD"],
-    cwd
-  );
-
-  if (exitCode !== 0) {
-    return "";
-  }
+  return new GitService(cwd).branchName();
+}
 
-  return stdout.trim();
+/**
+ * Get the full SHA of HEAD
+ *
+ * @returns Commit SHA, or empty string if not a git repo / no commits
+ */
+export async function getHeadCommit(cwd: string = process.cwd()): Promise<string> {
+  return new GitService(cwd).headCommit();
 }
 
 /**
@@ -151,22 +135,8 @@ export async function getBranchName(cwd: string = process.cwd()): Promise<string
 export async function getGitDiffContext(
   options: GitDiffOptions = {}
 ): Promise<GitDiffContext> {
-  const { cwd = process.cwd() } = options;
-
-  // Run all git commands in parallel
-  const [diffStat, commits, changedFiles, branch] = await Promise.all([
-    getDiffStat(options),
-    getCommits(options),
-    getChangedFiles(options),
-    getBranchName(cwd),
-  ]);
-
-  return {
-    diffStat,
-    commits,
-    changedFiles,
-    branch,
-  };
+  const { git, source } = await resolveOptions(options);
+  return git.diffContext(source);
 }
 
 /**
@@ -0,0 +1,25 @@
+/**
+ * Git integration module
+ *
+ * Re-exports GitService, the diff helpers and all types.
+ */
+
+export { GitService } from "./service";
+
+export {
+  DIFF_MODES,
+  getDiffStat,
+  getCommits,
+  getChangedFiles,
+  getDiff,
+  getDiffNumstat,
+  getBranchName,
+  getHeadCommit,
+  getGitDiffContext,
+  formatDiffContextXml,
+  getFormattedDiffContext,
+} from "./diff";
+
+export type { GitDiffOptions } from "./diff";
+
+export type { DiffMode, DiffSource, DiffNumstat, GitDiffContext, GitResult } from "./types";
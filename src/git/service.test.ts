@@ -0,0 +1,173 @@
+/**
+ * Tests for GitService
+ */
+
+import { describe, test, expect, beforeEach, afterAll } from "bun:test";
+import { $ } from "bun";
+import { join } from "path";
+import { mkdir, writeFile, rm } from "fs/promises";
+import { GitService } from "./service";
+
+const REPO_DIR = join(import.meta.dir, "..", "..", ".test-fixtures-git-service");
+
+describe("GitService", () => {
+  beforeEach(async () => {
+    await rm(REPO_DIR, { recursive: true, force: true });
+    await mkdir(join(REPO_DIR, "src"), { recursive: true });
+
+    await $`git init -b main`.cwd(REPO_DIR).quiet();
+    await $`git config user.email test@test.com`.cwd(REPO_DIR).quiet();
+    await $`git config user.name Test`.cwd(REPO_DIR).quiet();
+    await writeFile(join(REPO_DIR, "README.md"), "# Test\n");
+    await writeFile(join(REPO_DIR, "src/a.ts"), "export const a = 1;\n");
+    await $`git add . && git commit -m initial`.cwd(REPO_DIR).quiet();
+  });
+
+  afterAll(async () => {
+    await rm(REPO_DIR, { recursive: true, force: true });
+  });
+
+  describe("default branch", () => {
+    test("falls back to a local main or master", async () => {
+      expect(await new GitService(REPO_DIR).defaultBranch()).toBe("main");
+
+      await $`git branch -m main master`.cwd(REPO_DIR).quiet();
+      expect(await new GitService(REPO_DIR).defaultBranch()).toBe("master");
+    });
+
+    test("prefers origin/HEAD", async () => {
+      await $`git update-ref refs/remotes/origin/develop HEAD`.cwd(REPO_DIR).quiet();
+      await $`git symbolic-ref refs/remotes/origin/HEAD refs/remotes/origin/develop`.cwd(REPO_DIR).quiet();
+      expect(await new GitService(REPO_DIR).defaultBranch()).toBe("origin/develop");
+
+      await $`git branch develop`.cwd(REPO_DIR).quiet();
+      expect(await new GitService(REPO_DIR).defaultBranch()).toBe("develop");
+    });
+
+    test("uses HEAD~1 as the base when on the default branch", async () => {
+      expect(await new GitService(REPO_DIR).defaultBase()).toBe("HEAD~1");
+
+      await $`git checkout -b feature`.cwd(REPO_DIR).quiet();
+      await writeFile(join(REPO_DIR, "src/b.ts"), "export const b = 1;\n");
+      await $`git add . && git commit -m feature`.cwd(REPO_DIR).quiet();
+      expect(await new GitService(REPO_DIR).defaultBase()).toBe("main");
+    });
+  });
+
+  describe("resolveSource", () => {
+    test("fills in bases and heads", async () => {
+      await $`git branch develop && git tag v1 && git tag v2`.cwd(REPO_DIR).quiet();
+      const git = new GitService(REPO_DIR);
+
+      expect(await git.resolveSource()).toEqual({ mode: "worktree", base: "HEAD~1" });
+      expect(await git.resolveSource("develop")).toEqual({ mode: "worktree", base: "develop" });
+      expect(await git.resolveSource({ mode: "staged" })).toEqual({ mode: "staged", base: "HEAD" });
+      expect(await git.resolveSource({ mode: "range" })).toEqual({ mode: "range", base: "HEAD~1", head: "HEAD" });
+      expect(await git.resolveSource({ mode: "range", base: "v1", head: "v2" })).toEqual({
+        mode: "range",
+        base: "v1",
+        head: "v2",
+      });
+    });
+
+    test("adapts another root's source to this repository", async () => {
+      await $`git branch develop`.cwd(REPO_DIR).quiet();
+      const git = new GitService(REPO_DIR);
+
+      expect(await git.adaptSource({ mode: "range", base: "develop", head: "feature" })).toEqual({
+        mode: "range",
+        base: "develop",
+        head: "HEAD",
+      });
+      expect(await git.adaptSource({ mode: "worktree", base: "v9" })).toEqual({ mode: "worktree", base: "HEAD~1" });
+      expect(await git.adaptSource({ mode: "staged", base: "HEAD" })).toEqual({ mode: "staged", base: "HEAD" });
+    });
+
+    test("rejects refs that are options or don't exist", async () => {
+      const git = new GitService(REPO_DIR);
+
+      await expect(git.resolveSource({ mode: "range", base: "--output=/tmp/x" })).rejects.toThrow(
+        "Invalid ref: --output=/tmp/x"
+      );
+      await expect(git.resolveSource({ mode: "range", head: "-p" })).rejects.toThrow("Invalid ref: -p");
+      await expect(git.resolveSource("mian")).rejects.toThrow("Unknown ref: mian");
+      expect(await git.refExists("--all")).toBe(false);
+    });
+
+    test("never reads a ref as an option", async () => {
+      const git = new GitService(REPO_DIR);
+      const output = join(REPO_DIR, "pwned");
+
+      await expect(git.changedFiles({ mode: "range", base: `--output=${output}` })).rejects.toThrow("git diff failed");
+      await expect(git.changedFiles({ mode: "worktree", base: `--output=${output}` })).rejects.toThrow("git diff failed");
+      expect(await Bun.file(output).exists()).toBe(false);
+    });
+  });
+
+  describe("diffs", () => {
+    test("diffs the working tree from the merge-base", async () => {
+      await $`git checkout -b feature`.cwd(REPO_DIR).quiet();
+      await writeFile(join(REPO_DIR, "src/a.ts"), "export const a = 2;\n");
+
+      // A commit on main after the branch point must not show up reversed
+      await $`git stash && git checkout main`.cwd(REPO_DIR).quiet();
+      await writeFile(join(REPO_DIR, "README.md"), "# Changed on main\n");
+      await $`git commit -am main-change && git checkout feature && git stash pop`.cwd(REPO_DIR).quiet();
+
+      const git = new GitService(REPO_DIR);
+      const source = { mode: "worktree" as const, base: "main" };
+      expect(await git.changedFiles(source)).toEqual(["src/a.ts"]);
+      expect(await git.diff(source)).not.toContain("README.md");
+    });
+
+    test("reviews the first commit of a repository with a single commit", async () => {
+      const git = new GitService(REPO_DIR);
+      const source = await git.resolveSource({ mode: "range" });
+
+      expect(source.base).toBe("HEAD~1");
+      expect((await git.changedFiles(source)).sort()).toEqual(["README.md", "src/a.ts"]);
+    });
+
+    test("only covers the root folder, with root-relative paths", async () => {
+      await writeFile(join(REPO_DIR, "README.md"), "# Changed\n");
+      await writeFile(join(REPO_DIR, "src/a.ts"), "export const a = 2;\n");
+      await writeFile(join(REPO_DIR, "src/new.ts"), "export const n = 1;\n");
+
+      const git = new GitService(join(REPO_DIR, "src"));
+      const source = { mode: "worktree" as const, base: "HEAD" };
+
+      expect(await git.changedFiles(source)).toEqual(["a.ts", "new.ts"]);
+      expect((await git.numstat(source)).map((s) => s.path)).toEqual(["a.ts", "new.ts"]);
+
+      const diff = await git.diff(source, ["new.ts"]);
+      expect(diff).toContain("+export const a = 2;");
+      expect(diff).not.toContain("README.md");
+      expect(diff).not.toContain("new.ts");
+    });
+
+    test("prefixes patch paths with a folder", async () => {
+      await writeFile(join(REPO_DIR, "src/a.ts"), "export const a = 2;\n");
+      await writeFile(join(REPO_DIR, "src/new.ts"), "export const n = 1;\n");
+
+      const diff = await new GitService(REPO_DIR).diff({ mode: "worktree", base: "HEAD" }, [], "backend");
+      expect(diff).toContain("diff --git a/backend/src/a.ts b/backend/src/a.ts");
+      expect(diff).toContain("+++ b/backend/src/new.ts");
+    });
+
+    test("gathers the diff context without excluded paths", async () => {
+      await $`git checkout -b feature`.cwd(REPO_DIR).quiet();
+      await writeFile(join(REPO_DIR, "src/a.ts"), "export const a = 2;\n");
+      await writeFile(join(REPO_DIR, "bun.lock"), "{}\n");
+      await $`git commit -qam fix && git add bun.lock && git commit -qm lock`.cwd(REPO_DIR).quiet();
+
+      const git = new GitService(REPO_DIR);
+      const context = await git.diffContext({ mode: "range", base: "main", head: "HEAD" }, ["bun.lock"]);
+
+      expect(context.branch).toBe("feature");
+      expect(context.commits.map((c) => c.split(" ")[1])).toEqual(["lock", "fix"]);
+      expect(context.changedFiles).toEqual(["src/a.ts"]);
+      expect(context.diffStat).toContain("src/a.ts");
+      expect(context.diffStat).not.toContain("bun.lock");
+    });
+  });
+});
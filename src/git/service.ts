@@ -0,0 +1,439 @@
+/**
+ * GitService — the one way wdyt talks to git
+ *
+ * Every git query (changed files, diffs, stats, commits, re-review bases)
+ * goes through a service rooted at the window's root folder, so ranking,
+ * strategy selection and re-review all see the same changes.
+ *
+ * Base resolution, when no base is given:
+ * 1. The default branch from origin/HEAD (local branch preferred)
+ * 2. Otherwise a local main or master branch
+ * 3. HEAD~1 when HEAD is on the default branch (or none was found), so
+ *    reviews on the default branch still see the latest commit
+ *
+ * Refs given by callers are checked before use: anything starting with
+ * "-" is rejected and the ref must resolve to a commit. Every command
+ * passes --end-of-options before its revisions, so a ref can never be
+ * read as an option.
+ *
+ * Staged and worktree diffs are taken from the merge-base with the base,
+ * like range diffs, so changes on the base branch never show up reversed.
+ * A diff git can't take (a missing base, a folder outside any repository,
+ * history cut off by a shallow clone) throws instead of looking like a
+ * change with no files.
+ *
+ * Diffs only cover the root folder, and every path in (or passed to) the
+ * service is relative to the root folder, like ignore rules and selections.
+ * Windows with several root folders use one service per root.
+ */
+
+import { spawn } from "child_process";
+import { join } from "path";
+import type { DiffNumstat, DiffSource, GitDiffContext, GitResult } from "./types";
+
+/** Local branch names tried when origin/HEAD isn't set */
+const FALLBACK_DEFAULT_BRANCHES = ["main", "master"];
+
+/** Base used when the default branch can't be diffed against */
+const FALLBACK_BASE = "HEAD~1";
+
+/** git's empty tree: the base of the first commit, which has no HEAD~1 */
+const EMPTY_TREE = "4b825dc642cb6eb9a060e54bf8d69288fbee4904";
+
+/**
+ * Git commands rooted at a repository (or a folder inside one)
+ */
+export class GitService {
+  private defaultBranchPromise?: Promise<string | undefined>;
+
+  /**
+   * @param root - Folder git runs in (the window's root folder)
+   */
+  constructor(readonly root: string) {}
+
+  /**
+   * Run a git command in the root folder
+   *
+   * Never throws: spawn failures are reported as exit code 1.
+   */
+  exec(args: string[], cwd: string = this.root): Promise<GitResult> {
+    return new Promise((resolve) => {
+      const child = spawn("git", args, {
+        cwd,
+        stdio: ["ignore", "pipe", "pipe"],
+      });
+
+      let stdout = "";
+      let stderr = "";
+
+      child.stdout.on("data", (data) => {
+        stdout += data.toString();
+      });
+
+      child.stderr.on("data", (data) => {
+        stderr += data.toString();
+      });
+
+      child.on("close", (exitCode) => {
+        resolve({ stdout, stderr, exitCode: exitCode ?? 0 });
+      });
+
+      child.on("error", () => {
+        resolve({ stdout: "", stderr: "Failed to spawn git", exitCode: 1 });
+      });
+    });
+  }
+
+  /**
+   * Detect the repository's default branch (memoized per service)
+   *
+   * @returns Branch name, or undefined if none can be found
+   */
+  defaultBranch(): Promise<string | undefined> {
+    this.defaultBranchPromise ??= this.detectDefaultBranch();
+    return this.defaultBranchPromise;
+  }
+
+  private async detectDefaultBranch(): Promise<string | undefined> {
+    const originHead = await this.exec(["symbolic-ref", "--quiet", "--short", "refs/remotes/origin/HEAD"]);
+    if (originHead.exitCode === 0 && originHead.stdout.trim()) {
+      const remoteRef = originHead.stdout.trim();
+      const localName = remoteRef.replace(/^origin\//, "");
+      return (await this.refExists(localName)) ? localName : remoteRef;
+    }
+
+    for (const name of FALLBACK_DEFAULT_BRANCHES) {
+      if (await this.refExists(name)) {
+        return name;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Check whether a ref resolves to a commit
+   */
+  async refExists(ref: string): Promise<boolean> {
+    if (ref.startsWith("-")) {
+      return false;
+    }
+    const result = await this.exec(["rev-parse", "--verify", "--quiet", "--end-of-options", `${ref}^{commit}`]);
+    return result.exitCode === 0;
+  }
+
+  /**
+   * Check a caller-supplied ref before it's used in a git command
+   *
+   * @throws Error if the ref looks like an option or isn't a commit
+   */
+  async verifyRef(ref: string): Promise<void> {
+    if (ref.startsWith("-")) {
+      throw new Error(`Invalid ref: ${ref}`);
+    }
+    if (!(await this.refExists(ref))) {
+      throw new Error(`Unknown ref: ${ref}`);
+    }
+  }
+
+  /**
+   * Resolve the base to diff against when none is given
+   *
+   * @returns The default branch, or HEAD~1 if HEAD is on it or there is none
+   */
+  async defaultBase(): Promise<string> {
+    const branch = await this.defaultBranch();
+    if (!branch) {
+      return FALLBACK_BASE;
+    }
+
+    const [head, base] = await Promise.all([
+      this.exec(["rev-parse", "HEAD"]),
+      this.exec(["rev-parse", "--verify", "--end-of-options", branch]),
+    ]);
+    if (head.exitCode !== 0 || head.stdout.trim() === base.stdout.trim()) {
+      return FALLBACK_BASE;
+    }
+    return branch;
+  }
+
+  /**
+   * Fill in a diff source's base (and head for range diffs)
+   *
+   * A bare base ref (or nothing) is the default review: the working tree
+   * against base, covering committed and pending changes. An explicit
+   * staged/worktree source without a base covers pending changes only
+   * (base HEAD); an explicit range defaults to the default base.
+   *
+   * @param source - Diff source, or a base ref for the default review
+   * @throws Error if a given base or head isn't a commit (see verifyRef)
+   */
+  async resolveSource(source?: DiffSource | string): Promise<DiffSource> {
+    const refs = typeof source === "object" ? [source.base, source.head] : [source];
+    for (const ref of refs) {
+      if (ref) await this.verifyRef(ref);
+    }
+
+    if (typeof source !== "object") {
+      return { mode: "worktree", base: source || (await this.defaultBase()) };
+    }
+
+    if (source.mode === "range") {
+      return {
+        mode: "range",
+        base: source.base || (await this.defaultBase()),
+        head: source.head || "HEAD",
+      };
+    }
+    return { mode: source.mode, base: source.base || "HEAD" };
+  }
+
+  /**
+   * Adapt a diff source resolved in another root's repository
+   *
+   * Refs that exist in this repository are kept. A missing base falls back
+   * to this repository's default base, and a missing head to HEAD.
+   *
+   * @param source - Resolved diff source of the primary root
+   */
+  async adaptSource(source: DiffSource): Promise<DiffSource> {
+    const base = source.base && (await this.refExists(source.base)) ? source.base : undefined;
+
+    if (source.mode === "range") {
+      const head = source.head && (await this.refExists(source.head)) ? source.head : undefined;
+      return this.resolveSource({ mode: "range", base, head });
+    }
+    return { mode: source.mode, base: base || (await this.defaultBase()) };
+  }
+
+  /**
+   * Run `git diff` for a source, falling back to a direct diff against
+   * base when there is no merge-base
+   *
+   * The HEAD~1 fallback base becomes the empty tree in a repository with
+   * a single commit, so its first commit is the change.
+   *
+   * @param source - Resolved diff source
+   * @param flags - Flags placed before the revisions (e.g. --name-only)
+   * @param excludes - Paths to leave out
+   * @returns stdout
+   * @throws Error with git's message if neither diff succeeds
+   */
+  private async runDiff(source: DiffSource, flags: string[], excludes: string[] = []): Promise<string> {
+    let base = source.base || FALLBACK_BASE;
+    if (base === FALLBACK_BASE && !(await this.refExists(base)) && (await this.refExists("HEAD"))) {
+      base = EMPTY_TREE;
+    }
+    const pathArgs = ["--", ".", ...excludes.map((p) => `:(exclude)${p}`)];
+
+    const head = source.head || "HEAD";
+    // [mode flags, revisions] for the merge-base diff and its fallback
+    const attempts: Array<[string[], string[]]> =
+      source.mode === "staged"
+        ? [[["--cached", "--merge-base"], [base]], [["--cached"], [base]]]
+        : source.mode === "worktree"
+          ? [[["--merge-base"], [base]], [[], [base]]]
+          : [[[], [`${base}...${head}`]], [[], [base, head]]];
+
+    let error = "";
+    for (const [modeFlags, revisions] of attempts) {
+      const result = await this.exec([
+        "diff", "--relative", ...flags, ...modeFlags, "--end-of-options", ...revisions, ...pathArgs,
+      ]);
+      if (result.exitCode === 0) {
+        return result.stdout;
+      }
+      error ||= result.stderr.trim().split("\n")[0];
+    }
+    throw new Error(`git diff failed in ${this.root}: ${error || "unknown error"}`);
+  }
+
+  /**
+   * List untracked (not ignored) files under the root folder
+   *
+   * @returns Paths relative to the root, or [] outside a repo
+   */
+  async untrackedFiles(): Promise<string[]> {
+    const { stdout, exitCode } = await this.exec(["ls-files", "--others", "--exclude-standard"]);
+    if (exitCode !== 0) {
+      return [];
+    }
+    return stdout.split("\n").filter((line) => line.trim() !== "");
+  }
+
+  /**
+   * List files changed in a diff source (worktree adds untracked files)
+   *
+   * @returns Paths relative to the root
+   * @throws Error if git can't diff the source
+   */
+  async changedFiles(source: DiffSource): Promise<string[]> {
+    const stdout = await this.runDiff(source, ["--name-only"]);
+    const files = stdout
+      .trim()
+      .split("\n")
+      .filter((line) => line.trim() !== "");
+
+    if (source.mode === "worktree") {
+      for (const file of await this.untrackedFiles()) {
+        if (!files.includes(file)) {
+          files.push(file);
+        }
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Get the patch text for a diff source
+   *
+   * In worktree mode, untracked files are appended as new-file patches.
+   *
+   * @param source - Resolved diff source
+   * @param excludedPaths - Paths (relative to the root) left out
+   * @param pathPrefix - Folder prepended to every path in the patch
+   *   (e.g. a root's label in a multi-root review)
+   * @returns Unified diff
+   * @throws Error if git can't diff the source
+   */
+  async diff(source: DiffSource, excludedPaths: string[] = [], pathPrefix?: string): Promise<string> {
+    const prefixFlags = pathPrefix ? [`--src-prefix=a/${pathPrefix}/`, `--dst-prefix=b/${pathPrefix}/`] : [];
+    const stdout = await this.runDiff(source, prefixFlags, excludedPaths);
+    const patches = [stdout.trim()];
+
+    if (source.mode === "worktree") {
+      for (const file of await this.untrackedFiles()) {
+        if (excludedPaths.includes(file)) continue;
+        // --no-index exits with 1 when the files differ
+        const result = await this.exec(["diff", "--no-index", ...prefixFlags, "--", "/dev/null", file]);
+        if (result.exitCode === 1) {
+          patches.push(result.stdout.trim());
+        }
+      }
+    }
+
+    return patches.filter(Boolean).join("\n");
+  }
+
+  /**
+   * Get per-file added/deleted line counts for a diff source
+   *
+   * Binary files count as zero lines. In worktree mode, every line of an
+   * untracked file counts as added.
+   *
+   * @returns One entry per changed file
+   * @throws Error if git can't diff the source
+   */
+  async numstat(source: DiffSource): Promise<DiffNumstat[]> {
+    const stdout = await this.runDiff(source, ["--numstat"]);
+    const stats: DiffNumstat[] = [];
+    for (const line of stdout.trim().split("\n")) {
+      if (!line) continue;
+      const [add, del, path] = line.split("\t");
+      if (!path) continue;
+      // Binary files show as "-" for add/del
+      stats.push({
+        path,
+        additions: add === "-" ? 0 : parseInt(add, 10) || 0,
+        deletions: del === "-" ? 0 : parseInt(del, 10) || 0,
+      });
+    }
+
+    if (source.mode === "worktree") {
+      for (const path of await this.untrackedFiles()) {
+        try {
+          const content = await Bun.file(join(this.root, path)).text();
+          const lines = content.split("\n").length - (content.endsWith("\n") ? 1 : 0);
+          stats.push({ path, additions: lines, deletions: 0 });
+        } catch {
+          stats.push({ path, additions: 0, deletions: 0 });
+        }
+      }
+    }
+
+    return stats;
+  }
+
+  /**
+   * Get the `git diff --stat` summary for a diff source
+   *
+   * @param source - Resolved diff source
+   * @param excludedPaths - Paths (relative to the root) left out
+   * @returns Stat summary
+   * @throws Error if git can't diff the source
+   */
+  async diffStat(source: DiffSource, excludedPaths: string[] = []): Promise<string> {
+    return (await this.runDiff(source, ["--stat"], excludedPaths)).trim();
+  }
+
+  /**
+   * List commits (oneline) between base and head
+   *
+   * Staged and worktree diffs have no commits of their own, so those
+   * modes return an empty list.
+   */
+  async commits(source: DiffSource): Promise<string[]> {
+    if (source.mode !== "range") {
+      return [];
+    }
+
+    const { stdout, exitCode } = await this.exec([
+      "log",
+      "--oneline",
+      "--end-of-options",
+      `${source.base || FALLBACK_BASE}..${source.head || "HEAD"}`,
+    ]);
+    if (exitCode !== 0) {
+      return [];
+    }
+
+    return stdout
+      .trim()
+      .split("\n")
+      .filter((line) => line.trim() !== "");
+  }
+
+  /**
+   * Get the diff stat, commits, changed files and branch for a diff source
+   *
+   * @param source - Resolved diff source
+   * @param excludedPaths - Paths (relative to the root) left out of the
+   *   stat and file list
+   */
+  async diffContext(source: DiffSource, excludedPaths: string[] = []): Promise<GitDiffContext> {
+    // Run all git commands in parallel
+    const [diffStat, commits, changedFiles, branch] = await Promise.all([
+      this.diffStat(source, excludedPaths),
+      this.commits(source),
+      this.changedFiles(source),
+      this.branchName(),
+    ]);
+
+    return {
+      diffStat,
+      commits,
+      changedFiles: changedFiles.filter((path) => !excludedPaths.includes(path)),
+      branch,
+    };
+  }
+
+  /**
+   * Get the current branch name
+   *
+   * @returns Branch name, or empty string outside a repo
+   */
+  async branchName(): Promise<string> {
+    const { stdout, exitCode } = await this.exec(["rev-parse", "--abbrev-ref", "HEAD"]);
+    return exitCode === 0 ? stdout.trim() : "";
+  }
+
+  /**
+   * Get the full SHA of HEAD
+   *
+   * @returns Commit SHA, or empty string if not a git repo / no commits
+   */
+  async headCommit(): Promise<string> {
+    const { stdout, exitCode } = await this.exec(["rev-parse", "HEAD"]);
+    return exitCode === 0 ? stdout.trim() : "";
+  }
+}
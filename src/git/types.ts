@@ -0,0 +1,52 @@
+/**
+ * Types for git diff sources and results
+ */
+
+/**
+ * Which changes to compare against the base
+ *
+ * - range: commits on head since it diverged from base (base...head)
+ * - staged: the index compared to base (staged changes)
+ * - worktree: the working tree compared to base, including untracked files
+ */
+export type DiffMode = "range" | "staged" | "worktree";
+
+/** Valid diff modes (for payload validation) */
+export const DIFF_MODES: readonly DiffMode[] = ["range", "staged", "worktree"];
+
+/**
+ * The changes a review looks at
+ */
+export interface DiffSource {
+  mode: DiffMode;
+  /** Base ref (resolved by GitService.resolveSource when omitted) */
+  base?: string;
+  /** Head ref for range diffs (default: "HEAD") */
+  head?: string;
+}
+
+/** Per-file line counts from a diff */
+export interface DiffNumstat {
+  path: string;
+  additions: number;
+  deletions: number;
+}
+
+/** Result of running a git command */
+export interface GitResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+}
+
+/** Git diff context result */
+export interface GitDiffContext {
+  /** Diff stat summary */
+  diffStat: string;
+  /** Commit history */
+  commits: string[];
+  /** List of changed files */
+  changedFiles: string[];
+  /** Current branch name */
+  branch: string;
+}
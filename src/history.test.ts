@@ -0,0 +1,75 @@
+/**
+ * Tests for the review history store
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { join } from "path";
+import { rm } from "fs/promises";
+import { saveReview, loadReview, listReviews, clearReviews } from "./history";
+
+// Use a test-specific directory
+const TEST_DIR = join(import.meta.dir, "..", ".test-history");
+
+beforeEach(async () => {
+  process.env.XDG_DATA_HOME = TEST_DIR;
+  await rm(TEST_DIR, { recursive: true, force: true });
+});
+
+afterEach(async () => {
+  await rm(TEST_DIR, { recursive: true, force: true });
+  delete process.env.XDG_DATA_HOME;
+});
+
+describe("Review history", () => {
+  test("saves and loads a review record", async () => {
+    await saveReview({
+      chatId: "chat-1",
+      commit: "abc123",
+      files: ["/repo/src/a.ts"],
+      verdict: "NEEDS_WORK",
+      findings: [
+        { severity: "major", file: "src/a.ts", line: 3, issue: "Unchecked null", focus: "correctness" },
+      ],
+      timestamp: 1000,
+    });
+
+    const record = await loadReview("chat-1");
+    expect(record?.commit).toBe("abc123");
+    expect(record?.verdict).toBe("NEEDS_WORK");
+    expect(record?.findings).toHaveLength(1);
+    expect(record?.findings[0].issue).toBe("Unchecked null");
+  });
+
+  test("review records survive process restarts (stored on disk)", async () => {
+    await saveReview({ chatId: "chat-2", files: [], findings: [], timestamp: 1 });
+
+    const file = Bun.file(join(TEST_DIR, "wdyt", "reviews", "chat-2.json"));
+    expect(await file.exists()).toBe(true);
+  });
+
+  test("loadReview returns null for unknown or unsafe ids", async () => {
+    expect(await loadReview("missing")).toBeNull();
+    expect(await loadReview("../state")).toBeNull();
+  });
+
+  test("saveReview rejects unsafe chat ids", async () => {
+    await expect(
+      saveReview({ chatId: "../evil", files: [], findings: [], timestamp: 1 })
+    ).rejects.toThrow("Invalid chat ID");
+  });
+
+  test("listReviews returns newest first", async () => {
+    await saveReview({ chatId: "old", files: [], findings: [], timestamp: 1 });
+    await saveReview({ chatId: "new", files: [], findings: [], timestamp: 2 });
+
+    const records = await listReviews();
+    expect(records.map((r) => r.chatId)).toEqual(["new", "old"]);
+  });
+
+  test("clearReviews removes all records", async () => {
+    await saveReview({ chatId: "chat-3", files: [], findings: [], timestamp: 1 });
+    await clearReviews();
+
+    expect(await listReviews()).toEqual([]);
+  });
+});
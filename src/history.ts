@@ -0,0 +1,121 @@
+/**
+ * Review history store for wdyt
+ *
+ * Persists one record per review so re-reviews survive process restarts.
+ * Records are stored as JSON files in ~/.wdyt/reviews/<chat-id>.json
+ * (or XDG_DATA_HOME/wdyt/reviews), next to the chats/ exports.
+ */
+
+import { join } from "path";
+import { homedir } from "os";
+import { mkdirSync } from "fs";
+import { readdir, rm } from "fs/promises";
+import type { Finding } from "./context/findings";
+
+/** A persisted review */
+export interface ReviewRecord {
+  /** Chat ID the review was exported under */
+  chatId: string;
+  /** HEAD commit SHA at review time (if the root is a git repo) */
+  commit?: string;
+  /** HEAD commit SHA of each other root of a multi-root window, by root path */
+  rootCommits?: Record<string, string>;
+  /** Window the review was sent from */
+  windowId?: number;
+  /** Root folders of the window at review time, primary first */
+  rootPaths?: string[];
+  /** Files included in the review */
+  files: string[];
+  /** Review verdict (absent for context-only exports) */
+  verdict?: "SHIP" | "NEEDS_WORK" | "MAJOR_RETHINK";
+  /** Structured findings from the review */
+  findings: Finding[];
+  /** Unix timestamp (ms) of the review */
+  timestamp: number;
+}
+
+/** Chat IDs become file names, so only allow safe characters */
+const CHAT_ID_REGEX = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Get the reviews directory path
+ * Uses XDG_DATA_HOME if set, otherwise falls back to ~/.wdyt
+ */
+function getReviewsDir(): string {
+  const xdgDataHome = process.env.XDG_DATA_HOME;
+  if (xdgDataHome) {
+    return join(xdgDataHome, "wdyt", "reviews");
+  }
+  return join(homedir(), ".wdyt", "reviews");
+}
+
+/**
+ * Get the record path for a chat ID
+ * @throws Error if the chat ID contains unsafe characters
+ */
+function getReviewPath(chatId: string): string {
+  if (!CHAT_ID_REGEX.test(chatId)) {
+    throw new Error(`Invalid chat ID: ${chatId}`);
+  }
+  return join(getReviewsDir(), `${chatId}.json`);
+}
+
+/**
+ * Save a review record (overwrites an existing record for the same chat)
+ */
+export async function saveReview(record: ReviewRecord): Promise<void> {
+  const path = getReviewPath(record.chatId);
+  mkdirSync(getReviewsDir(), { recursive: true });
+  await Bun.write(path, JSON.stringify(record, null, 2));
+}
+
+/**
+ * Load a review record by chat ID
+ * @returns The record, or null if none exists or it is unreadable
+ */
+export async function loadReview(chatId: string): Promise<ReviewRecord | null> {
+  if (!CHAT_ID_REGEX.test(chatId)) {
+    return null;
+  }
+
+  const file = Bun.file(getReviewPath(chatId));
+  if (!(await file.exists())) {
+    return null;
+  }
+
+  try {
+    return (await file.json()) as ReviewRecord;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * List all review records, newest first
+ */
+export async function listReviews(): Promise<ReviewRecord[]> {
+  let entries: string[];
+  try {
+    entries = await readdir(getReviewsDir());
+  } catch {
+    return [];
+  }
+
+  const records: ReviewRecord[] = [];
+  for (const entry of entries) {
+    if (!entry.endsWith(".json")) continue;
+    const record = await loadReview(entry.slice(0, -".json".length));
+    if (record) {
+      records.push(record);
+    }
+  }
+
+  return records.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * Delete all review records
+ */
+export async function clearReviews(): Promise<void> {
+  await rm(getReviewsDir(), { recursive: true, force: true });
+}
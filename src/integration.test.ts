@@ -16,12 +16,24 @@
 
 import { describe, it, expect, beforeEach, afterEach, beforeAll, afterAll } from "bun:test";
 import { join } from "path";
-import { mkdirSync, rmSync } from "fs";
+import { mkdirSync, readdirSync, rmSync, symlinkSync, existsSync } from "fs";
 import { $ } from "bun";
-import { ensureState, createTab, getTab, updateTab, updateWindowPaths } from "./state";
+import { ensureState, createTab, getTab, getWindow, updateTab, updateWindowPaths } from "./state";
 import { builderCommand } from "./commands/builder";
-import { selectAddCommand, selectGetCommand } from "./commands/select";
+import {
+  selectAddCommand,
+  selectGetCommand,
+  selectRemoveCommand,
+  selectClearCommand,
+  selectSetCommand,
+  selectDiffCommand,
+} from "./commands/select";
 import { chatSendCommand } from "./commands/chat";
+import { windowCreateCommand, windowRootsCommand, windowDeleteCommand } from "./commands/windows";
+import { tabListCommand, tabShowCommand, tabDeleteCommand } from "./commands/tabs";
+import { findingsExportCommand } from "./commands/findings";
+import { configGetCommand } from "./commands/config";
+import { skillGetCommand, getEmbeddedSkill } from "./commands/skill";
 import { generateContextHints, formatHints } from "./context/hints";
 import { getGitDiffContext, formatDiffContextXml } from "./git/diff";
 import { buildReReviewPreamble, clearReviewState } from "./context/rereview";
@@ -49,6 +61,24 @@ function createMockTldr(): TldrClient {
 const TEST_DIR = join(import.meta.dir, "..", ".test-integration");
 const TEST_FLOW_DIR = join(TEST_DIR, ".flow");
 
+// PATH for chat_send tests: git, but no Claude CLI
+const GIT_ONLY_BIN = join(import.meta.dir, "..", ".test-git-bin");
+
+/**
+ * Make a PATH with only git on it, so reviews don't depend on Claude CLI
+ */
+function gitOnlyPath(): string {
+  if (!existsSync(join(GIT_ONLY_BIN, "git"))) {
+    mkdirSync(GIT_ONLY_BIN, { recursive: true });
+    symlinkSync(Bun.which("git")!, join(GIT_ONLY_BIN, "git"));
+  }
+  return GIT_ONLY_BIN;
+}
+
+afterAll(() => {
+  rmSync(GIT_ONLY_BIN, { recursive: true, force: true });
+});
+
 // Sample test files
 const SAMPLE_TS_FILE = `/**
  * Sample TypeScript file for testing
@@ -122,7 +152,7 @@ describe("Integration: flowctl-compatible pipeline", () => {
     await updateWindowPaths(1, [TEST_DIR]);
 
     // Clear re-review state between tests
-    clearReviewState();
+    await clearReviewState();
   });
 
   afterEach(async () => {
@@ -146,10 +176,143 @@ describe("Integration: flowctl-compatible pipeline", () => {
     });
 
     it("accepts --response-type flag (flowctl compatibility)", async () => {
-      const result = await builderCommand(1, "test", { "response-type": "markdown" });
+      const result = await builderCommand(1, "test", { "response-type": "review" });
 
       expect(result.success).toBe(true);
       expect(result.data?.tabId).toBeDefined();
+      expect(await getTab(1, result.data!.tabId)).toMatchObject({ summary: "test", responseType: "review" });
+    });
+
+    it("rejects unknown response types", async () => {
+      const tabs = (await getWindow(1)).tabs.length;
+      const result = await builderCommand(1, "test", { "response-type": "paln" });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("Unknown response type: paln");
+      expect(result.error).toContain("review, plan, chat");
+      expect((await getWindow(1)).tabs).toHaveLength(tabs);
+
+      const security = await builderCommand(1, JSON.stringify({ summary: "test", response_type: "security" }));
+      expect(security.success).toBe(true);
+    });
+
+    it("reads the summary and defaults from a JSON summary", async () => {
+      const result = await builderCommand(
+        1,
+        JSON.stringify({ summary: "Auth review", base_branch: "develop", task_id: "fn-1.2" }),
+        { "task-id": "fn-3.1" }
+      );
+
+      expect(await getTab(1, result.data!.tabId)).toMatchObject({
+        summary: "Auth review",
+        baseBranch: "develop",
+        taskId: "fn-3.1",
+      });
+    });
+
+    it("seeds the prompt and suggests files from the summary", async () => {
+      const tldr = createMockTldr();
+      tldr.isWarmed = mock(() => Promise.resolve(true));
+      tldr.semantic = mock(() => Promise.resolve([
+        { function: "User", file: "src/user.ts", line: 5, score: 0.7 },
+        { function: "bundle", file: "node_modules/pkg/index.js", line: 1, score: 0.95 },
+        { function: "createUser", file: "src/user.ts", line: 11, score: 0.9 },
+      ]));
+
+      const result = await builderCommand(1, "Review user creation", {}, tldr);
+
+      expect(tldr.semantic).toHaveBeenCalledWith("Review user creation", TEST_DIR);
+      expect(result.data?.suggestedFiles).toEqual([join(TEST_DIR, "src", "user.ts")]);
+      expect(result.output).toBe(
+        `Tab: ${result.data!.tabId}\n\nSuggested files:\n  ${join(TEST_DIR, "src", "user.ts")}`
+      );
+      expect((await getTab(1, result.data!.tabId)).prompt).toBe("Review user creation");
+    });
+
+    it("doesn't search roots tldr hasn't indexed", async () => {
+      const tldr = createMockTldr();
+
+      const result = await builderCommand(1, "Review user creation", {}, tldr);
+
+      expect(tldr.semantic).not.toHaveBeenCalled();
+      expect(result.data?.suggestedFiles).toEqual([]);
+      expect(result.output).toMatch(/^Tab: [a-f0-9-]{36}$/);
+    });
+  });
+
+  describe("Managing windows and tabs", () => {
+    it("creates a window and changes its roots", async () => {
+      const created = await windowCreateCommand([TEST_DIR, TEST_DIR]);
+      expect(created.success).toBe(true);
+      expect(created.output).toBe("Window: 2");
+      expect(created.data?.window.rootFolderPaths).toEqual([TEST_DIR]);
+
+      const added = await windowRootsCommand(2, "add", [join(TEST_DIR, "src")]);
+      expect(added.data?.window.rootFolderPaths).toEqual([TEST_DIR, join(TEST_DIR, "src")]);
+
+      const removed = await windowRootsCommand(2, "remove", [TEST_DIR]);
+      expect(removed.data?.window.rootFolderPaths).toEqual([join(TEST_DIR, "src")]);
+
+      const deleted = await windowDeleteCommand(2);
+      expect(deleted.success).toBe(true);
+      expect((await windowRootsCommand(2)).error).toContain("Window 2 not found");
+    });
+
+    it("keeps roots added by concurrent processes", async () => {
+      const script = join(TEST_DIR, "roots-worker.ts");
+      await Bun.write(
+        script,
+        `import { windowRootsCommand } from ${JSON.stringify(join(import.meta.dir, "commands", "windows.ts"))};\n` +
+          `const [worker] = process.argv.slice(2);\n` +
+          `for (let i = 0; i < 5; i++) {\n` +
+          `  const result = await windowRootsCommand(1, "add", [${JSON.stringify(join(TEST_DIR, "roots"))} + "/w" + worker + "-" + i]);\n` +
+          `  if (!result.success) throw new Error(result.error);\n` +
+          `}\n`
+      );
+      for (const worker of [1, 2]) {
+        for (let i = 0; i < 5; i++) {
+          mkdirSync(join(TEST_DIR, "roots", `w${worker}-${i}`), { recursive: true });
+        }
+      }
+
+      const procs = [1, 2].map((worker) =>
+        Bun.spawn(["bun", script, String(worker)], { env: { ...process.env, XDG_DATA_HOME: TEST_DIR }, stderr: "pipe" })
+      );
+      expect(await Promise.all(procs.map((p) => p.exited))).toEqual([0, 0]);
+
+      const roots = (await getWindow(1)).rootFolderPaths;
+      expect(roots).toHaveLength(11);
+      expect(roots[0]).toBe(TEST_DIR);
+      expect(roots).toContain(join(TEST_DIR, "roots", "w1-4"));
+      expect(roots).toContain(join(TEST_DIR, "roots", "w2-4"));
+    });
+
+    it("rejects roots that aren't directories or aren't roots", async () => {
+      const missing = await windowCreateCommand([join(TEST_DIR, "missing")]);
+      expect(missing.success).toBe(false);
+      expect(missing.error).toContain("Not a directory");
+
+      const notRoot = await windowRootsCommand(1, "remove", [join(TEST_DIR, "src")]);
+      expect(notRoot.success).toBe(false);
+      expect(notRoot.error).toContain("Not a root of window 1");
+    });
+
+    it("lists, shows and deletes tabs", async () => {
+      const tab = await createTab(1);
+      await updateTab(1, tab.id, { prompt: "Review auth", selectedFiles: [join(TEST_DIR, "src", "user.ts")] });
+
+      const list = await tabListCommand(1);
+      expect(list.data?.tabs).toEqual([
+        { id: tab.id, createdAt: tab.createdAt, prompt: "Review auth", fileCount: 1, folderCount: 0 },
+      ]);
+
+      const shown = await tabShowCommand(1, tab.id);
+      expect(shown.output).toContain("Prompt:\n  Review auth");
+      expect(shown.output).toContain(join(TEST_DIR, "src", "user.ts"));
+
+      expect((await tabDeleteCommand(1, tab.id)).success).toBe(true);
+      expect((await tabListCommand(1)).output).toBe("No tabs in window 1.");
+      expect((await tabShowCommand(1, tab.id)).error).toContain("not found");
     });
   });
 
@@ -194,6 +357,408 @@ describe("Integration: flowctl-compatible pipeline", () => {
       expect(files).toContain("src/user.ts");
       expect(files).toContain("src/other.ts");
     });
+
+    it("keeps files added by concurrent processes", async () => {
+      const tab = await createTab(1);
+      const script = join(TEST_DIR, "select-worker.ts");
+      await Bun.write(
+        script,
+        `import { selectAddCommand } from ${JSON.stringify(join(import.meta.dir, "commands", "select.ts"))};\n` +
+          `const [worker] = process.argv.slice(2);\n` +
+          `for (let i = 0; i < 5; i++) {\n` +
+          `  const result = await selectAddCommand(1, ${JSON.stringify(tab.id)}, "src/w" + worker + "-" + i + ".ts");\n` +
+          `  if (!result.success) throw new Error(result.error);\n` +
+          `}\n`
+      );
+      for (const worker of [1, 2]) {
+        for (let i = 0; i < 5; i++) {
+          await Bun.write(join(TEST_DIR, "src", `w${worker}-${i}.ts`), "export {};");
+        }
+      }
+
+      const procs = [1, 2].map((worker) =>
+        Bun.spawn(["bun", script, String(worker)], { env: { ...process.env, XDG_DATA_HOME: TEST_DIR }, stderr: "pipe" })
+      );
+      expect(await Promise.all(procs.map((p) => p.exited))).toEqual([0, 0]);
+
+      const files = (await getTab(1, tab.id)).selectedFiles;
+      expect(files).toHaveLength(10);
+      expect(files).toContain(join(TEST_DIR, "src", "w1-4.ts"));
+      expect(files).toContain(join(TEST_DIR, "src", "w2-4.ts"));
+    });
+
+    it("skips files matched by .wdytignore", async () => {
+      const tab = await createTab(1);
+
+      await Bun.write(join(TEST_DIR, ".wdytignore"), "src/generated/\n");
+      await Bun.write(join(TEST_DIR, "src", "generated", "api.ts"), "export const api = 1;");
+
+      const result = await selectAddCommand(1, tab.id, "src/user.ts src/generated/api.ts");
+
+      expect(result.success).toBe(true);
+      expect(result.data?.added).toBe(1);
+      expect(result.data?.ignored).toBe(1);
+      expect(result.output).toContain("(1 ignored)");
+    });
+
+    it("adds folders and globs", async () => {
+      const tab = await createTab(1);
+      await Bun.write(join(TEST_DIR, "src", "lib", "helper.ts"), "export const helper = 1;");
+      await Bun.write(join(TEST_DIR, "docs", "guide.md"), "# Guide");
+
+      const result = await selectAddCommand(1, tab.id, "'src/lib' 'docs/*.md'");
+
+      expect(result.success).toBe(true);
+      expect(result.data?.added).toBe(2);
+
+      const getResult = await selectGetCommand(1, tab.id);
+      expect(getResult.data?.folders).toEqual([join(TEST_DIR, "src", "lib")]);
+      expect(getResult.data?.files).toEqual([
+        join(TEST_DIR, "docs", "guide.md"),
+        join(TEST_DIR, "src", "lib", "helper.ts"),
+      ]);
+    });
+
+    it("removes files, folders and globs", async () => {
+      const tab = await createTab(1);
+      await Bun.write(join(TEST_DIR, "src", "lib", "helper.ts"), "export const helper = 1;");
+      await Bun.write(join(TEST_DIR, "src", "other.ts"), "export const other = 1;");
+      await selectAddCommand(1, tab.id, "src/user.ts src/other.ts src/lib");
+
+      const globResult = await selectRemoveCommand(1, tab.id, "'src/o*.ts'");
+      expect(globResult.success).toBe(true);
+      expect(globResult.data).toEqual({ removed: 1, total: 2 });
+
+      const folderResult = await selectRemoveCommand(1, tab.id, "src/lib");
+      expect(folderResult.data).toEqual({ removed: 1, total: 1 });
+
+      const getResult = await selectGetCommand(1, tab.id);
+      expect(getResult.data?.files).toEqual([join(TEST_DIR, "src", "user.ts")]);
+      expect(getResult.data?.folders).toEqual([]);
+    });
+
+    it("clears and replaces the selection", async () => {
+      const tab = await createTab(1);
+      await Bun.write(join(TEST_DIR, "src", "other.ts"), "export const other = 1;");
+      await selectAddCommand(1, tab.id, "src/user.ts src/other.ts");
+
+      const setResult = await selectSetCommand(1, tab.id, "src/other.ts");
+      expect(setResult.success).toBe(true);
+      expect(setResult.data?.total).toBe(1);
+      expect((await selectGetCommand(1, tab.id)).data?.files).toEqual([join(TEST_DIR, "src", "other.ts")]);
+
+      const clearResult = await selectClearCommand(1, tab.id);
+      expect(clearResult.data).toEqual({ removed: 1, total: 0 });
+      expect((await selectGetCommand(1, tab.id)).data?.files).toEqual([]);
+    });
+  });
+
+  describe("Reviewing git changes", () => {
+    beforeEach(async () => {
+      // Baseline on main, then a feature branch touching two files
+      await $`git init -q -b main`.cwd(TEST_DIR).quiet();
+      await $`git config user.email test@test.com`.cwd(TEST_DIR).quiet();
+      await $`git config user.name Test`.cwd(TEST_DIR).quiet();
+      await Bun.write(join(TEST_DIR, "src", "caller.ts"), "import { createUser } from './user';\n");
+      await $`git add src`.cwd(TEST_DIR).quiet();
+      await $`git commit -q -m base`.cwd(TEST_DIR).quiet();
+      await $`git checkout -q -b feature`.cwd(TEST_DIR).quiet();
+      await Bun.write(join(TEST_DIR, "src", "user.ts"), SAMPLE_TS_FILE + "\nexport const changed = true;\n");
+      await Bun.write(join(TEST_DIR, "src", "feature.ts"), "export const feature = 1;\n");
+      await Bun.write(join(TEST_DIR, "bun.lock"), "{}\n");
+      await $`git add src bun.lock`.cwd(TEST_DIR).quiet();
+      await $`git commit -q -m feature`.cwd(TEST_DIR).quiet();
+    });
+
+    it("replaces the selection with files changed against the base", async () => {
+      const tab = await createTab(1);
+      await selectAddCommand(1, tab.id, "src/caller.ts");
+
+      const result = await selectDiffCommand(1, tab.id, { base: "main" });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({ base: "main", mode: "range", changed: 2, ignored: 1, total: 2 });
+      expect(result.output).toContain("vs main");
+
+      const getResult = await selectGetCommand(1, tab.id);
+      expect(getResult.data?.files.sort()).toEqual([
+        join(TEST_DIR, "src", "feature.ts"),
+        join(TEST_DIR, "src", "user.ts"),
+      ]);
+    });
+
+    it("keeps the selection when the base is unknown", async () => {
+      const tab = await createTab(1);
+      await selectAddCommand(1, tab.id, "src/caller.ts src/user.ts");
+
+      const result = await selectDiffCommand(1, tab.id, { base: "mian" });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("Unknown ref: mian");
+      expect((await selectGetCommand(1, tab.id)).data?.files).toHaveLength(2);
+    });
+
+    it("adds callers of changed symbols with --callers", async () => {
+      const tab = await createTab(1);
+      const tldr = createMockTldr();
+      tldr.structure = mock(() =>
+        Promise.resolve([{ name: "createUser", type: "function" as const, file: "src/user.ts", line: 1 }])
+      );
+      tldr.impact = mock(() =>
+        Promise.resolve({
+          function: "createUser",
+          callers: [{ name: "main", file: "src/caller.ts", line: 1 }],
+          callees: [],
+        })
+      );
+
+      const result = await selectDiffCommand(1, tab.id, { base: "main", callers: true }, tldr);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.callers).toBe(1);
+      expect(result.data?.total).toBe(3);
+      expect((await selectGetCommand(1, tab.id)).data?.files).toContain(join(TEST_DIR, "src", "caller.ts"));
+    });
+
+    it("lists callers of the change as context hints", async () => {
+      const tab = await createTab(1);
+      const tldr = createMockTldr();
+      tldr.structure = mock(() =>
+        Promise.resolve([{ name: "createUser", type: "function" as const, file: "src/user.ts", line: 1 }])
+      );
+      tldr.impact = mock(() =>
+        Promise.resolve({
+          function: "createUser",
+          callers: [{ name: "main", file: "src/caller.ts", line: 1 }],
+          callees: [],
+        })
+      );
+      const payload = JSON.stringify({
+        message: "Review the branch",
+        mode: "review",
+        backend: "fixture",
+        selected_paths: [join(TEST_DIR, "src", "user.ts")],
+      });
+
+      const result = await chatSendCommand(1, tab.id, payload, tldr);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.contextPlan?.hints).toBe(1);
+      const xmlContent = await Bun.file(result.data!.path).text();
+      expect(xmlContent).toContain(
+        "<context_hints>\n    Consider these related files:\n    - src/caller.ts:1 - references createUser\n  </context_hints>"
+      );
+      expect(xmlContent).not.toContain('<codemap path="src/caller.ts">');
+
+      // Hinted files can be pulled in as code maps
+      await Bun.write(join(TEST_DIR, ".wdyt.json"), JSON.stringify({ hints: { codeMaps: true } }));
+      const withCodeMaps = await chatSendCommand(1, tab.id, payload, tldr);
+      const xmlWithCodeMaps = await Bun.file(withCodeMaps.data!.path).text();
+      expect(xmlWithCodeMaps).toContain('<codemap path="src/caller.ts">');
+      expect(xmlWithCodeMaps).not.toContain('<file path="src/caller.ts"');
+    });
+
+    it("expands the context with unselected callers when asked", async () => {
+      const tab = await createTab(1);
+      const tldr = createMockTldr();
+      tldr.structure = mock((file: string) =>
+        Promise.resolve(
+          file === "src/caller.ts"
+            ? [{ name: "main", type: "function" as const, file, line: 1 }]
+            : [{ name: "createUser", type: "function" as const, file, line: 1 }]
+        )
+      );
+      tldr.impact = mock((name: string) =>
+        Promise.resolve({
+          function: name,
+          callers: name === "createUser" ? [{ name: "main", file: "src/caller.ts", line: 0 }] : [],
+          callees: [],
+        })
+      );
+      const send = (extra: object = {}) =>
+        chatSendCommand(1, tab.id, JSON.stringify({
+          message: "Review the branch",
+          mode: "review",
+          backend: "fixture",
+          selected_paths: [join(TEST_DIR, "src", "user.ts")],
+          ...extra,
+        }), tldr);
+
+      // Opt-in only
+      const plain = await send();
+      expect(plain.data?.contextPlan?.expandedFiles).toBeUndefined();
+
+      const expanded = await send({ expand: true });
+      expect(expanded.data?.contextPlan?.expandedFiles).toBe(1);
+      expect(await Bun.file(expanded.data!.path).text()).toContain(
+        '<codemap path="src/caller.ts" expanded="caller">'
+      );
+
+      // Snippet format: just the calling symbol
+      await Bun.write(join(TEST_DIR, ".wdyt.json"), JSON.stringify({ expand: { enabled: true, format: "snippets" } }));
+      const snippets = await send();
+      expect(await Bun.file(snippets.data!.path).text()).toContain(
+        '<related_code>\n    <snippet path="src/caller.ts" symbol="main" lines="1-1" relation="caller" via="createUser">\n' +
+          "import { createUser } from &apos;./user&apos;;\n    </snippet>\n  </related_code>"
+      );
+    });
+
+    it("reviews every root of a multi-root window", async () => {
+      // A second repo (e.g. the backend) with an uncommitted change
+      const apiDir = join(TEST_DIR, "..", ".test-integration-api");
+      rmSync(apiDir, { recursive: true, force: true });
+      await $`git init -q -b main ${apiDir}`.quiet();
+      await $`git config user.email test@test.com && git config user.name Test`.cwd(apiDir).quiet();
+      await Bun.write(join(apiDir, "src", "api.ts"), "export const api = 1;\n");
+      await $`git add src && git commit -q -m base`.cwd(apiDir).quiet();
+      await Bun.write(join(apiDir, "src", "api.ts"), "export const api = 2;\n");
+
+      try {
+        await updateWindowPaths(1, [TEST_DIR, apiDir]);
+        const tab = await createTab(1);
+
+        const result = await chatSendCommand(1, tab.id, JSON.stringify({
+          message: "Review both repos",
+          mode: "review",
+          backend: "fixture",
+          selected_paths: [join(TEST_DIR, "src", "user.ts"), join(apiDir, "src", "api.ts")],
+        }), createMockTldr());
+
+        expect(result.success).toBe(true);
+        const xml = await Bun.file(result.data!.path).text();
+        expect(xml).toContain('<file path=".test-integration/src/user.ts" changed="true">');
+        expect(xml).toContain('<file path=".test-integration-api/src/api.ts" changed="true">');
+        expect(xml).toMatch(/<file_tree>[\s\S]*\.test-integration-api\/src\/[\s\S]*<\/file_tree>/);
+        expect(xml).toContain("diff --git a/.test-integration-api/src/api.ts b/.test-integration-api/src/api.ts");
+        expect(xml).toContain("diff --git a/.test-integration/src/user.ts b/.test-integration/src/user.ts");
+      } finally {
+        rmSync(apiDir, { recursive: true, force: true });
+      }
+    });
+
+    it("selects staged changes in staged mode", async () => {
+      const tab = await createTab(1);
+      await Bun.write(join(TEST_DIR, "src", "caller.ts"), "export const edited = 1;\n");
+      await $`git add src/caller.ts`.cwd(TEST_DIR).quiet();
+
+      const result = await selectDiffCommand(1, tab.id, { mode: "staged" });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({ base: "HEAD", mode: "staged", changed: 1, total: 1 });
+      expect((await selectGetCommand(1, tab.id)).data?.files).toEqual([join(TEST_DIR, "src", "caller.ts")]);
+    });
+
+    it("reviews only staged changes with diff: staged", async () => {
+      const tab = await createTab(1);
+      await Bun.write(join(TEST_DIR, "src", "caller.ts"), "export const STAGED_MARKER = 1;\n");
+      await $`git add src/caller.ts`.cwd(TEST_DIR).quiet();
+      await Bun.write(join(TEST_DIR, "src", "feature.ts"), "export const UNSTAGED_MARKER = 1;\n");
+
+      const result = await chatSendCommand(1, tab.id, JSON.stringify({
+        message: "Pre-commit review",
+        mode: "review",
+        backend: "fixture",
+        diff: "staged",
+        selected_paths: [join(TEST_DIR, "src", "caller.ts")],
+      }), createMockTldr());
+
+      expect(result.success).toBe(true);
+      expect(result.data?.diff).toEqual({ mode: "staged", base: "HEAD" });
+
+      const xmlContent = await Bun.file(result.data!.path).text();
+      const diff = xmlContent.slice(xmlContent.indexOf("<git_diff>"), xmlContent.indexOf("</git_diff>"));
+      expect(diff).toContain("+export const STAGED_MARKER = 1;");
+      expect(diff).not.toContain("UNSTAGED_MARKER");
+      expect(diff).not.toContain("export const changed = true;");
+    });
+
+    it("reviews a committed range with diff: range", async () => {
+      const tab = await createTab(1);
+
+      const result = await chatSendCommand(1, tab.id, JSON.stringify({
+        message: "Branch review",
+        mode: "review",
+        backend: "fixture",
+        diff: "range",
+        selected_paths: [join(TEST_DIR, "src", "user.ts")],
+      }), createMockTldr());
+
+      // The base defaults to the detected default branch
+      expect(result.success).toBe(true);
+      expect(result.data?.diff).toEqual({ mode: "range", base: "main", head: "HEAD" });
+      const xmlContent = await Bun.file(result.data!.path).text();
+      expect(xmlContent).toContain("export const changed = true;");
+
+      // Commit messages and the diff stat sit next to the code
+      expect(xmlContent).toMatch(/<commits>\s*[0-9a-f]+ feature\s*<\/commits>/);
+      expect(xmlContent).toContain("<diff_summary>");
+      expect(xmlContent).not.toContain("bun.lock");
+    });
+
+    it("includes per-file hunks with diff_format: hunks", async () => {
+      const tab = await createTab(1);
+
+      const result = await chatSendCommand(1, tab.id, JSON.stringify({
+        message: "Branch review",
+        mode: "review",
+        backend: "fixture",
+        diff: "range",
+        diff_format: "hunks",
+        selected_paths: [join(TEST_DIR, "src", "user.ts")],
+      }), createMockTldr());
+
+      expect(result.success).toBe(true);
+      expect(result.data?.contextPlan?.fileDiffs).toBe(2);
+      const xmlContent = await Bun.file(result.data!.path).text();
+      expect(xmlContent).toContain('<file_diff path="src/user.ts" status="modified">');
+      expect(xmlContent).toContain('<file_diff path="src/feature.ts" status="added">');
+      expect(xmlContent).not.toContain("<git_diff>");
+    });
+
+    it("includes the task and epic specs inferred from the branch name", async () => {
+      await $`git checkout -q -b fn-99-int.1-user-flag`.cwd(TEST_DIR).quiet();
+      await Bun.write(join(TEST_FLOW_DIR, "specs", "fn-99-int.md"), "# fn-99-int Integration epic\n");
+      const tab = await createTab(1);
+
+      const result = await chatSendCommand(1, tab.id, JSON.stringify({
+        message: "Task review",
+        mode: "review",
+        backend: "fixture",
+        selected_paths: [join(TEST_DIR, "src", "user.ts")],
+      }), createMockTldr());
+
+      expect(result.success).toBe(true);
+      expect(result.data?.taskId).toBe("fn-99-int.1");
+      const xmlContent = await Bun.file(result.data!.path).text();
+      expect(xmlContent).toMatch(/<context>\n  <task_spec>\n  # fn-99-int\.1 Integration Test Task/);
+      expect(xmlContent).toContain("<epic_spec>\n  # fn-99-int Integration epic");
+    });
+
+    it("rejects unknown diff formats", async () => {
+      const tab = await createTab(1);
+
+      const result = await chatSendCommand(1, tab.id, JSON.stringify({
+        message: "Review",
+        mode: "review",
+        diff_format: "split",
+      }), createMockTldr());
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("Invalid diff format: split");
+    });
+
+    it("rejects unknown diff modes", async () => {
+      const tab = await createTab(1);
+
+      const result = await chatSendCommand(1, tab.id, JSON.stringify({
+        message: "Review",
+        mode: "review",
+        diff: "everything",
+      }), createMockTldr());
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("Invalid diff mode: everything");
+    });
   });
 
   describe("Step 3: chat_send command", () => {
@@ -204,7 +769,7 @@ describe("Integration: flowctl-compatible pipeline", () => {
       // Remove claude from PATH to ensure tests don't depend on Claude CLI
       // This makes tests fast and deterministic
       originalPath = process.env.PATH;
-      process.env.PATH = "/nonexistent";
+      process.env.PATH = gitOnlyPath();
     });
 
     afterEach(() => {
@@ -249,6 +814,379 @@ describe("Integration: flowctl-compatible pipeline", () => {
       expect(xmlContent).toContain("user.ts");
     });
 
+    it("includes the spec for an explicit task_id", async () => {
+      const tab = await createTab(1);
+
+      const result = await chatSendCommand(1, tab.id, JSON.stringify({
+        message: "Review this task",
+        mode: "review",
+        task_id: "fn-99-int.1",
+        selected_paths: [join(TEST_DIR, "src", "user.ts")],
+      }), createMockTldr());
+
+      expect(result.success).toBe(true);
+      expect(result.data?.taskId).toBe("fn-99-int.1");
+      const xmlContent = await Bun.file(result.data!.path).text();
+      expect(xmlContent).toContain("<task_spec>");
+      expect(xmlContent).toContain("- [ ] chat_send generates context");
+      expect(xmlContent).not.toContain("<epic_spec>");
+    });
+
+    it("defaults to the task and last chat stored on the tab", async () => {
+      const built = await builderCommand(1, "Review the user module", { "task-id": "fn-99-int.1" });
+      const tabId = built.data!.tabId;
+      await updateTab(1, tabId, { selectedFiles: [join(TEST_DIR, "src", "user.ts")] });
+
+      const first = await chatSendCommand(1, tabId, JSON.stringify({ mode: "review", backend: "fixture" }), createMockTldr());
+      expect(first.data?.taskId).toBe("fn-99-int.1");
+      const xmlContent = await Bun.file(first.data!.path).text();
+      expect(xmlContent).toContain("<task_spec>");
+      expect(xmlContent).toContain("<prompt>\n    Review the user module");
+      expect((await getTab(1, tabId)).lastChatId).toBe(first.data!.id);
+
+      // new_chat: false continues the tab's last chat
+      const again = await chatSendCommand(1, tabId, JSON.stringify({
+        message: "Re-review",
+        mode: "review",
+        backend: "fixture",
+        new_chat: false,
+      }), createMockTldr());
+      expect(again.data?.isReReview).toBe(true);
+      expect((await getTab(1, tabId)).lastChatId).toBe(again.data!.id);
+    });
+
+    it("answers plan and chat tabs with their skill in a single pass", async () => {
+      const send = async (responseType: string) => {
+        const built = await builderCommand(1, "Add user deletion", {
+          "response-type": responseType,
+          "task-id": "fn-99-int.1",
+        });
+        await updateTab(1, built.data!.tabId, { selectedFiles: [join(TEST_DIR, "src", "user.ts")] });
+        return chatSendCommand(1, built.data!.tabId, JSON.stringify({ mode: "review", backend: "fixture" }), createMockTldr());
+      };
+
+      const plan = await send("plan");
+      expect(plan.data?.responseType).toBe("plan");
+      expect(plan.data?.strategy).toEqual({ type: "single-pass", reason: "plan response type" });
+      expect(plan.data?.review).toContain("Echo review");
+      expect(plan.data?.review).toContain(": # Plan Review");
+      expect(plan.data?.verdict).toBe("SHIP");
+      expect(plan.data?.compliance?.length).toBeGreaterThan(0);
+
+      // Chats answer the prompt: no verdict, no compliance pass
+      const chat = await send("chat");
+      expect(chat.data?.responseType).toBe("chat");
+      expect(chat.data?.strategy).toEqual({ type: "single-pass", reason: "chat response type" });
+      expect(chat.data?.review).toContain(": # Chat");
+      expect(chat.data?.verdict).toBeUndefined();
+      expect(chat.data?.compliance).toBeUndefined();
+
+      // Reviews are routed as before
+      const review = await send("review");
+      expect(review.data?.responseType).toBe("review");
+      expect(review.data?.strategy?.reason).not.toContain("response type");
+    });
+
+    it("re-expands selected folders at send time", async () => {
+      const tab = await createTab(1);
+      await selectAddCommand(1, tab.id, "src");
+
+      // Created after the folder was selected
+      await Bun.write(join(TEST_DIR, "src", "late.ts"), "export const late = 1;");
+
+      const result = await chatSendCommand(1, tab.id, JSON.stringify({
+        message: "Review this code",
+        mode: "review",
+      }), createMockTldr());
+
+      expect(result.success).toBe(true);
+      const xmlContent = await Bun.file(result.data!.path).text();
+      expect(xmlContent).toContain("late.ts");
+      expect(xmlContent).toContain("user.ts");
+    });
+
+    it("reports the strategy selected for the review", async () => {
+      const tab = await createTab(1);
+
+      const result = await chatSendCommand(1, tab.id, JSON.stringify({
+        message: "Audit this module",
+        mode: "review",
+        review_type: "audit",
+        selected_paths: [join(TEST_DIR, "src", "user.ts")],
+      }), createMockTldr());
+
+      expect(result.success).toBe(true);
+      expect(result.data?.strategy?.type).toBe("exploration");
+      expect(result.data?.strategy?.reason).toContain("Audit requires discovery");
+    });
+
+    it("reports a diff git can't take instead of reviewing no changes", async () => {
+      const outside = `/tmp/wdyt-not-a-repo-${Date.now()}`;
+      mkdirSync(outside, { recursive: true });
+      try {
+        await updateWindowPaths(1, [outside]);
+        const tab = await createTab(1);
+
+        const result = await chatSendCommand(1, tab.id, JSON.stringify({
+          message: "Review this code",
+          mode: "review",
+          backend: "fixture",
+        }), createMockTldr());
+
+        expect(result.success).toBe(false);
+        expect(result.error).toContain("git diff failed");
+      } finally {
+        rmSync(outside, { recursive: true, force: true });
+      }
+    });
+
+    it("runs the review on the fixture backend", async () => {
+      const tab = await createTab(1);
+
+      const result = await chatSendCommand(1, tab.id, JSON.stringify({
+        message: "Review this code",
+        mode: "review",
+        backend: "fixture",
+        selected_paths: [join(TEST_DIR, "src", "user.ts")],
+      }), createMockTldr());
+
+      expect(result.success).toBe(true);
+      expect(result.data?.review).toContain("Echo review");
+      expect(result.data?.verdict).toBe("SHIP");
+    });
+
+    it("gives backends without tools a review skill instead of the router", async () => {
+      const prompts: string[] = [];
+      const server = Bun.serve({
+        port: 0,
+        async fetch(req) {
+          const body = await req.json() as { messages: Array<{ content: string }> };
+          prompts.push(body.messages[0].content);
+          return Response.json({ choices: [{ message: { content: "<verdict>SHIP</verdict>" } }] });
+        },
+      });
+
+      try {
+        const tab = await createTab(1);
+        const result = await chatSendCommand(1, tab.id, JSON.stringify({
+          message: "Audit this module",
+          mode: "review",
+          review_type: "audit",
+          backend: { type: "openai", baseUrl: `http://localhost:${server.port}/v1` },
+          selected_paths: [join(TEST_DIR, "src", "user.ts")],
+        }), createMockTldr());
+
+        expect(result.success).toBe(true);
+        expect(result.data?.strategy).toEqual({
+          type: "single-pass",
+          reason: "Audit requires discovery, but the openai backend can't use tools",
+        });
+        expect(prompts).toHaveLength(1);
+        expect(prompts[0]).toContain("# Quick Review");
+        expect(prompts[0]).toContain("<finding>");
+        expect(prompts[0]).not.toContain("skill get");
+      } finally {
+        server.stop(true);
+      }
+    });
+
+    it("returns structured findings from the review", async () => {
+      const tab = await createTab(1);
+      const fixturePath = join(TEST_DIR, "review-fixture.txt");
+      await Bun.write(fixturePath, `Looks mostly fine.
+
+<finding>
+  <severity>major</severity>
+  <file>src/user.ts</file>
+  <line>12</line>
+  <issue>Email is not validated</issue>
+</finding>
+
+<verdict>NEEDS_WORK</verdict>`);
+
+      const result = await chatSendCommand(1, tab.id, JSON.stringify({
+        message: "Review this code",
+        mode: "review",
+        backend: { type: "fixture", fixture: fixturePath },
+        selected_paths: [join(TEST_DIR, "src", "user.ts")],
+      }), createMockTldr());
+
+      expect(result.success).toBe(true);
+      expect(result.data?.findings.length).toBeGreaterThan(0);
+      expect(result.data?.findings[0]).toMatchObject({
+        severity: "major",
+        file: "src/user.ts",
+        line: 12,
+        issue: "Email is not validated",
+      });
+    });
+
+    it("exports findings as SARIF from chat_send and findings export", async () => {
+      const tab = await createTab(1);
+      const fixturePath = join(TEST_DIR, "review-fixture.txt");
+      await Bun.write(fixturePath, `<finding>
+  <severity>critical</severity>
+  <file>${join(TEST_DIR, "src", "user.ts")}</file>
+  <line>19</line>
+  <issue>Weak email validation</issue>
+</finding>`);
+
+      const result = await chatSendCommand(1, tab.id, JSON.stringify({
+        message: "Review this code",
+        mode: "review",
+        backend: { type: "fixture", fixture: fixturePath },
+        selected_paths: [join(TEST_DIR, "src", "user.ts")],
+        sarif: true,
+      }), createMockTldr());
+
+      expect(result.success).toBe(true);
+      const run = result.data!.sarif!.runs[0];
+      expect(run.results[0].level).toBe("error");
+      expect(run.results[0].locations[0].physicalLocation).toEqual({
+        artifactLocation: { uri: "src/user.ts", uriBaseId: "SRCROOT" },
+        region: { startLine: 19 },
+      });
+
+      // The standalone export reads the recorded review
+      const exported = await findingsExportCommand(1);
+      expect(exported.success).toBe(true);
+      expect(exported.data?.chatId).toBe(result.data!.id);
+      expect(exported.data?.sarif.runs[0].results).toEqual(run.results);
+    });
+
+    it("exports the window's own latest review against its recorded roots", async () => {
+      const tab = await createTab(1);
+      const fixturePath = join(TEST_DIR, "review-fixture.txt");
+      await Bun.write(fixturePath, `<finding>
+  <severity>major</severity>
+  <file>${join(TEST_DIR, "src", "user.ts")}</file>
+  <line>3</line>
+  <issue>Missing null check</issue>
+</finding>`);
+
+      const result = await chatSendCommand(1, tab.id, JSON.stringify({
+        message: "Review this code",
+        mode: "review",
+        backend: { type: "fixture", fixture: fixturePath },
+        selected_paths: [join(TEST_DIR, "src", "user.ts")],
+      }), createMockTldr());
+      expect(result.success).toBe(true);
+
+      // Another window has no reviews of its own and different roots
+      const other = await windowCreateCommand([join(TEST_DIR, "src")]);
+      const otherId = other.data!.window.windowID;
+      const none = await findingsExportCommand(otherId);
+      expect(none.success).toBe(false);
+      expect(none.error).toContain(`No reviews recorded for window ${otherId}`);
+
+      const exported = await findingsExportCommand(otherId, undefined, result.data!.id);
+      expect(exported.success).toBe(true);
+      expect(exported.data?.sarif.runs[0].results[0].locations[0].physicalLocation.artifactLocation).toEqual({
+        uri: "src/user.ts",
+        uriBaseId: "SRCROOT",
+      });
+    });
+
+    it("checks the task spec's criteria in a compliance pass", async () => {
+      const tab = await createTab(1);
+      const fixturePath = join(TEST_DIR, "review-fixture.txt");
+      await Bun.write(fixturePath, `<criterion id="AC3">
+  <status>met</status>
+  <evidence>src/user.ts:12</evidence>
+</criterion>
+<criterion id="R2">
+  <status>unmet</status>
+  <note>No hints in the context</note>
+</criterion>
+
+<verdict>SHIP</verdict>`);
+
+      const result = await chatSendCommand(1, tab.id, JSON.stringify({
+        message: "Review this task",
+        mode: "review",
+        task_id: "fn-99-int.1",
+        backend: { type: "fixture", fixture: fixturePath },
+        selected_paths: [join(TEST_DIR, "src", "user.ts")],
+      }), createMockTldr());
+
+      expect(result.success).toBe(true);
+      const compliance = result.data!.compliance!;
+      expect(compliance.map((c) => c.id)).toEqual(["R1", "R2", "R3", "AC1", "AC2", "AC3"]);
+      expect(compliance[5]).toMatchObject({
+        status: "met",
+        text: "chat_send generates context",
+        evidence: [{ file: "src/user.ts", line: 12 }],
+      });
+      expect(compliance[1].status).toBe("unmet");
+      expect(compliance[0].status).toBe("unclear");
+
+      // An unmet criterion keeps the change from shipping
+      expect(result.data?.verdict).toBe("NEEDS_WORK");
+      expect(result.output).toContain("## Spec Compliance");
+      expect(result.output).toContain("1 met, 1 unmet, 4 unclear");
+    });
+
+    it("sizes the context from max_tokens and profiles", async () => {
+      const tab = await createTab(1);
+      await Bun.write(
+        join(TEST_DIR, ".wdyt.json"),
+        JSON.stringify({ profiles: { mono: { maxTokens: 300_000 } } })
+      );
+      const base = {
+        message: "Review this code",
+        mode: "review",
+        selected_paths: [join(TEST_DIR, "src", "user.ts")],
+      };
+
+      const fromProfile = await chatSendCommand(1, tab.id, JSON.stringify({
+        ...base,
+        profile: "mono",
+      }), createMockTldr());
+      expect(fromProfile.data?.contextPlan).toMatchObject({ profile: "mono", maxTokens: 300_000 });
+
+      const explicit = await chatSendCommand(1, tab.id, JSON.stringify({
+        ...base,
+        profile: "mono",
+        max_tokens: 80_000,
+      }), createMockTldr());
+      expect(explicit.data?.contextPlan?.maxTokens).toBe(80_000);
+
+      const unknown = await chatSendCommand(1, tab.id, JSON.stringify({
+        ...base,
+        profile: "missing",
+      }), createMockTldr());
+      expect(unknown.success).toBe(false);
+      expect(unknown.error).toContain("Unknown profile: missing");
+    });
+
+    it("applies project config ignore patterns and exposes it via config get", async () => {
+      const tab = await createTab(1);
+      await Bun.write(join(TEST_DIR, "src", "generated.ts"), "export const GENERATED_MARKER = 1;\n");
+      await Bun.write(
+        join(TEST_DIR, ".wdyt.json"),
+        JSON.stringify({ ignore: ["src/generated.ts"], ranking: { test: -50 } })
+      );
+
+      const result = await chatSendCommand(1, tab.id, JSON.stringify({
+        message: "Review this code",
+        mode: "review",
+        selected_paths: [join(TEST_DIR, "src", "user.ts"), join(TEST_DIR, "src", "generated.ts")],
+      }), createMockTldr());
+
+      expect(result.success).toBe(true);
+      const xmlContent = await Bun.file(result.data!.path).text();
+      expect(xmlContent).toContain("user.ts");
+      expect(xmlContent).not.toContain("GENERATED_MARKER");
+
+      const config = await configGetCommand(1);
+      expect(config.success).toBe(true);
+      expect(config.data).toMatchObject({ ignore: ["src/generated.ts"], ranking: { test: -50, changed: 100 } });
+
+      const weight = await configGetCommand(1, "ranking.test");
+      expect(weight.data).toBe(-50);
+      expect((await configGetCommand(1, "ranking.nope")).success).toBe(false);
+    });
+
     it("includes selected_paths from payload", async () => {
       const tab = await createTab(1);
 
@@ -463,7 +1401,7 @@ describe("Integration: Full pipeline simulation", () => {
     process.env.XDG_DATA_HOME = TEST_DIR;
     // Remove claude from PATH to ensure tests don't depend on Claude CLI
     originalPath = process.env.PATH;
-    process.env.PATH = "/nonexistent";
+    process.env.PATH = gitOnlyPath();
 
     mkdirSync(join(TEST_DIR, "src"), { recursive: true });
     await Bun.write(join(TEST_DIR, "src", "user.ts"), SAMPLE_TS_FILE);
@@ -472,7 +1410,7 @@ describe("Integration: Full pipeline simulation", () => {
     // Set window root to TEST_DIR for relative path resolution
     await updateWindowPaths(1, [TEST_DIR]);
 
-    clearReviewState();
+    await clearReviewState();
   });
 
   afterEach(async () => {
@@ -559,3 +1497,19 @@ describe("Integration: Full pipeline simulation", () => {
     expect(xmlContent).toContain("RE-REVIEW");
   });
 });
+
+describe("Integration: Embedded skills", () => {
+  it("match the skill files they stand in for", async () => {
+    const skillsDir = join(import.meta.dir, "..", "skills");
+    for (const file of readdirSync(skillsDir)) {
+      const name = file.replace(/\.md$/, "");
+      const embedded = getEmbeddedSkill(name);
+      if (!embedded) continue;
+
+      const result = await skillGetCommand(name);
+      expect(result.success).toBe(true);
+      expect(embedded).toBe(result.output!);
+    }
+    expect(getEmbeddedSkill("review-router")).toContain("<finding>");
+  });
+});
@@ -66,9 +66,14 @@ export function parseExpression(expression: string): ParsedExpression {
     args: rest,
     options: {
       "response-type": { type: "string" },
+      "base-branch": { type: "string" },
+      "task-id": { type: "string" },
       "new-chat": { type: "boolean" },
       "chat-name": { type: "string" },
       "chat-id": { type: "string" },
+      staged: { type: "boolean" },
+      worktree: { type: "boolean" },
+      callers: { type: "boolean" },
     },
     allowPositionals: true,
     strict: false, // Don't error on unknown flags
@@ -78,8 +83,16 @@ export function parseExpression(expression: string): ParsedExpression {
   let subcommand: string | undefined;
   let finalPositional = positionals;
 
-  if (command === "prompt" || command === "select") {
-    // First positional is the subcommand (get, set, add, export)
+  if (
+    command === "prompt" ||
+    command === "select" ||
+    command === "reviews" ||
+    command === "findings" ||
+    command === "config" ||
+    command === "window" ||
+    command === "tab"
+  ) {
+    // First positional is the subcommand (get, set, add, export, list, show, ...)
     if (positionals.length > 0) {
       subcommand = positionals[0];
       finalPositional = positionals.slice(1);
@@ -0,0 +1,123 @@
+/**
+ * Tests for selection expansion
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { join } from "path";
+import { mkdir, rm } from "fs/promises";
+import { IgnoreMatcher } from "./context";
+import {
+  expandGlob,
+  expandSelection,
+  isGlobPattern,
+  listFolderFiles,
+  matchesGlob,
+  resolveSpec,
+} from "./selection";
+
+const TEST_DIR = join(import.meta.dir, "..", ".test-selection");
+
+function ignoreFor(...patterns: string[]): IgnoreMatcher {
+  return new IgnoreMatcher(patterns, TEST_DIR);
+}
+
+beforeEach(async () => {
+  await rm(TEST_DIR, { recursive: true, force: true });
+  await mkdir(join(TEST_DIR, "src", "lib"), { recursive: true });
+  await mkdir(join(TEST_DIR, "node_modules", "dep"), { recursive: true });
+  await Bun.write(join(TEST_DIR, "src", "a.ts"), "export const a = 1;");
+  await Bun.write(join(TEST_DIR, "src", "b.md"), "# b");
+  await Bun.write(join(TEST_DIR, "src", "lib", "c.ts"), "export const c = 1;");
+  await Bun.write(join(TEST_DIR, "node_modules", "dep", "index.ts"), "export {};");
+});
+
+afterEach(async () => {
+  await rm(TEST_DIR, { recursive: true, force: true });
+});
+
+describe("resolveSpec", () => {
+  it("classifies files, folders, globs and missing paths", () => {
+    expect(resolveSpec("src/a.ts", TEST_DIR)).toEqual({ kind: "file", path: join(TEST_DIR, "src", "a.ts") });
+    expect(resolveSpec("src", TEST_DIR)).toEqual({ kind: "folder", path: join(TEST_DIR, "src") });
+    expect(resolveSpec("src/**/*.ts", TEST_DIR)).toEqual({ kind: "glob", pattern: "src/**/*.ts" });
+    expect(resolveSpec("nope.ts", TEST_DIR).kind).toBe("missing");
+  });
+
+  it("treats existing paths with glob characters as files", async () => {
+    const page = join(TEST_DIR, "src", "routes", "[slug]", "+page.svelte");
+    await Bun.write(page, "<h1>page</h1>");
+
+    expect(resolveSpec("src/routes/[slug]/+page.svelte", TEST_DIR)).toEqual({ kind: "file", path: page });
+    expect(resolveSpec("src/routes/[slug]", TEST_DIR).kind).toBe("folder");
+    expect(await expandSelection(["src/routes/[slug]/+page.svelte", page], [], TEST_DIR, ignoreFor())).toEqual([page]);
+  });
+
+  it("detects glob characters", () => {
+    expect(isGlobPattern("src/*.ts")).toBe(true);
+    expect(isGlobPattern("src/{a,b}.ts")).toBe(true);
+    expect(isGlobPattern("src/a.ts")).toBe(false);
+  });
+});
+
+describe("listFolderFiles", () => {
+  it("lists files recursively, sorted", async () => {
+    const files = await listFolderFiles(join(TEST_DIR, "src"), ignoreFor());
+    expect(files).toEqual([
+      join(TEST_DIR, "src", "a.ts"),
+      join(TEST_DIR, "src", "b.md"),
+      join(TEST_DIR, "src", "lib", "c.ts"),
+    ]);
+  });
+
+  it("skips ignored files and directories", async () => {
+    const files = await listFolderFiles(TEST_DIR, ignoreFor("node_modules/", "*.md"));
+    expect(files).toEqual([join(TEST_DIR, "src", "a.ts"), join(TEST_DIR, "src", "lib", "c.ts")]);
+  });
+
+  it("returns nothing for a missing folder", async () => {
+    expect(await listFolderFiles(join(TEST_DIR, "gone"), ignoreFor())).toEqual([]);
+  });
+});
+
+describe("globs", () => {
+  it("expands relative patterns against the root", async () => {
+    const files = await expandGlob("**/*.ts", TEST_DIR, ignoreFor("node_modules/"));
+    expect(files).toEqual([join(TEST_DIR, "src", "a.ts"), join(TEST_DIR, "src", "lib", "c.ts")]);
+  });
+
+  it("matches absolute patterns against absolute paths", () => {
+    const path = join(TEST_DIR, "src", "a.ts");
+    expect(matchesGlob(`${TEST_DIR}/src/*.ts`, path, TEST_DIR)).toBe(true);
+    expect(matchesGlob("src/*.ts", path, TEST_DIR)).toBe(true);
+    expect(matchesGlob("lib/*.ts", path, TEST_DIR)).toBe(false);
+  });
+});
+
+describe("expandSelection", () => {
+  it("combines files and folders without duplicates", async () => {
+    const files = await expandSelection(
+      ["src/a.ts"],
+      [join(TEST_DIR, "src")],
+      TEST_DIR,
+      ignoreFor()
+    );
+    expect(files).toEqual([
+      join(TEST_DIR, "src", "a.ts"),
+      join(TEST_DIR, "src", "b.md"),
+      join(TEST_DIR, "src", "lib", "c.ts"),
+    ]);
+  });
+
+  it("picks up files created after the folder was selected", async () => {
+    const folders = [join(TEST_DIR, "src", "lib")];
+    expect(await expandSelection([], folders, TEST_DIR, ignoreFor())).toHaveLength(1);
+
+    await Bun.write(join(TEST_DIR, "src", "lib", "d.ts"), "export const d = 1;");
+    expect(await expandSelection([], folders, TEST_DIR, ignoreFor())).toHaveLength(2);
+  });
+
+  it("expands globs and folders given as paths", async () => {
+    const files = await expandSelection(["src/*.md", "src/lib"], [], TEST_DIR, ignoreFor());
+    expect(files).toEqual([join(TEST_DIR, "src", "b.md"), join(TEST_DIR, "src", "lib", "c.ts")]);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Selection expansion for wdyt
+ *
+ * A tab's selection holds explicit files plus folders. Folders are stored
+ * as-is and expanded whenever the selection is read, so files created after
+ * `select add` are still picked up at chat_send time. Glob patterns are
+ * expanded to the files they match when they are added.
+ *
+ * Expansion skips anything matched by the window's ignore rules, and never
+ * descends into ignored directories.
+ */
+
+import { existsSync, statSync } from "fs";
+import { readdir } from "fs/promises";
+import { isAbsolute, join, relative, resolve } from "path";
+import type { IgnoreMatcher } from "./context";
+
+/** Characters that make a selection path a glob pattern */
+const GLOB_CHARS = /[*?[\]{}]/;
+
+/**
+ * A path spec from `select add/remove/set`, resolved against the root
+ */
+export type SelectionSpec =
+  | { kind: "file"; path: string }
+  | { kind: "folder"; path: string }
+  | { kind: "glob"; pattern: string }
+  | { kind: "missing"; path: string };
+
+/**
+ * Check whether a selection path is a glob pattern
+ */
+export function isGlobPattern(path: string): boolean {
+  return GLOB_CHARS.test(path);
+}
+
+/**
+ * Classify a path spec
+ *
+ * Existing paths are files or folders even when they contain glob
+ * characters (e.g. `src/routes/[slug]/+page.svelte`); only specs that
+ * don't exist as-is are treated as globs.
+ *
+ * @param spec - File, folder or glob (relative to the root or absolute)
+ * @param rootPath - Root relative specs are resolved against
+ */
+export function resolveSpec(spec: string, rootPath: string): SelectionSpec {
+  const path = resolve(rootPath, spec);
+  if (!existsSync(path)) {
+    return isGlobPattern(spec) ? { kind: "glob", pattern: spec } : { kind: "missing", path };
+  }
+  return statSync(path).isDirectory()
+    ? { kind: "folder", path }
+    : { kind: "file", path };
+}
+
+/**
+ * List every file under a folder, skipping ignored files and directories
+ *
+ * Symlinks are not followed. Results are sorted.
+ *
+ * @param folder - Absolute folder path
+ * @param ignore - Ignore rules for the root
+ */
+export async function listFolderFiles(folder: string, ignore: IgnoreMatcher): Promise<string[]> {
+  const files: string[] = [];
+
+  const walk = async (dir: string) => {
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch {
+      // Unreadable or deleted since it was selected
+      return;
+    }
+
+    for (const entry of entries) {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!ignore.ignoresDirectory(path)) {
+          await walk(path);
+        }
+      } else if (entry.isFile() && !ignore.ignores(path)) {
+        files.push(path);
+      }
+    }
+  };
+
+  await walk(folder);
+  return files.sort();
+}
+
+/**
+ * Check whether an absolute path matches a glob pattern
+ *
+ * Relative patterns match against the path relative to the root, absolute
+ * patterns against the absolute path.
+ */
+export function matchesGlob(pattern: string, path: string, rootPath: string): boolean {
+  const target = isAbsolute(pattern) ? path : relative(rootPath, path);
+  return new Bun.Glob(pattern).match(target);
+}
+
+/**
+ * Expand a glob pattern to the non-ignored files it matches under the root
+ *
+ * @param pattern - Glob pattern (relative to the root, or absolute)
+ * @param rootPath - Root folder to search
+ * @param ignore - Ignore rules for the root
+ */
+export async function expandGlob(
+  pattern: string,
+  rootPath: string,
+  ignore: IgnoreMatcher
+): Promise<string[]> {
+  const files = await listFolderFiles(rootPath, ignore);
+  return files.filter((path) => matchesGlob(pattern, path, rootPath));
+}
+
+/**
+ * Resolve a selection to the files it currently covers
+ *
+ * Explicit files come first, in selection order, followed by the current
+ * contents of each selected folder. Specs may be files, folders or globs,
+ * so payload `selected_paths` can be expanded the same way.
+ *
+ * @param paths - Selected files (or any path specs)
+ * @param folders - Selected folders
+ * @param rootPath - Root relative paths are resolved against
+ * @param ignore - Ignore rules (applied to folder and glob expansion)
+ * @returns Absolute, de-duplicated file paths
+ */
+export async function expandSelection(
+  paths: string[],
+  folders: string[],
+  rootPath: string,
+  ignore: IgnoreMatcher
+): Promise<string[]> {
+  const files = new Set<string>();
+
+  for (const path of paths) {
+    const spec = resolveSpec(path, rootPath);
+    if (spec.kind === "glob") {
+      for (const file of await expandGlob(spec.pattern, rootPath, ignore)) {
+        files.add(file);
+      }
+    } else if (spec.kind === "folder") {
+      for (const file of await listFolderFiles(spec.path, ignore)) {
+        files.add(file);
+      }
+    } else {
+      // Missing files are kept so callers can report or skip them
+      files.add(spec.path);
+    }
+  }
+
+  for (const folder of folders) {
+    for (const file of await listFolderFiles(resolve(rootPath, folder), ignore)) {
+      files.add(file);
+    }
+  }
+
+  return Array.from(files);
+}
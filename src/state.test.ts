@@ -4,7 +4,8 @@
 
 import { describe, test, expect, beforeEach, afterEach } from "bun:test";
 import { join } from "path";
-import { rm } from "fs/promises";
+import { rm, mkdir, writeFile, utimes } from "fs/promises";
+import { existsSync } from "fs";
 import {
   loadState,
   saveState,
@@ -15,8 +16,13 @@ import {
   updateTab,
   deleteTab,
   createWindow,
+  deleteWindow,
   ensureState,
+  updateState,
+  migrateState,
+  STATE_VERSION,
 } from "./state";
+import type { StateFile } from "./types";
 
 // Use a test-specific directory
 const TEST_DIR = join(import.meta.dir, "..", ".test-state");
@@ -48,7 +54,7 @@ describe("State management", () => {
     const state = await loadState();
 
     expect(state).toBeDefined();
-    expect(state.version).toBe(1);
+    expect(state.version).toBe(STATE_VERSION);
     expect(state.windows).toHaveLength(1);
     expect(state.windows[0].id).toBe(1);
     expect(state.windows[0].tabs).toHaveLength(0);
@@ -174,6 +180,17 @@ describe("State management", () => {
     expect(windows).toHaveLength(2);
   });
 
+  test("deleteWindow removes the window and its tabs", async () => {
+    await ensureState();
+
+    const window = await createWindow(["/path/to/project"]);
+    await createTab(window.id);
+    await deleteWindow(window.id);
+
+    expect((await getWindows()).map((w) => w.id)).toEqual([1]);
+    await expect(deleteWindow(window.id)).rejects.toThrow(`Window ${window.id} not found`);
+  });
+
   test("getWindows returns all windows", async () => {
     await ensureState();
 
@@ -182,3 +199,156 @@ describe("State management", () => {
     expect(windows[0].id).toBe(1);
   });
 });
+
+describe("State migrations", () => {
+  const statePath = () => join(TEST_DIR, "wdyt", "state.json");
+
+  test("upgrades version 1 tabs", async () => {
+    await mkdir(join(TEST_DIR, "wdyt"), { recursive: true });
+    await writeFile(
+      statePath(),
+      JSON.stringify({
+        version: 1,
+        windows: [{ id: 1, rootFolderPaths: [], tabs: [{ id: "t1", prompt: "", selectedFiles: [], createdAt: "2026-01-01T00:00:00.000Z" }] }],
+      })
+    );
+
+    const state = await loadState();
+
+    expect(state.version).toBe(STATE_VERSION);
+    expect(state.windows[0].tabs[0]).toMatchObject({ updatedAt: "2026-01-01T00:00:00.000Z", selectedFolders: [] });
+  });
+
+  test("treats files without a version as version 1", () => {
+    const state = migrateState({ windows: [] } as unknown as StateFile);
+    expect(state.version).toBe(STATE_VERSION);
+  });
+
+  test("refuses state from a newer wdyt without replacing it", async () => {
+    await mkdir(join(TEST_DIR, "wdyt"), { recursive: true });
+    const newer = JSON.stringify({ version: STATE_VERSION + 1, windows: [] });
+    await writeFile(statePath(), newer);
+
+    await expect(loadState()).rejects.toThrow(`State file version ${STATE_VERSION + 1} is newer`);
+    await expect(createTab(1)).rejects.toThrow("newer");
+    expect(await Bun.file(statePath()).text()).toBe(newer);
+  });
+});
+
+describe("Tab metadata", () => {
+  test("createTab stores metadata and updateTab stamps changes", async () => {
+    const tab = await createTab(1, { summary: "Review auth", taskId: "fn-1.2" });
+    expect(tab).toMatchObject({ summary: "Review auth", taskId: "fn-1.2", updatedAt: tab.createdAt });
+
+    await Bun.sleep(5);
+    const updated = await updateTab(1, tab.id, { lastChatId: "chat-1", prompt: undefined });
+
+    expect(updated).toMatchObject({ summary: "Review auth", lastChatId: "chat-1", prompt: "" });
+    expect(updated.updatedAt > tab.updatedAt).toBe(true);
+  });
+
+  test("createTab takes an initial prompt and selection", async () => {
+    const tab = await createTab(1, { prompt: "Review auth", selectedFiles: ["/src/auth.ts"], responseType: "plan" });
+
+    expect(tab).toMatchObject({
+      prompt: "Review auth",
+      selectedFiles: ["/src/auth.ts"],
+      selectedFolders: [],
+      responseType: "plan",
+    });
+  });
+});
+
+describe("State transactions", () => {
+  const lockPath = () => join(TEST_DIR, "wdyt", "state.json.lock");
+
+  /**
+   * Run `count` tab creations in each of `workers` separate processes
+   */
+  async function hammer(workers: number, count: number): Promise<number[]> {
+    const script = join(TEST_DIR, "worker.ts");
+    await mkdir(TEST_DIR, { recursive: true });
+    await writeFile(
+      script,
+      `import { createTab, updateTab } from ${JSON.stringify(join(import.meta.dir, "state.ts"))};\n` +
+        `for (let i = 0; i < ${count}; i++) {\n` +
+        `  const tab = await createTab(1);\n` +
+        `  await updateTab(1, tab.id, { prompt: "worker " + process.pid });\n` +
+        `}\n`
+    );
+
+    const procs = Array.from({ length: workers }, () =>
+      Bun.spawn(["bun", script], { env: { ...process.env, XDG_DATA_HOME: TEST_DIR }, stderr: "pipe" })
+    );
+    return Promise.all(procs.map((p) => p.exited));
+  }
+
+  test("updateState saves changes and returns the result", async () => {
+    const id = await updateState((state) => {
+      state.windows.push({ id: 7, rootFolderPaths: ["/p"], tabs: [] });
+      return 7;
+    });
+
+    expect(id).toBe(7);
+    expect((await getWindow(7)).rootFolderPaths).toEqual(["/p"]);
+    expect(existsSync(lockPath())).toBe(false);
+  });
+
+  test("updateState saves nothing when the change throws", async () => {
+    await ensureState();
+
+    await expect(
+      updateState((state) => {
+        state.windows = [];
+        throw new Error("boom");
+      })
+    ).rejects.toThrow("boom");
+
+    expect(await getWindows()).toHaveLength(1);
+    expect(existsSync(lockPath())).toBe(false);
+  });
+
+  test("concurrent processes don't lose updates", async () => {
+    await ensureState();
+
+    const exitCodes = await hammer(4, 10);
+
+    expect(exitCodes).toEqual([0, 0, 0, 0]);
+    const tabs = (await getWindow(1)).tabs;
+    expect(tabs).toHaveLength(40);
+    expect(tabs.every((t) => t.prompt.startsWith("worker "))).toBe(true);
+    expect(existsSync(lockPath())).toBe(false);
+  }, 60_000);
+
+  test("concurrent updates in one process are serialized", async () => {
+    await ensureState();
+
+    await Promise.all(Array.from({ length: 20 }, () => createTab(1)));
+
+    expect((await getWindow(1)).tabs).toHaveLength(20);
+  });
+
+  test("takes over a lock left by a dead process", async () => {
+    await ensureState();
+
+    // A process that has exited can't hold the lock
+    const dead = Bun.spawn(["bun", "-e", "0"]);
+    await dead.exited;
+    await writeFile(lockPath(), `${dead.pid}:crashed`);
+
+    await createTab(1);
+    expect((await getWindow(1)).tabs).toHaveLength(1);
+    expect(existsSync(lockPath())).toBe(false);
+  });
+
+  test("takes over a lock older than the stale age", async () => {
+    await ensureState();
+
+    await writeFile(lockPath(), `${process.pid}:stuck`);
+    const old = new Date(Date.now() - 60_000);
+    await utimes(lockPath(), old, old);
+
+    await createTab(1);
+    expect((await getWindow(1)).tabs).toHaveLength(1);
+  });
+});
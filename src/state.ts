@@ -3,14 +3,64 @@
  *
  * Persists windows, tabs, and selections to disk.
  * State is stored in ~/.wdyt/state.json (or XDG_DATA_HOME/wdyt/state.json)
+ *
+ * Several wdyt processes (e.g. parallel flowctl workers) can share the
+ * state file. Changes go through updateState, which holds a lock file
+ * (state.json.lock) from load to save so concurrent changes aren't lost.
+ * A lock left behind by a crashed process is taken over once its owner
+ * is gone or it is older than LOCK_STALE_MS. Saves write a temp file and
+ * rename it, so readers never see a partial file.
+ *
+ * The file is versioned. Older files are upgraded by MIGRATIONS when
+ * loaded (and saved in the new format on the next change); newer ones
+ * are refused rather than overwritten.
  */
 
 import { join } from "path";
 import { homedir } from "os";
-import { mkdirSync, renameSync } from "fs";
-import type { StateFile, Window, Tab, TabUpdate } from "./types";
+import { closeSync, linkSync, mkdirSync, openSync, readFileSync, renameSync, statSync, unlinkSync, writeSync } from "fs";
+import type { SelectionState, StateFile, Window, Tab, TabUpdate } from "./types";
 
-const STATE_VERSION = 1;
+/**
+ * A state file migration
+ *
+ * Upgrades state from the version before `version` to `version`, in
+ * place. It runs on the state as it was stored, so fields the current
+ * types require may be missing.
+ */
+interface StateMigration {
+  version: number;
+  description: string;
+  migrate: (state: StateFile) => void;
+}
+
+/** State migrations, oldest first */
+const MIGRATIONS: StateMigration[] = [
+  {
+    version: 2,
+    description: "Tabs record when they last changed",
+    migrate: (state) => {
+      for (const window of state.windows) {
+        for (const tab of window.tabs) {
+          tab.updatedAt ??= tab.createdAt;
+          tab.selectedFolders ??= [];
+        }
+      }
+    },
+  },
+];
+
+/** Current state file version */
+export const STATE_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/** Age after which a lock is considered abandoned */
+const LOCK_STALE_MS = 10_000;
+
+/** How long to wait for the lock before giving up */
+const LOCK_TIMEOUT_MS = 30_000;
+
+/** Longest wait between lock attempts */
+const LOCK_RETRY_MAX_MS = 50;
 
 /**
  * Get the data directory path
@@ -31,6 +81,157 @@ function getStatePath(): string {
   return join(getDataDir(), "state.json");
 }
 
+/**
+ * Upgrade a state file to STATE_VERSION
+ *
+ * Files without a version are treated as version 1.
+ *
+ * @param state - Parsed state file (changed in place)
+ * @returns The upgraded state
+ * @throws Error if the file is from a newer wdyt
+ */
+export function migrateState(state: StateFile): StateFile {
+  const version = state.version || 1;
+  if (version > STATE_VERSION) {
+    throw new Error(
+      `State file version ${version} is newer than this wdyt supports (${STATE_VERSION}). Upgrade wdyt.`
+    );
+  }
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version > version) {
+      migration.migrate(state);
+    }
+  }
+
+  state.version = STATE_VERSION;
+  return state;
+}
+
+/**
+ * Get the lock file path
+ */
+function getLockPath(): string {
+  return `${getStatePath()}.lock`;
+}
+
+/**
+ * Check whether a process is still running
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: running, but owned by another user
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * Read an existing lock if it was abandoned
+ *
+ * A lock is stale when its owner process is gone, or when it's older
+ * than LOCK_STALE_MS (the owner may be stuck, or on another machine).
+ *
+ * @returns The stale lock's token, or undefined if the lock is live
+ */
+function readStaleLock(lockPath: string): string | undefined {
+  try {
+    const token = readFileSync(lockPath, "utf-8");
+    const [pid] = token.split(":");
+    if (Number(pid) > 0 && !isProcessAlive(Number(pid))) {
+      return token;
+    }
+    return Date.now() - statSync(lockPath).mtimeMs > LOCK_STALE_MS ? token : undefined;
+  } catch {
+    // Released (or half-written) since we tried: retry
+    return undefined;
+  }
+}
+
+/**
+ * Remove a stale lock, unless it was replaced since it was read
+ *
+ * Between reading the stale token and removing the lock, another process
+ * may have recovered it and taken a new lock. The lock is moved aside
+ * first and checked: a lock that isn't the stale one is put back (with
+ * link, which fails rather than overwrite a lock taken meanwhile).
+ */
+function removeStaleLock(lockPath: string, staleToken: string): void {
+  const movedPath = `${lockPath}.stale.${process.pid}.${crypto.randomUUID()}`;
+  try {
+    renameSync(lockPath, movedPath);
+  } catch {
+    // Someone else recovered it
+    return;
+  }
+
+  try {
+    if (readFileSync(movedPath, "utf-8") !== staleToken) {
+      linkSync(movedPath, lockPath);
+    }
+  } catch {
+    // Another lock was taken in the meantime; it stays
+  } finally {
+    unlinkSync(movedPath);
+  }
+}
+
+/**
+ * Acquire the state lock
+ *
+ * @returns Token identifying this holder (the lock file's content)
+ * @throws Error if the lock isn't released within LOCK_TIMEOUT_MS
+ */
+async function acquireLock(): Promise<string> {
+  const lockPath = getLockPath();
+  const token = `${process.pid}:${crypto.randomUUID()}`;
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  while (true) {
+    try {
+      // "wx" fails if the file exists, so only one process creates it
+      const fd = openSync(lockPath, "wx");
+      try {
+        writeSync(fd, token);
+      } finally {
+        closeSync(fd);
+      }
+      return token;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+    }
+
+    const staleToken = readStaleLock(lockPath);
+    if (staleToken !== undefined) {
+      removeStaleLock(lockPath, staleToken);
+      continue;
+    }
+
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for state lock (${lockPath})`);
+    }
+    await Bun.sleep(1 + Math.random() * LOCK_RETRY_MAX_MS);
+  }
+}
+
+/**
+ * Release the state lock, if this holder still owns it
+ */
+function releaseLock(token: string): void {
+  const lockPath = getLockPath();
+  try {
+    if (readFileSync(lockPath, "utf-8") === token) {
+      unlinkSync(lockPath);
+    }
+  } catch {
+    // Already gone
+  }
+}
+
 /**
  * Create default state with a single window
  */
@@ -66,22 +267,15 @@ export async function loadState(): Promise<StateFile> {
     return createDefaultState();
   }
 
+  let state: StateFile;
   try {
     const content = await stateFile.text();
-    const state = JSON.parse(content) as StateFile;
+    state = JSON.parse(content) as StateFile;
 
     // Validate basic structure
     if (!state || typeof state !== "object" || !Array.isArray(state.windows)) {
       throw new Error("Invalid state structure");
     }
-
-    // Validate and migrate if needed
-    if (!state.version || state.version < STATE_VERSION) {
-      // Future: handle migrations
-      state.version = STATE_VERSION;
-    }
-
-    return state;
   } catch (error) {
     // State file exists but is corrupted - backup and start fresh
     const backupPath = `${statePath}.backup.${Date.now()}`;
@@ -93,10 +287,15 @@ export async function loadState(): Promise<StateFile> {
     }
     return createDefaultState();
   }
+
+  // Outside the corruption handling: a newer file must not be replaced
+  return migrateState(state);
 }
 
 /**
  * Save state to disk
+ *
+ * Not locked on its own: use updateState to change state.
  */
 export async function saveState(state: StateFile): Promise<void> {
   const statePath = getStatePath();
@@ -105,26 +304,72 @@ export async function saveState(state: StateFile): Promise<void> {
   // Ensure directory exists using proper mkdir
   mkdirSync(dataDir, { recursive: true });
 
-  // Write state file atomically
+  // Write state file atomically (temp file, then rename)
   const content = JSON.stringify(state, null, 2);
-  await Bun.write(statePath, content);
+  const tempPath = `${statePath}.${process.pid}.${crypto.randomUUID()}.tmp`;
+  await Bun.write(tempPath, content);
+  renameSync(tempPath, statePath);
 }
 
 /**
- * Get a window by ID
+ * Change state in a transaction
+ *
+ * Loads the state under the lock, lets `fn` change it, and saves it
+ * before releasing the lock. Nothing is saved if `fn` throws. `fn` must
+ * not call updateState (or anything built on it) itself.
+ *
+ * @param fn - Changes the state in place; its result is returned
+ * @returns What `fn` returned
+ */
+export async function updateState<T>(fn: (state: StateFile) => T | Promise<T>): Promise<T> {
+  mkdirSync(getDataDir(), { recursive: true });
+  const token = await acquireLock();
+  try {
+    const state = await loadState();
+    const result = await fn(state);
+    await saveState(state);
+    return result;
+  } finally {
+    releaseLock(token);
+  }
+}
+
+/**
+ * Find a window in state
  * @throws Error if window not found
  */
-export async function getWindow(id: number): Promise<Window> {
-  const state = await loadState();
-  const window = state.windows.find((w) => w.id === id);
+function findWindow(state: StateFile, windowId: number): Window {
+  const window = state.windows.find((w) => w.id === windowId);
 
   if (!window) {
-    throw new Error(`Window ${id} not found`);
+    throw new Error(`Window ${windowId} not found`);
   }
 
   return window;
 }
 
+/**
+ * Find the index of a tab in a window
+ * @throws Error if tab not found
+ */
+function findTabIndex(window: Window, tabId: string): number {
+  const tabIndex = window.tabs.findIndex((t) => t.id === tabId);
+
+  if (tabIndex === -1) {
+    throw new Error(`Tab ${tabId} not found in window ${window.id}`);
+  }
+
+  return tabIndex;
+}
+
+/**
+ * Get a window by ID
+ * @throws Error if window not found
+ */
+export async function getWindow(id: number): Promise<Window> {
+  return findWindow(await loadState(), id);
+}
+
 /**
  * Get all windows
  */
@@ -135,27 +380,28 @@ export async function getWindows(): Promise<Window[]> {
 
 /**
  * Create a new tab in a window
+ * @param init - Initial prompt, selection and review metadata (summary, response type, ...)
  * @returns The newly created tab
  */
-export async function createTab(windowId: number): Promise<Tab> {
-  const state = await loadState();
-  const window = state.windows.find((w) => w.id === windowId);
-
-  if (!window) {
-    throw new Error(`Window ${windowId} not found`);
-  }
-
-  const tab: Tab = {
-    id: generateUUID(),
-    prompt: "",
-    selectedFiles: [],
-    createdAt: new Date().toISOString(),
-  };
-
-  window.tabs.push(tab);
-  await saveState(state);
-
-  return tab;
+export async function createTab(windowId: number, init: TabUpdate = {}): Promise<Tab> {
+  const { prompt = "", selectedFiles = [], selectedFolders = [], ...metadata } = init;
+  return updateState((state) => {
+    const window = findWindow(state, windowId);
+
+    const now = new Date().toISOString();
+    const tab: Tab = {
+      ...metadata,
+      id: generateUUID(),
+      prompt,
+      selectedFiles,
+      selectedFolders,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    window.tabs.push(tab);
+    return tab;
+  });
 }
 
 /**
@@ -182,50 +428,58 @@ export async function updateTab(
   tabId: string,
   update: TabUpdate
 ): Promise<Tab> {
-  const state = await loadState();
-  const window = state.windows.find((w) => w.id === windowId);
-
-  if (!window) {
-    throw new Error(`Window ${windowId} not found`);
-  }
-
-  const tabIndex = window.tabs.findIndex((t) => t.id === tabId);
-  if (tabIndex === -1) {
-    throw new Error(`Tab ${tabId} not found in window ${windowId}`);
-  }
-
-  // Merge update into existing tab
-  const tab = window.tabs[tabIndex];
-  if (update.prompt !== undefined) {
-    tab.prompt = update.prompt;
-  }
-  if (update.selectedFiles !== undefined) {
-    tab.selectedFiles = update.selectedFiles;
-  }
+  return updateState((state) => {
+    const window = findWindow(state, windowId);
+
+    // Merge update into existing tab (undefined fields are left alone)
+    const tab = window.tabs[findTabIndex(window, tabId)];
+    for (const [key, value] of Object.entries(update)) {
+      if (value !== undefined) {
+        Object.assign(tab, { [key]: value });
+      }
+    }
+    tab.updatedAt = new Date().toISOString();
 
-  await saveState(state);
+    return tab;
+  });
+}
 
-  return tab;
+/**
+ * Change a tab's selection in a transaction
+ *
+ * `change` gets the selection as it is under the lock, so concurrent
+ * `select add`/`remove` calls on one tab build on each other.
+ *
+ * @param change - Returns the new selection from the current one
+ * @returns The selection before and after the change
+ */
+export async function updateSelection(
+  windowId: number,
+  tabId: string,
+  change: (selection: SelectionState) => SelectionState
+): Promise<{ before: SelectionState; after: SelectionState }> {
+  return updateState((state) => {
+    const window = findWindow(state, windowId);
+    const tab = window.tabs[findTabIndex(window, tabId)];
+
+    const before = { files: [...tab.selectedFiles], folders: [...(tab.selectedFolders ?? [])] };
+    const after = change({ files: [...before.files], folders: [...before.folders] });
+    tab.selectedFiles = after.files;
+    tab.selectedFolders = after.folders;
+    tab.updatedAt = new Date().toISOString();
+
+    return { before, after };
+  });
 }
 
 /**
  * Delete a tab from a window
  */
 export async function deleteTab(windowId: number, tabId: string): Promise<void> {
-  const state = await loadState();
-  const window = state.windows.find((w) => w.id === windowId);
-
-  if (!window) {
-    throw new Error(`Window ${windowId} not found`);
-  }
-
-  const tabIndex = window.tabs.findIndex((t) => t.id === tabId);
-  if (tabIndex === -1) {
-    throw new Error(`Tab ${tabId} not found in window ${windowId}`);
-  }
-
-  window.tabs.splice(tabIndex, 1);
-  await saveState(state);
+  await updateState((state) => {
+    const window = findWindow(state, windowId);
+    window.tabs.splice(findTabIndex(window, tabId), 1);
+  });
 }
 
 /**
@@ -235,21 +489,19 @@ export async function deleteTab(windowId: number, tabId: string): Promise<void>
 export async function createWindow(
   rootFolderPaths: string[] = []
 ): Promise<Window> {
-  const state = await loadState();
-
-  // Find the next available ID
-  const maxId = state.windows.reduce((max, w) => Math.max(max, w.id), 0);
-
-  const window: Window = {
-    id: maxId + 1,
-    rootFolderPaths,
-    tabs: [],
-  };
-
-  state.windows.push(window);
-  await saveState(state);
-
-  return window;
+  return updateState((state) => {
+    // Find the next available ID
+    const maxId = state.windows.reduce((max, w) => Math.max(max, w.id), 0);
+
+    const window: Window = {
+      id: maxId + 1,
+      rootFolderPaths,
+      tabs: [],
+    };
+
+    state.windows.push(window);
+    return window;
+  });
 }
 
 /**
@@ -259,17 +511,41 @@ export async function updateWindowPaths(
   windowId: number,
   rootFolderPaths: string[]
 ): Promise<Window> {
-  const state = await loadState();
-  const window = state.windows.find((w) => w.id === windowId);
-
-  if (!window) {
-    throw new Error(`Window ${windowId} not found`);
-  }
+  return updateState((state) => {
+    const window = findWindow(state, windowId);
+    window.rootFolderPaths = rootFolderPaths;
+    return window;
+  });
+}
 
-  window.rootFolderPaths = rootFolderPaths;
-  await saveState(state);
+/**
+ * Change a window's root folders in a transaction
+ *
+ * `change` gets the roots as they are under the lock, so concurrent
+ * `window roots add`/`remove` calls build on each other.
+ *
+ * @param change - Returns the new roots from the current ones (may throw to abort)
+ * @returns The updated window
+ */
+export async function updateWindowRoots(
+  windowId: number,
+  change: (rootFolderPaths: string[]) => string[]
+): Promise<Window> {
+  return updateState((state) => {
+    const window = findWindow(state, windowId);
+    window.rootFolderPaths = change([...window.rootFolderPaths]);
+    return window;
+  });
+}
 
-  return window;
+/**
+ * Delete a window and its tabs
+ */
+export async function deleteWindow(windowId: number): Promise<void> {
+  await updateState((state) => {
+    const window = findWindow(state, windowId);
+    state.windows.splice(state.windows.indexOf(window), 1);
+  });
 }
 
 /**
@@ -277,6 +553,5 @@ export async function updateWindowPaths(
  * Called on startup to initialize state
  */
 export async function ensureState(): Promise<void> {
-  const state = await loadState();
-  await saveState(state);
+  await updateState(() => {});
 }
@@ -2,12 +2,35 @@
  * Types for wdyt - Code review context builder for LLMs
  */
 
+/**
+ * Review metadata of a tab
+ *
+ * Set by `builder`; chat_send uses these as defaults for payload fields
+ * it's not given.
+ */
+export interface TabMetadata {
+  /** Summary passed to `builder` (fallback prompt) */
+  summary?: string;
+  /** Response type passed to `builder` (default review_type) */
+  responseType?: string;
+  /** Default base_branch */
+  baseBranch?: string;
+  /** Default task_id */
+  taskId?: string;
+  /** Chat ID of the tab's last chat_send (continued with new_chat: false) */
+  lastChatId?: string;
+}
+
 /** Tab within a window */
-export interface Tab {
+export interface Tab extends TabMetadata {
   id: string;
   prompt: string;
   selectedFiles: string[];
+  /** Selected folders, re-expanded each time the selection is read */
+  selectedFolders?: string[];
   createdAt: string;
+  /** Last change to the tab */
+  updatedAt: string;
 }
 
 /** Window representation */
@@ -63,7 +86,8 @@ export interface StateFile {
 }
 
 /** Tab update data - partial fields that can be updated */
-export interface TabUpdate {
+export interface TabUpdate extends TabMetadata {
   prompt?: string;
   selectedFiles?: string[];
+  selectedFolders?: string[];
 }